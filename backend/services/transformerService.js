@@ -26,14 +26,28 @@ export async function initAI() {
   console.log("[BugSense AI] Models initialized ✅");
 }
 
+function describeRequest(r) {
+  const status = r.error ? `failed (${r.error})` : `${r.status} ${r.statusText || ""}`.trim();
+  const body = r.responseBody ? ` — response: ${String(r.responseBody).slice(0, 200)}` : "";
+  return `${r.method} ${r.url} → ${status}${body}`;
+}
+
 // Analyze bug text and generate report
 export async function analyzeBug(input = {}) {
   const {
     console: consoleError,
+    symbolicatedStack,
+    errorGroup,
     selectionText,
     srcUrl,
     linkUrl,
+    element,
     replayActions,
+    replaySteps,
+    networkRequests,
+    evidenceWindow,
+    consoleErrors,
+    appData,
     extraDetails,
   } = input;
 
@@ -44,7 +58,18 @@ export async function analyzeBug(input = {}) {
 Error: ${consoleError.message || ""}
 File: ${consoleError.filename || "unknown"}
 Line: ${consoleError.lineno || ""}
-Stack: ${consoleError.stack || ""}
+Stack: ${symbolicatedStack || consoleError.stack || ""}
+`;
+    // The DevTools panel folds repeated errors by fingerprint (render loops, retries…)
+    if (errorGroup?.count > 1) {
+      const pages = (errorGroup.urls || []).slice(0, 3).join(", ");
+      contextText += `Occurrences: ${errorGroup.count} between ${new Date(errorGroup.firstSeen).toISOString()} and ${new Date(errorGroup.lastSeen).toISOString()}${pages ? ` on ${pages}` : ""}\n`;
+    }
+  } else if (element) {
+    contextText = `
+Element: <${element.tagName || "?"}> ${element.selector || ""}
+Size: ${element.rect ? `${element.rect.width}x${element.rect.height}` : "unknown"}
+HTML: ${String(element.outerHTML || "").slice(0, 300)}
 `;
   } else if (selectionText) {
     contextText = `User selected: "${selectionText}"`;
@@ -54,7 +79,50 @@ Stack: ${consoleError.stack || ""}
     contextText = `User right-clicked link: ${linkUrl}`;
   }
 
-  contextText += `\nActions before error: ${JSON.stringify(replayActions?.slice(-5) || [], null, 2)}`;
+  // The extension sends replaySteps (utils/replaySteps.ts) built from the versioned replay
+  // actions; older clients only send the raw actions.
+  const userSteps = Array.isArray(replaySteps) ? replaySteps.slice(-8) : [];
+  if (userSteps.length > 0) {
+    contextText += `\nUser steps before error:\n${userSteps.join("\n")}`;
+  } else {
+    contextText += `\nActions before error: ${JSON.stringify(replayActions?.slice(-5) || [], null, 2)}`;
+  }
+
+  const failedRequests = (networkRequests || []).filter((r) => r.failed).slice(-5);
+  if (failedRequests.length > 0) {
+    contextText += `\nFailed network requests:\n${failedRequests.map(describeRequest).join("\n")}`;
+  }
+
+  // Set when the reporter narrowed the DevTools timeline to an evidence window; the steps and
+  // requests above are already clipped to it.
+  const otherErrors = (consoleErrors || [])
+    .filter((e) => e.message && e.message !== consoleError?.message)
+    .slice(-5);
+  if (evidenceWindow && otherErrors.length > 0) {
+    contextText += `\nOther console errors in the evidence window:\n${otherErrors.map((e) => `- ${String(e.message).slice(0, 200)}`).join("\n")}`;
+  }
+
+  // Pushed by the app through window.BugSense (breadcrumbs, context, user, attached state)
+  if (appData) {
+    const traits = appData.user ? Object.entries(appData.user).filter(([k]) => k !== "idHash") : [];
+    if (traits.length > 0) {
+      contextText += `\nUser: ${traits.map(([k, v]) => `${k}=${JSON.stringify(v)}`).join(", ").slice(0, 200)}`;
+    }
+    const contextNames = Object.keys(appData.context || {});
+    if (contextNames.length > 0) {
+      contextText += `\nApp context: ${JSON.stringify(appData.context).slice(0, 400)}`;
+    }
+    const breadcrumbs = (appData.breadcrumbs || []).slice(-8);
+    if (breadcrumbs.length > 0) {
+      contextText += `\nApp breadcrumbs:\n${breadcrumbs
+        .map((b) => `- ${b.category ? `[${b.category}] ` : ""}${String(b.message).slice(0, 150)}`)
+        .join("\n")}`;
+    }
+    const stateNames = Object.keys(appData.state || {});
+    if (stateNames.length > 0) {
+      contextText += `\nAttached app state: ${stateNames.join(", ")}`;
+    }
+  }
 
   if (extraDetails) {
     contextText += `\n\n🔍 Additional User Notes:\n${extraDetails}`;
@@ -88,9 +156,11 @@ Stack: ${consoleError.stack || ""}
     steps:
       steps.length > 0
         ? steps
-        : [
-          "1. Observe the error on the page",
-          "2. Follow actions from replay buffer",
-        ],
+        : userSteps.length > 0
+          ? userSteps
+          : [
+            "1. Observe the error on the page",
+            "2. Follow actions from replay buffer",
+          ],
   };
 }
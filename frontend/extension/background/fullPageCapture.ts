@@ -0,0 +1,289 @@
+// extension/background/fullPageCapture.ts
+// Full-page ("scrolling") screenshots: scroll the tab one viewport at a time, captureVisibleTab
+// each step and draw the frame into the output OffscreenCanvas right away.
+//
+// - captureVisibleTab is rate limited (MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND = 2), so
+//   captures are throttled.
+// - Sticky elements are pinned to their normal flow position for the whole capture and fixed
+//   elements are only kept in the first frame, otherwise headers repeat in every viewport.
+// - Frames are captured at device pixels; the scale is measured from the first frame so both
+//   devicePixelRatio and browser zoom are covered.
+// - Canvases have a hard size limit, so very tall pages come back as several tiles. A tile is
+//   encoded as soon as the frames have moved past it; only one tile and one frame are held in
+//   the worker at a time.
+// - Region mode (targetSelector) captures just one element's box, scrolling through it when it
+//   is taller than the viewport. Fixed elements are hidden from every frame unless they contain
+//   the target. Regions wider than the viewport are cut at the viewport width.
+import type { ElementRect } from "../utils/elementInfo";
+import { captureVisibleTabRedacted } from "./redaction";
+
+export type FullPageCapture = {
+  tiles: Blob[]; // top to bottom, each at most MAX_TILE_HEIGHT device pixels tall
+  width: number; // device pixels
+  height: number; // device pixels (sum of tile heights)
+  scale: number; // device pixels per CSS pixel
+  truncated: boolean; // page was taller than MAX_VIEWPORTS viewports
+};
+
+const CAPTURE_INTERVAL_MS = 550;
+const SETTLE_MS = 150; // let lazy content / scroll handlers react before each capture
+const MAX_VIEWPORTS = 40;
+const MAX_TILE_HEIGHT = 16000; // stays well inside Chrome's canvas limits
+
+type PageMetrics = {
+  scrollHeight: number;
+  viewportHeight: number;
+  viewportWidth: number;
+  target: ElementRect | null; // document coords, measured after sticky elements were pinned
+  targetFixed: boolean; // target sits inside a fixed element — scrolling won't move it
+  scrollX: number;
+  scrollY: number;
+};
+type ScrollPos = { x: number; y: number };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// ─────────────────────────────────────────────────────────────
+//  Page-side helpers (serialized into the tab by executeScript — must stay self-contained)
+// ─────────────────────────────────────────────────────────────
+function preparePage(targetSelector: string | null): PageMetrics {
+  const w = window as any;
+  const doc = document.documentElement;
+  const fixed: { el: HTMLElement; visibility: string }[] = [];
+  const sticky: { el: HTMLElement; position: string }[] = [];
+  const targetEl = targetSelector ? document.querySelector(targetSelector) : null;
+  let targetFixed = false;
+
+  document.querySelectorAll<HTMLElement>("body *").forEach((el) => {
+    const pos = getComputedStyle(el).position;
+    if (pos === "fixed") {
+      if (targetEl && el.contains(targetEl)) targetFixed = true;
+      else fixed.push({ el, visibility: el.style.visibility });
+    } else if (pos === "sticky") {
+      sticky.push({ el, position: el.style.position });
+      el.style.setProperty("position", "relative", "important");
+    }
+  });
+
+  w.__bugSenseFullPage = {
+    fixed,
+    sticky,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    scrollBehavior: doc.style.scrollBehavior,
+    targetSelector,
+  };
+  doc.style.scrollBehavior = "auto";
+
+  let target: ElementRect | null = null;
+  if (targetEl) {
+    const r = targetEl.getBoundingClientRect();
+    target = { x: r.left + window.scrollX, y: r.top + window.scrollY, width: r.width, height: r.height };
+  }
+
+  return {
+    scrollHeight: Math.max(doc.scrollHeight, document.body?.scrollHeight || 0),
+    viewportHeight: window.innerHeight,
+    viewportWidth: window.innerWidth,
+    target,
+    targetFixed,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+  };
+}
+
+function scrollPageTo(x: number, y: number, hideFixed: boolean): Promise<{ x: number; y: number }> {
+  const state = (window as any).__bugSenseFullPage;
+  state?.fixed.forEach((f: { el: HTMLElement; visibility: string }) => {
+    if (hideFixed) f.el.style.setProperty("visibility", "hidden", "important");
+    else f.el.style.visibility = f.visibility;
+  });
+  window.scrollTo(x, y);
+  // two frames: one for the scroll, one for anything it triggers (sticky/lazy layout)
+  return new Promise((resolve) =>
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve({ x: window.scrollX, y: window.scrollY })))
+  );
+}
+
+function restorePage() {
+  const w = window as any;
+  const state = w.__bugSenseFullPage;
+  if (!state) return;
+  state.fixed.forEach((f: { el: HTMLElement; visibility: string }) => (f.el.style.visibility = f.visibility));
+  state.sticky.forEach((s: { el: HTMLElement; position: string }) => (s.el.style.position = s.position));
+  window.scrollTo(state.scrollX, state.scrollY);
+  document.documentElement.style.scrollBehavior = state.scrollBehavior;
+  if (state.targetSelector) {
+    document.querySelectorAll(state.targetSelector).forEach((el) => el.removeAttribute("data-bugsense-target"));
+  }
+  delete w.__bugSenseFullPage;
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Capture + stitch
+// ─────────────────────────────────────────────────────────────
+async function runInTab<T>(tabId: number, func: (...args: any[]) => T | Promise<T>, args: any[] = []): Promise<T> {
+  const [res] = await chrome.scripting.executeScript({ target: { tabId }, func: func as any, args });
+  return res?.result as T;
+}
+
+let lastCaptureAt = 0;
+
+async function captureViewport(tab: chrome.tabs.Tab): Promise<ImageBitmap> {
+  const wait = lastCaptureAt + CAPTURE_INTERVAL_MS - Date.now();
+  if (wait > 0) await sleep(wait);
+  lastCaptureAt = Date.now();
+  // sensitive fields are looked up per viewport, after each scroll
+  const dataUrl = await captureVisibleTabRedacted(tab, { format: "png" });
+  return await createImageBitmap(await (await fetch(dataUrl)).blob());
+}
+
+/**
+ * Whole page by default; with targetSelector only the box of that element
+ * (the element is looked up after sticky elements are pinned, so its box is final).
+ */
+export async function captureFullPage(
+  tab: chrome.tabs.Tab,
+  options: { targetSelector?: string } = {}
+): Promise<FullPageCapture> {
+  if (!tab.id || typeof tab.windowId !== "number") throw new Error("No capturable tab");
+  if (!tab.active) throw new Error("Tab not visible");
+  const tabId = tab.id;
+
+  const metrics = await runInTab<PageMetrics>(tabId, preparePage, [options.targetSelector ?? null]);
+  if (!metrics?.viewportHeight) throw new Error("Could not measure page");
+  if (options.targetSelector && !metrics.target) {
+    await runInTab(tabId, restorePage).catch(() => undefined);
+    throw new Error("Target element not found");
+  }
+
+  const region = metrics.target;
+  // an element inside a fixed container is captured in place, in a single frame
+  const inPlace = Boolean(region && metrics.targetFixed);
+  const startX = inPlace ? metrics.scrollX : region ? Math.max(0, Math.floor(region.x)) : 0;
+  const startY = inPlace ? metrics.scrollY : region ? Math.max(0, Math.floor(region.y)) : 0;
+  const endY = inPlace ? 0 : region ? region.y + region.height : metrics.scrollHeight;
+
+  const stitcher = createStitcher(metrics);
+  let truncated = false;
+  try {
+    let previous: ScrollPos | null = null;
+    for (let i = 0, y = startY; ; i++) {
+      if (i >= MAX_VIEWPORTS) {
+        truncated = true;
+        break;
+      }
+      const scroll = await runInTab<ScrollPos>(tabId, scrollPageTo, [startX, y, Boolean(region) || i > 0]);
+      await sleep(SETTLE_MS);
+      await stitcher.add(await captureViewport(tab), scroll);
+
+      // scrollTo clamps at the bottom — once the page stops moving we have everything
+      if (previous && scroll.y <= previous.y) break;
+      if (scroll.y + metrics.viewportHeight >= endY) break;
+      previous = scroll;
+      y = scroll.y + metrics.viewportHeight;
+    }
+  } finally {
+    await runInTab(tabId, restorePage).catch((err) => console.warn("[BugSense] restorePage failed:", err));
+  }
+
+  return await stitcher.finish(truncated);
+}
+
+type Tile = { top: number; canvas: OffscreenCanvas; ctx: OffscreenCanvasRenderingContext2D };
+
+function newTile(top: number, width: number, rows: number): Tile {
+  const canvas = new OffscreenCanvas(width, Math.max(1, Math.min(MAX_TILE_HEIGHT, rows)));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("No OffscreenCanvas context");
+  return { top, canvas, ctx };
+}
+
+/** Taller copy of the tile (the page grew past the estimate); canvases can't be resized in place */
+function growTile(tile: Tile, rows: number): Tile {
+  if (rows <= tile.canvas.height) return tile;
+  const grown = newTile(tile.top, tile.canvas.width, rows);
+  grown.ctx.drawImage(tile.canvas, 0, 0);
+  return grown;
+}
+
+async function encodeTile(tile: Tile, rows: number): Promise<Blob> {
+  const out = rows < tile.canvas.height ? newTile(tile.top, tile.canvas.width, rows) : tile;
+  if (out !== tile) out.ctx.drawImage(tile.canvas, 0, 0);
+  return await out.canvas.convertToBlob({ type: "image/jpeg", quality: 0.9 });
+}
+
+/**
+ * Draws each viewport into the current tile as it arrives (and closes it), encoding tiles the
+ * frames have moved past. The output area is fixed by the first frame: its width and scale, and
+ * for region mode the element's box.
+ */
+function createStitcher(metrics: PageMetrics) {
+  const region = metrics.target;
+  const tiles: Blob[] = [];
+  let geometry: { scale: number; left: number; top0: number; width: number; limit: number; estimate: number } | null = null;
+  let tile: Tile | null = null;
+  let bottom = 0; // output rows covered so far
+
+  return {
+    async add(bitmap: ImageBitmap, scroll: ScrollPos) {
+      try {
+        if (!geometry) {
+          // Output area in device pixels, relative to the document
+          const scale = bitmap.width / metrics.viewportWidth;
+          const left = region ? Math.round(region.x * scale) : 0;
+          const top0 = region ? Math.round(region.y * scale) : 0;
+          const viewRight = Math.round(scroll.x * scale) + bitmap.width;
+          const width = Math.max(1, region ? Math.min(Math.round(region.width * scale), viewRight - left) : bitmap.width);
+          const limit = region ? Math.round((region.y + region.height) * scale) - top0 : Infinity;
+          const estimate = region ? limit : Math.round(metrics.scrollHeight * scale);
+          geometry = { scale, left, top0, width, limit, estimate };
+        }
+        const g = geometry;
+        const frameTop = Math.round(scroll.y * g.scale) - g.top0;
+        const frameLeft = Math.round(scroll.x * g.scale) - g.left;
+        const frameBottom = Math.min(frameTop + bitmap.height, g.limit);
+
+        tile ??= newTile(0, g.width, g.estimate);
+        while (frameBottom > tile.top + MAX_TILE_HEIGHT) {
+          tile = growTile(tile, MAX_TILE_HEIGHT);
+          tile.ctx.drawImage(bitmap, frameLeft, frameTop - tile.top);
+          tiles.push(await encodeTile(tile, MAX_TILE_HEIGHT));
+          const top = tile.top + MAX_TILE_HEIGHT;
+          tile = newTile(top, g.width, g.estimate - top);
+        }
+        tile = growTile(tile, frameBottom - tile.top);
+        tile.ctx.drawImage(bitmap, frameLeft, frameTop - tile.top);
+        bottom = Math.max(bottom, frameBottom);
+      } finally {
+        bitmap.close();
+      }
+    },
+
+    async finish(truncated: boolean): Promise<FullPageCapture> {
+      if (!geometry || !tile) throw new Error("Nothing captured");
+      const height = Math.max(1, bottom);
+      tiles.push(await encodeTile(tile, Math.max(1, height - tile.top)));
+      return { tiles, width: geometry.width, height, scale: geometry.scale, truncated };
+    },
+  };
+}
+
+/** Small JPEG of the whole stitched page (all tiles) for previews */
+export async function createFullPagePreview(capture: FullPageCapture, maxW = 400, maxH = 1200): Promise<Blob> {
+  const ratio = Math.min(maxW / capture.width, maxH / capture.height, 1);
+  const w = Math.max(1, Math.round(capture.width * ratio));
+  const h = Math.max(1, Math.round(capture.height * ratio));
+  const canvas = new OffscreenCanvas(w, h);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("No OffscreenCanvas context");
+
+  let y = 0;
+  for (const tile of capture.tiles) {
+    const bitmap = await createImageBitmap(tile);
+    ctx.drawImage(bitmap, 0, y * ratio, w, bitmap.height * ratio);
+    y += bitmap.height;
+    bitmap.close();
+  }
+  return await canvas.convertToBlob({ type: "image/jpeg", quality: 0.7 });
+}
@@ -1,11 +1,41 @@
 // extension/background/index.ts
 // Background service worker for Bug Sense (Manifest V3)
-// Handles START/STOP recording (tabCapture), and handles one-shot CAPTURE_FRAME requests
-// from content scripts to capture visible tab screenshot. Returns screenshot as data URL.
+// Routes START/STOP/PAUSE/RESUME recording to the offscreen recorder (recordingController.ts),
+// and handles one-shot CAPTURE_FRAME requests from content scripts to capture visible tab
+// screenshot. Returns screenshot as data URL.
+import { originOf, readScoped, removeTabScopes, scopedKey } from "../utils/tabScope";
+import {
+  onRecordingFailed,
+  onRecordingSaved,
+  pauseTabRecording,
+  reconcileRecordingState,
+  resumeTabRecording,
+  startTabRecording,
+  stopTabRecording,
+} from "./recordingController";
+import { captureFullPage, createFullPagePreview } from "./fullPageCapture";
+import { ELEMENT_TARGET_ATTR } from "../utils/elementInfo";
+import { captureVisibleTabRedacted } from "./redaction";
+import { runReplaySteps } from "./stepReplay";
+import { watchPageSdkSettings } from "./pageSdkScript";
+import {
+  MediaRef,
+  ReplayFrameRef,
+  blobToDataUrl,
+  dataUrlToBlob,
+  deleteMedia,
+  deleteTabMedia,
+  putMedia,
+} from "../utils/mediaStore";
+import { BUG_LIBRARY_WRITE, addBug, applyLibraryWrite } from "../utils/bugLibrary";
+import { collectPageEnvironment, completeEnvironment, getEnvironmentSettings } from "../utils/environment";
+import { ERROR_INDEX_WRITE, ErrorOccurrence, applyIndexWrite, isIndexedError, recordErrorOccurrences } from "../utils/errorIndex";
 
 type Msg =
   | { action: "START_RECORDING" }
   | { action: "STOP_RECORDING" }
+  | { action: "PAUSE_RECORDING" }
+  | { action: "RESUME_RECORDING" }
   | { action: "OPEN_GIF_UPLOADER" }
   | { action: "OPEN_RECORDER_WINDOW" }
   | { action: "CAPTURE_FRAME" }
@@ -14,10 +44,7 @@ type Msg =
   | { action: "OPEN_REPLAY_EXPORT_PAGE" }
   | { action: "HIDE_OVERLAY_AND_CAPTURE" };
 
-let mediaRecorder: MediaRecorder | null = null;
-let recordedChunks: BlobPart[] = [];
-let activeStream: MediaStream | null = null;
-const lastSavedUrlKey = "recordedVideo";
+const MAX_REPLAY_FRAMES = 30; // ~60s at one frame per 2s
 
 // Safety listener to silence "async channel closed" warnings
 // This acts as a safety net for any message that truly never calls sendResponse.
@@ -26,84 +53,13 @@ chrome.runtime.onMessage.addListener(() => {
   // Intentionally no-op.
 });
 
-function setRecordingFlag(on: boolean) {
-  try {
-    chrome.storage.local.set({ isRecording: on });
-  } catch (e) {
-    // ignore
-  }
-}
+console.log("[BugSense Background] Service worker active ✅");
 
-function saveBlobUrlToStorage(key: string, url: string) {
-  try {
-    chrome.storage.local.get([key], (data) => {
-      try {
-        const prev = data?.[key];
-        if (prev && typeof prev === "string") {
-          try {
-            URL.revokeObjectURL(prev);
-          } catch { }
-        }
-      } catch { }
-      try {
-        chrome.storage.local.set({ [key]: url });
-      } catch (err) {
-        console.warn("Failed to set storage key:", key, err);
-      }
-    });
-  } catch (err) {
-    console.warn("saveBlobUrlToStorage outer error:", err);
-    try {
-      chrome.storage.local.set({ [key]: url });
-    } catch { }
-  }
-}
+// A worker that was suspended (or a browser restart) must not leave a phantom recording behind
+reconcileRecordingState().catch((err) => console.warn("[BugSense] reconcileRecordingState:", err));
 
-function finalizeRecording() {
-  try {
-    if (recordedChunks.length > 0) {
-      const blob = new Blob(recordedChunks, { type: "video/webm" });
-      const url = URL.createObjectURL(blob);
-      saveBlobUrlToStorage(lastSavedUrlKey, url);
-    }
-  } catch (err) {
-    console.error("finalizeRecording error:", err);
-  } finally {
-    try {
-      activeStream?.getTracks().forEach((t) => t.stop());
-    } catch { }
-    recordedChunks = [];
-    mediaRecorder = null;
-    activeStream = null;
-    setRecordingFlag(false);
-  }
-}
-
-// Try background tab capture (tabCapture API)
-function tryTabCapture(): Promise<MediaStream | null> {
-  return new Promise((resolve) => {
-    try {
-      const tc: any = (chrome as any).tabCapture;
-      if (!tc || typeof tc.capture !== "function") {
-        resolve(null);
-        return;
-      }
-      tc.capture({ video: true, audio: false }, (stream: MediaStream | undefined) => {
-        if (!stream) {
-          console.warn("tabCapture returned no stream:", chrome.runtime.lastError?.message);
-          resolve(null);
-          return;
-        }
-        resolve(stream);
-      });
-    } catch (err) {
-      console.warn("tryTabCapture threw:", err);
-      resolve(null);
-    }
-  });
-}
-
-console.log("[BugSense Background] Service worker active ✅");
+// window.BugSense is registered for the opted-in origins only
+watchPageSdkSettings();
 
 //---------------------------------------------
 chrome.runtime.onInstalled.addListener(() => {
@@ -113,19 +69,31 @@ chrome.runtime.onInstalled.addListener(() => {
     title: "Bug Sense",
     contexts: ["all"],
   });
-  // Add two submenus
+  // Submenus
   chrome.contextMenus.create({
     id: "BUGSENSE_FULL_SCREENSHOT",
     parentId: "BUGSENSE_MAIN_MENU",
     title: "Create bug report (Full screen)",
     contexts: ["all"],
   });
+  chrome.contextMenus.create({
+    id: "BUGSENSE_FULLPAGE_SCREENSHOT",
+    parentId: "BUGSENSE_MAIN_MENU",
+    title: "Create bug report (Full page)",
+    contexts: ["all"],
+  });
   chrome.contextMenus.create({
     id: "BUGSENSE_SELECTIVE_SCREENSHOT",
     parentId: "BUGSENSE_MAIN_MENU",
     title: "Create bug report (Select area)",
     contexts: ["all"],
   });
+  chrome.contextMenus.create({
+    id: "BUGSENSE_ELEMENT_PICKER",
+    parentId: "BUGSENSE_MAIN_MENU",
+    title: "Create bug report (Pick element)",
+    contexts: ["all"],
+  });
   console.log("[BugSense] Background installed. Context menu created ✅");
 });
 
@@ -137,12 +105,35 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
     chrome.runtime.sendMessage({
       action: "TRIGGER_BUG_CREATION_FROM_CONTEXT",
       mode: "full",
+      tabId: tab.id,
       selectionText: info.selectionText,
       srcUrl: info.srcUrl,
       linkUrl: info.linkUrl,
     });
   }
 
+  if (info.menuItemId === "BUGSENSE_FULLPAGE_SCREENSHOT") {
+    try {
+      const capture = await captureFullPage(tab);
+      const tiles = await Promise.all(capture.tiles.map((t) => blobToDataUrl(t)));
+      chrome.runtime.sendMessage({
+        action: "TRIGGER_BUG_CREATION_FROM_CONTEXT",
+        mode: "fullpage",
+        tabId: tab.id,
+        screenshot: tiles[0],
+        screenshotTiles: tiles,
+        truncated: capture.truncated,
+      });
+    } catch (err) {
+      console.error("[BugSense] Full-page capture failed:", err);
+    }
+  }
+
+  if (info.menuItemId === "BUGSENSE_ELEMENT_PICKER") {
+    // selectionOverlay.ts is a manifest content script; it answers with CAPTURE_ELEMENT
+    chrome.tabs.sendMessage(tab.id, { action: "START_ELEMENT_PICKER" }, () => void chrome.runtime.lastError);
+  }
+
   if (info.menuItemId === "BUGSENSE_SELECTIVE_SCREENSHOT") {
     // Inject selectionOverlay.js only once per page (guard in the page avoids duplicate listeners)
     try {
@@ -229,8 +220,76 @@ async function createPreviewDataUrl(blob: Blob, maxW = 800, maxH = 600, quality
   }
 }
 
+// Full-page mode: every tile goes into FULL_IMAGE_CACHE under its own key
+async function takeFullPageScreenshot(): Promise<any> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab) return { success: false, error: "No active tab" };
+
+  const capture = await captureFullPage(tab);
+  const stamp = Date.now();
+  const fullKeys: string[] = [];
+  for (let i = 0; i < capture.tiles.length; i++) {
+    const part = capture.tiles.length > 1 ? `-part${i + 1}-of-${capture.tiles.length}` : "";
+    const key = `bugSense_${stamp}_${i}_${Math.random().toString(36).slice(2, 8)}`;
+    const dataUrl = await blobToDataUrl(capture.tiles[i]);
+    FULL_IMAGE_CACHE.set(key, { dataUrl, filename: `bug-sense-fullpage-${stamp}${part}.jpg`, createdAt: stamp });
+    scheduleScreenshotCleanup(key);
+    fullKeys.push(key);
+  }
+
+  const preview = await blobToDataUrl(await createFullPagePreview(capture));
+  return {
+    success: true,
+    preview,
+    fullKey: fullKeys[0],
+    fullKeys,
+    filename: `bug-sense-fullpage-${stamp}.jpg`,
+    truncated: capture.truncated,
+  };
+}
+
+// ==========================================================
+// 🎯 CAPTURE_ELEMENT — element picker (page) or "Report selected element" (DevTools)
+// The sender has already marked the element with ELEMENT_TARGET_ATTR.
+// ==========================================================
+chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
+  if (msg?.action !== "CAPTURE_ELEMENT") return;
+
+  (async () => {
+    try {
+      const tab = sender.tab ?? (typeof msg.tabId === "number" ? await chrome.tabs.get(msg.tabId) : null);
+      if (!tab?.id) throw new Error("No tab for element capture");
+
+      const capture = await captureFullPage(tab, { targetSelector: `[${ELEMENT_TARGET_ATTR}]` });
+      const tiles = await Promise.all(capture.tiles.map((t) => blobToDataUrl(t)));
+      chrome.runtime.sendMessage({
+        action: "TRIGGER_BUG_CREATION_FROM_CONTEXT",
+        mode: "element",
+        tabId: tab.id,
+        screenshot: tiles[0],
+        screenshotTiles: tiles,
+        element: msg.element,
+      });
+      sendResponse({ success: true });
+    } catch (err: any) {
+      console.error("[BugSense] Element capture failed:", err);
+      sendResponse({ success: false, error: String(err?.message || err) });
+    }
+  })();
+
+  return true; // async
+});
+
 // 🧠 TAKE_SCREENSHOT & DOWNLOAD_FULL_SCREENSHOT handler
 chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
+  if (msg?.action === "TAKE_SCREENSHOT" && msg.mode === "fullpage") {
+    console.log("[BugSense Background] Full-page TAKE_SCREENSHOT triggered 🖼️");
+    takeFullPageScreenshot()
+      .then(sendResponse)
+      .catch((err) => sendResponse({ success: false, error: String(err?.message || err) }));
+    return true; // async
+  }
+
   if (msg?.action === "TAKE_SCREENSHOT") {
     try {
       console.log("[BugSense Background] TAKE_SCREENSHOT triggered 🖼️");
@@ -242,45 +301,38 @@ chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
           return;
         }
 
-        chrome.tabs.captureVisibleTab(tab.windowId, { format: "jpeg", quality: 85 }, async (dataUrl) => {
-          if (chrome.runtime.lastError) {
-            sendResponse({
-              success: false,
-              error: chrome.runtime.lastError.message || "captureVisibleTab failed",
-            });
-            return;
-          }
-
-          if (!dataUrl) {
-            sendResponse({ success: false, error: "Empty screenshot" });
-            return;
-          }
+        let dataUrl: string;
+        try {
+          dataUrl = await captureVisibleTabRedacted(tab, { format: "jpeg", quality: 85 });
+        } catch (err: any) {
+          sendResponse({ success: false, error: String(err?.message || err || "captureVisibleTab failed") });
+          return;
+        }
 
+        try {
+          // Full image storage
+          const filename = `bug-sense-screenshot-${Date.now()}.jpg`;
+          const key = `bugSense_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+          FULL_IMAGE_CACHE.set(key, { dataUrl, filename, createdAt: Date.now() });
+          scheduleScreenshotCleanup(key);
+
+          // Generate small preview
+          const blob = await (await fetch(dataUrl)).blob();
+          let previewUrl = dataUrl;
           try {
-            // Full image storage
-            const filename = `bug-sense-screenshot-${Date.now()}.jpg`;
-            const key = `bugSense_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-            FULL_IMAGE_CACHE.set(key, { dataUrl, filename, createdAt: Date.now() });
-            scheduleScreenshotCleanup(key);
-
-            // Generate small preview
-            const blob = await (await fetch(dataUrl)).blob();
-            let previewUrl = dataUrl;
-            try {
-              const preview = await createPreviewDataUrl(blob, 600, 400, 0.7);
-              if (preview) previewUrl = preview;
-            } catch { }
+            const preview = await createPreviewDataUrl(blob, 600, 400, 0.7);
+            if (preview) previewUrl = preview;
+          } catch { }
 
-            sendResponse({
-              success: true,
-              preview: previewUrl,
-              fullKey: key,
-              filename,
-            });
-          } catch (err) {
-            sendResponse({ success: false, error: String(err) });
-          }
-        });
+          sendResponse({
+            success: true,
+            preview: previewUrl,
+            fullKey: key,
+            filename,
+          });
+        } catch (err) {
+          sendResponse({ success: false, error: String(err) });
+        }
       });
     } catch (e) {
       sendResponse({ success: false, error: String(e) });
@@ -357,6 +409,12 @@ chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
           }
         }
       );
+
+      // Keep a copy in the media store (lastAnnotatedImage holds the ref)
+      dataUrlToBlob(jpegDataUrl)
+        .then((blob) => putMedia({ kind: "annotated", blob }))
+        .then((ref: MediaRef) => chrome.storage.local.set({ lastAnnotatedImage: ref }))
+        .catch((err) => console.warn("[BugSense] Failed to store annotated image:", err));
     } catch (err) {
       console.error("[BugSense] SAVE_ANNOTATED_IMAGE_DATAURL failed:", err);
       sendResponse({ success: false, error: String(err) });
@@ -378,51 +436,48 @@ chrome.runtime.onMessage.addListener((msg: any, sender, sendResponse) => {
 
       if (msg.action === "START_RECORDING") {
         console.log("Background: START_RECORDING received");
-
-        if (mediaRecorder && mediaRecorder.state === "recording") {
-          sendResponse({ success: true, alreadyRecording: true });
+        // Popup messages carry no sender.tab — record the tab the popup was opened on
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.id) {
+          sendResponse({ success: false, error: "No active tab" });
           return;
         }
-
-        const stream = await tryTabCapture();
-        if (!stream) {
-          console.warn("tabCapture unavailable -> use separate recorder window");
-          sendResponse({ success: false, requireRecorderWindow: true });
+        const result = await startTabRecording(tab.id);
+        if (!result.success) {
+          // e.g. chrome:// pages can't be tab-captured → getDisplayMedia in the recorder window
+          console.warn("Offscreen tab capture unavailable -> use separate recorder window");
+          sendResponse({ success: false, requireRecorderWindow: true, error: result.error });
           return;
         }
+        sendResponse(result);
+        return;
+      }
 
-        activeStream = stream;
-        recordedChunks = [];
+      if (msg.action === "STOP_RECORDING") {
+        sendResponse(await stopTabRecording());
+        return;
+      }
 
-        try {
-          mediaRecorder = new MediaRecorder(stream, { mimeType: "video/webm" });
-        } catch (err) {
-          console.error("MediaRecorder init failed:", err);
-          sendResponse({ success: false });
-          return;
-        }
+      if (msg.action === "PAUSE_RECORDING") {
+        sendResponse(await pauseTabRecording());
+        return;
+      }
 
-        mediaRecorder.ondataavailable = (e) => {
-          if (e.data && e.data.size > 0) recordedChunks.push(e.data);
-        };
-        mediaRecorder.onstop = finalizeRecording;
-        mediaRecorder.start();
+      if (msg.action === "RESUME_RECORDING") {
+        sendResponse(await resumeTabRecording());
+        return;
+      }
 
-        setRecordingFlag(true);
-        console.log("Background: Recording started 🎥");
+      // Reports from the offscreen recorder
+      if (msg.action === "RECORDING_SAVED") {
+        await onRecordingSaved(msg.ref);
         sendResponse({ success: true });
         return;
       }
 
-      if (msg.action === "STOP_RECORDING") {
-        if (mediaRecorder && mediaRecorder.state === "recording") {
-          console.log("Background: STOP_RECORDING triggered");
-          mediaRecorder.stop();
-          sendResponse({ success: true });
-        } else {
-          setRecordingFlag(false);
-          sendResponse({ success: true, alreadyStopped: true });
-        }
+      if (msg.action === "RECORDING_FAILED") {
+        await onRecordingFailed(msg.error || "Unknown error");
+        sendResponse({ success: true });
         return;
       }
 
@@ -445,14 +500,28 @@ chrome.runtime.onMessage.addListener((msg: any, sender, sendResponse) => {
       // ===== CAPTURE FRAME (one-shot) =====
       if (msg.action === "CAPTURE_FRAME") {
         try {
-          // Query active tab
-          chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
+          // Capture the tab that asked (content script) or the one named by DevTools (msg.tabId).
+          // captureVisibleTab can only see the visible tab, so a background tab must not get
+          // a frame of whatever tab happens to be in front.
+          const requestedTabId: number | undefined = sender.tab?.id ?? msg.tabId;
+          const resolveTab = (cb: (tabs: chrome.tabs.Tab[]) => void) => {
+            if (typeof requestedTabId === "number") {
+              chrome.tabs.get(requestedTabId, (t) => cb(chrome.runtime.lastError || !t ? [] : [t]));
+            } else {
+              chrome.tabs.query({ active: true, currentWindow: true }, cb);
+            }
+          };
+          resolveTab(async (tabs) => {
             try {
               const tab = tabs?.[0];
               if (!tab) {
                 sendResponse({ success: false, error: "No active tab" });
                 return;
               }
+              if (!tab.active) {
+                sendResponse({ success: false, error: "Tab not visible" });
+                return;
+              }
 
               // captureVisibleTab takes the windowId of the tab
               const winId = tab.windowId;
@@ -463,18 +532,8 @@ chrome.runtime.onMessage.addListener((msg: any, sender, sendResponse) => {
 
               // capture as JPEG (quality to keep size reasonable)
               try {
-                chrome.tabs.captureVisibleTab(winId, { format: "jpeg", quality: 60 }, (dataUrl) => {
-                  if (chrome.runtime.lastError) {
-                    console.warn("captureVisibleTab runtime error:", chrome.runtime.lastError);
-                    sendResponse({ success: false, error: String(chrome.runtime.lastError.message || chrome.runtime.lastError) });
-                    return;
-                  }
-                  if (dataUrl) {
-                    sendResponse({ success: true, screenshot: dataUrl });
-                  } else {
-                    sendResponse({ success: false, error: "capture returned empty" });
-                  }
-                });
+                const dataUrl = await captureVisibleTabRedacted(tab, { format: "jpeg", quality: 60 });
+                sendResponse({ success: true, screenshot: dataUrl });
               } catch (capErr) {
                 console.error("captureVisibleTab call threw:", capErr);
                 sendResponse({ success: false, error: String(capErr) });
@@ -545,30 +604,8 @@ chrome.runtime.onMessage.addListener((msg: any, sender, sendResponse) => {
   return true;
 });
 
-// Ensure replayListener is injected into pages that are navigated
 chrome.runtime.onInstalled.addListener(() => {
-  console.log("[BugSense] Background installed. ready to inject content scripts when tabs update.");
-});
-
-chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
-  try {
-    if (changeInfo.status === "complete" && /^https?:/.test(tab.url || "")) {
-      const fileToInject = "extension/content/replayListener.js";
-      // small delay to ensure DOM is ready
-      await new Promise((r) => setTimeout(r, 200));
-      try {
-        await chrome.scripting.executeScript({
-          target: { tabId },
-          files: [fileToInject],
-        });
-        console.log(`[BugSense] replayListener injected into ${tab.url}`);
-      } catch (err) {
-        console.warn("[BugSense] replayListener inject failed (maybe already injected):", err);
-      }
-    }
-  } catch (outer) {
-    console.error("[BugSense] tabs.onUpdated handler error:", outer);
-  }
+  console.log("[BugSense] Background installed. Content scripts are injected by the manifest.");
 });
 
 // background/index.ts (in the service worker)
@@ -717,13 +754,124 @@ chrome.runtime.onConnect.addListener((port) => {
   }
 });
 
-// Forward console events to DevTools panel (optional future use)
+// Cross-session fingerprint index (utils/errorIndex.ts). Occurrences are flushed in batches so a
+// render loop throwing hundreds of errors costs one storage write per second.
+const ERROR_INDEX_FLUSH_MS = 1000;
+let pendingOccurrences: ErrorOccurrence[] = [];
+let errorIndexTimer: ReturnType<typeof setTimeout> | null = null;
+
+function queueErrorOccurrence(payload: any) {
+  if ((!payload?.message && !payload?.stack) || !isIndexedError(payload)) return;
+  pendingOccurrences.push({
+    message: payload.message,
+    stack: payload.stack,
+    filename: payload.filename,
+    type: payload.type,
+    url: payload.url,
+    ts: Number(payload.ts) || Date.now(),
+  });
+  if (errorIndexTimer) return;
+  errorIndexTimer = setTimeout(() => {
+    const batch = pendingOccurrences;
+    pendingOccurrences = [];
+    errorIndexTimer = null;
+    recordErrorOccurrences(batch).catch((err) => console.warn("[BugSense] Error index update failed:", err));
+  }, ERROR_INDEX_FLUSH_MS);
+}
+
+// Forward console events to DevTools panel and record them in the fingerprint index
 chrome.runtime.onMessage.addListener((msg, sender) => {
   if (msg.action === "BUGSENSE_CONSOLE") {
-    bugsenseDevPorts.forEach((p) => p.postMessage(msg));
+    bugsenseDevPorts.forEach((p) => p.postMessage({ ...msg, tabId: sender.tab?.id }));
+    queueErrorOccurrence(msg.payload);
+  }
+});
+
+// Content scripts resolve their own tab id / origin here (used to key capture buffers)
+chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
+  if (msg?.action === "GET_TAB_SCOPE") {
+    if (typeof sender.tab?.id !== "number") {
+      sendResponse({ success: false, error: "Not a tab" });
+      return;
+    }
+    sendResponse({ success: true, tabId: sender.tab.id, origin: originOf(sender.url || sender.tab.url) });
+  }
+});
+
+// Free the per-tab capture buffers (and their replay frames) when a tab goes away
+chrome.tabs.onRemoved.addListener((tabId) => {
+  try {
+    removeTabScopes(tabId);
+    deleteTabMedia(tabId, "screenshot").catch((err) => console.warn("[BugSense] Failed to drop tab media:", err));
+  } catch (err) {
+    console.warn("[BugSense] Failed to clean tab buffers:", err);
+  }
+});
+
+// ==========================================================
+// CAPTURE_REPLAY_FRAME — Instant Replay frames go to IndexedDB;
+// recentScreenshots::<tab>::<origin> only keeps { mediaId, timestamp } refs
+// ==========================================================
+let replayFrameWrites: Promise<void> = Promise.resolve();
+
+function appendReplayFrame(key: string, frame: ReplayFrameRef) {
+  replayFrameWrites = replayFrameWrites.then(async () => {
+    const res = await chrome.storage.local.get(key);
+    const existing: ReplayFrameRef[] = Array.isArray(res?.[key]) ? res[key] : [];
+    const all = [...existing, frame];
+    const dropped = all.slice(0, Math.max(0, all.length - MAX_REPLAY_FRAMES));
+    await chrome.storage.local.set({ [key]: all.slice(-MAX_REPLAY_FRAMES) });
+    const stale = dropped.map((f) => f.mediaId).filter(Boolean);
+    if (stale.length) await deleteMedia(stale);
+  }).catch((err) => console.warn("[BugSense] appendReplayFrame failed:", err));
+  return replayFrameWrites;
+}
+
+chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
+  if (msg?.action !== "CAPTURE_REPLAY_FRAME") return;
+
+  const tab = sender.tab;
+  if (typeof tab?.id !== "number" || !tab.active || typeof tab.windowId !== "number") {
+    sendResponse({ success: false, error: "Tab not visible" });
+    return;
   }
+
+  (async () => {
+    try {
+      const dataUrl = await captureVisibleTabRedacted(tab, { format: "jpeg", quality: 60 });
+      const origin = originOf(sender.url || tab.url);
+      const ref = await putMedia({ kind: "screenshot", blob: await dataUrlToBlob(dataUrl), tabId: tab.id, origin });
+      await appendReplayFrame(scopedKey("recentScreenshots", { tabId: tab.id!, origin }), {
+        mediaId: ref.mediaId,
+        timestamp: ref.createdAt,
+        ...(typeof msg.viewportWidth === "number" ? { viewportWidth: msg.viewportWidth } : {}),
+      });
+      sendResponse({ success: true, mediaId: ref.mediaId });
+    } catch (err) {
+      sendResponse({ success: false, error: String(err) });
+    }
+  })();
+
+  return true; // async
 });
 
+// Environment metadata of the tab's page (main world, so page globals such as __APP_VERSION__ are visible)
+async function captureEnvironment(tabId?: number) {
+  if (typeof tabId !== "number") return null;
+  try {
+    const [res] = await chrome.scripting.executeScript({
+      target: { tabId },
+      world: "MAIN",
+      func: collectPageEnvironment,
+      args: [await getEnvironmentSettings()],
+    });
+    return res?.result ? await completeEnvironment(res.result) : null;
+  } catch (err) {
+    console.warn("[BugSense] Environment capture failed:", err);
+    return null;
+  }
+}
+
 //-------------------------------
 // bugsense_create_bug (single-shot)
 chrome.runtime.onMessage.addListener(async (msg, sender, sendResponse) => {
@@ -732,25 +880,21 @@ chrome.runtime.onMessage.addListener(async (msg, sender, sendResponse) => {
       const { message, file, line, column, time } = msg.payload;
 
       // Take screenshot
-      const screenshot = await chrome.tabs.captureVisibleTab();
+      const tab = sender.tab ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+      const screenshot = await captureVisibleTabRedacted(tab, { format: "jpeg", quality: 85 });
+      const environmentInfo = await captureEnvironment(tab?.id);
 
-      // Construct bug object
-      const bug = {
+      const bug = await addBug({
         title: `Bug from ${file ? file.split("/").pop() : "unknown source"}`,
         description: message,
-        file,
-        line,
-        column,
-        time,
-        screenshot,
-        steps: "AI will generate reproduction steps from replay and context.",
-        createdAt: new Date().toLocaleString(),
-      };
-
-      await chrome.storage.local.set({ bugsense_clipboard: bug });
-
-      console.log("✅ [BugSense] Bug saved to clipboard:", bug);
-      sendResponse({ success: true });
+        steps: ["AI will generate reproduction steps from replay and context."],
+        screenshotDataUrl: screenshot,
+        source: { type: "console", raw: { message, filename: file, lineno: line, colno: column, ts: time } },
+        environmentInfo,
+      });
+
+      console.log("✅ [BugSense] Bug saved to the bug library:", bug.id);
+      sendResponse({ success: true, id: bug.id });
     } catch (err) {
       console.error("bugsense_create_bug failed:", err);
       sendResponse({ success: false, error: String(err) });
@@ -760,18 +904,27 @@ chrome.runtime.onMessage.addListener(async (msg, sender, sendResponse) => {
 });
 
 // GET_REPLAY_LOGS handler (keeps channel open and responds)
+// Asks the replayListener of the requested tab for its live buffer; falls back to the
+// persisted per-tab copy when the content script is gone (e.g. tab navigated away).
 chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
   if (msg.action === "GET_REPLAY_LOGS") {
+    const tabId: number | undefined = msg.tabId ?? sender.tab?.id;
+    if (typeof tabId !== "number") {
+      sendResponse({ success: false, actions: [] });
+      return;
+    }
     try {
-      chrome.storage.local.get(["replayActionsLog"], (res) => {
-        if (chrome.runtime.lastError) {
-          console.warn("Error getting replay logs:", chrome.runtime.lastError);
-          sendResponse({ success: false, actions: [] });
-        } else {
-          const actions = res?.replayActionsLog || [];
-          console.log("[BugSense Background] Sent replay actions:", actions);
-          sendResponse({ success: true, actions: actions });
-        }
+      chrome.tabs.get(tabId, (tab) => {
+        const origin = chrome.runtime.lastError ? "" : originOf(tab?.url);
+        chrome.tabs.sendMessage(tabId, { action: "GET_REPLAY_LOGS" }, async (resp) => {
+          if (!chrome.runtime.lastError && resp?.success) {
+            sendResponse({ success: true, actions: resp.actions || [] });
+            return;
+          }
+          const actions = await readScoped("recentActions", { tabId, origin });
+          console.log("[BugSense Background] Sent replay actions (stored):", actions.length);
+          sendResponse({ success: true, actions });
+        });
       });
     } catch (e) {
       sendResponse({ success: false, error: String(e) });
@@ -780,6 +933,18 @@ chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
   }
 });
 
+// RUN_REPLAY_STEPS — "Replay steps" in DevTools (see stepReplay.ts)
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg?.action !== "RUN_REPLAY_STEPS" || typeof msg.tabId !== "number") return;
+  runReplaySteps(msg.tabId, msg.actions, msg.expectedFingerprint ?? null)
+    .then((result) => sendResponse({ success: true, result }))
+    .catch((err) => {
+      console.warn("[BugSense] Step replay failed:", err);
+      sendResponse({ success: false, error: String(err?.message || err) });
+    });
+  return true;
+});
+
 // OPEN_REPLAY_EXPORT_PAGE
 chrome.runtime.onMessage.addListener((msg) => {
   if (msg.action === "OPEN_REPLAY_EXPORT_PAGE") {
@@ -788,6 +953,86 @@ chrome.runtime.onMessage.addListener((msg) => {
   }
 });
 
+// CAPTURE_DOM_RECORDING — copies the tab's DOM recording (content/domRecorder.ts) into the
+// media store and answers with its MediaRef; the player page opens it by id. `window` (a DevTools
+// evidence window) clips the recording to it.
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg?.action !== "CAPTURE_DOM_RECORDING" || typeof msg.tabId !== "number") return;
+  const tabId: number = msg.tabId;
+  chrome.tabs.sendMessage(tabId, { action: "GET_DOM_RECORDING", window: msg.window || null }, { frameId: 0 }, async (resp) => {
+    if (chrome.runtime.lastError || !resp?.success || !resp.recording) {
+      sendResponse({ success: false, error: chrome.runtime.lastError?.message || resp?.error || "No DOM recording in this tab" });
+      return;
+    }
+    try {
+      const recording = resp.recording;
+      const blob = new Blob([JSON.stringify(recording)], { type: "application/json" });
+      const ref = await putMedia({
+        kind: "dom",
+        blob,
+        tabId,
+        origin: originOf(recording.url),
+        meta: { url: recording.url, title: recording.title, duration: recording.endedAt - recording.startedAt },
+      });
+      sendResponse({ success: true, ref });
+    } catch (err) {
+      console.warn("[BugSense] Storing DOM recording failed:", err);
+      sendResponse({ success: false, error: String(err) });
+    }
+  });
+  return true;
+});
+
+// GET_SDK_SNAPSHOT — context, user and attached state the app pushed through window.BugSense
+// (content/sdkBridge.ts); snapshot is null when the origin has not opted in.
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg?.action !== "GET_SDK_SNAPSHOT" || typeof msg.tabId !== "number") return;
+  chrome.tabs.sendMessage(msg.tabId, { action: "GET_SDK_SNAPSHOT" }, { frameId: 0 }, (resp) => {
+    if (chrome.runtime.lastError || !resp?.success) {
+      sendResponse({ success: false, error: chrome.runtime.lastError?.message || resp?.error || "No page API bridge in this tab" });
+      return;
+    }
+    sendResponse(resp);
+  });
+  return true;
+});
+
+// BUG_LIBRARY_WRITE — every bug library change runs here, so the popup, DevTools and background
+// don't overwrite each other's read-modify-write (utils/bugLibrary.ts). Extension pages only.
+chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
+  if (msg?.action !== BUG_LIBRARY_WRITE) return;
+  if (!sender.url?.startsWith(chrome.runtime.getURL(""))) {
+    sendResponse({ success: false, error: "Not allowed" });
+    return;
+  }
+  applyLibraryWrite(msg.op, Array.isArray(msg.args) ? msg.args : [])
+    .then((result) => sendResponse({ success: true, result }))
+    .catch((err) => sendResponse({ success: false, error: String(err?.message || err) }));
+  return true;
+});
+
+// ERROR_INDEX_WRITE — DevTools links bugs to error fingerprints through here, so its writes and
+// the occurrences recorded above share one queue (utils/errorIndex.ts). Extension pages only.
+chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
+  if (msg?.action !== ERROR_INDEX_WRITE) return;
+  if (!sender.url?.startsWith(chrome.runtime.getURL(""))) {
+    sendResponse({ success: false, error: "Not allowed" });
+    return;
+  }
+  applyIndexWrite(msg.op, Array.isArray(msg.args) ? msg.args : [])
+    .then(() => sendResponse({ success: true }))
+    .catch((err) => sendResponse({ success: false, error: String(err?.message || err) }));
+  return true;
+});
+
+// OPEN_DOM_PLAYER
+chrome.runtime.onMessage.addListener((msg) => {
+  if (msg?.action === "OPEN_DOM_PLAYER" && msg.mediaId) {
+    const url = chrome.runtime.getURL(`extension/player/player.html?media=${encodeURIComponent(msg.mediaId)}`);
+    chrome.tabs.create({ url, active: true });
+  }
+});
+
 // ======================================================
 // ✅ SINGLE handler for selective area capture
 // ======================================================
@@ -803,7 +1048,7 @@ chrome.runtime.onMessage.addListener(async (msg, sender, sendResponse) => {
   captureInProgress = true;
 
   try {
-    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const tab = sender.tab ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
     if (!tab?.windowId) throw new Error("No active tab");
 
     // Make sure overlay disappears visually
@@ -825,13 +1070,7 @@ chrome.runtime.onMessage.addListener(async (msg, sender, sendResponse) => {
     await new Promise((r) => setTimeout(r, 150));
 
     // Do the capture (no sendResponse, pure async)
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-      chrome.tabs.captureVisibleTab(tab.windowId, { format: "png" }, (url) => {
-        if (chrome.runtime.lastError || !url)
-          reject(chrome.runtime.lastError?.message || "captureVisibleTab failed");
-        else resolve(url);
-      });
-    });
+    const dataUrl = await captureVisibleTabRedacted(tab, { format: "png" });
 
     const blob = await (await fetch(dataUrl)).blob();
     const bitmap = await createImageBitmap(blob);
@@ -859,6 +1098,7 @@ chrome.runtime.onMessage.addListener(async (msg, sender, sendResponse) => {
       chrome.runtime.sendMessage({
         action: "TRIGGER_BUG_CREATION_FROM_CONTEXT",
         mode: "selective",
+        tabId: tab.id,
         screenshot: reader.result,
       });
       captureInProgress = false;
@@ -0,0 +1,46 @@
+// extension/background/pageSdkScript.ts
+// window.BugSense (content/pageSdk.ts) only exists on origins that opted in: the MAIN-world
+// script is registered through chrome.scripting for exactly those origins and re-registered
+// whenever "pageSdkSettings" changes. Tabs already open get it on their next load.
+import { PAGE_SDK_SETTINGS_KEY, getPageSdkSettings } from "../utils/pageSdk";
+
+const SCRIPT_ID = "bugsense-page-sdk";
+const SCRIPT_FILE = "extension/content/pageSdk.js";
+
+/** Match patterns can't carry a port; the bridge still checks the exact origin */
+function matchPattern(origin: string): string | null {
+  try {
+    const u = new URL(origin);
+    return /^https?:$/.test(u.protocol) ? `${u.protocol}//${u.hostname}/*` : null;
+  } catch {
+    return null;
+  }
+}
+
+async function registerPageSdk() {
+  const { enabledOrigins } = await getPageSdkSettings();
+  const matches = [...new Set(enabledOrigins.map(matchPattern).filter((m): m is string => Boolean(m)))];
+  const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [SCRIPT_ID] });
+  if (registered.length) await chrome.scripting.unregisterContentScripts({ ids: [SCRIPT_ID] });
+  if (!matches.length) return;
+  await chrome.scripting.registerContentScripts([
+    { id: SCRIPT_ID, js: [SCRIPT_FILE], matches, runAt: "document_start", world: "MAIN", persistAcrossSessions: true },
+  ]);
+}
+
+// unregister + register must not interleave when the setting changes twice in a row
+let syncChain: Promise<void> = Promise.resolve();
+
+export function syncPageSdkScript(): Promise<void> {
+  syncChain = syncChain
+    .then(registerPageSdk)
+    .catch((err) => console.warn("[BugSense] Page API registration failed:", err));
+  return syncChain;
+}
+
+export function watchPageSdkSettings() {
+  syncPageSdkScript();
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && changes[PAGE_SDK_SETTINGS_KEY]) syncPageSdkScript();
+  });
+}
@@ -0,0 +1,176 @@
+// extension/background/recordingController.ts
+// Tab recording on top of chrome.offscreen + tabCapture.getMediaStreamId.
+// The service worker can be suspended at any time, so nothing here lives in module state:
+// the source of truth is "recordingState" in chrome.storage.local and the offscreen document
+// (which keeps the MediaRecorder alive independently of the worker).
+import { MediaRef } from "../utils/mediaStore";
+import { IDLE_RECORDING_STATE, RECORDED_VIDEO_KEY, RECORDING_STATE_KEY, RecordingState } from "../utils/recording";
+
+const OFFSCREEN_PATH = "extension/offscreen/offscreen.html";
+
+export async function getRecordingState(): Promise<RecordingState> {
+  const res = await chrome.storage.local.get([RECORDING_STATE_KEY]);
+  return { ...IDLE_RECORDING_STATE, ...(res?.[RECORDING_STATE_KEY] || {}) };
+}
+
+// Serialize read-modify-write of the state (popup clicks and recorder reports can interleave)
+let stateChain: Promise<unknown> = Promise.resolve();
+
+function updateState(fn: (prev: RecordingState) => RecordingState): Promise<RecordingState> {
+  const next = stateChain.then(async () => {
+    const state = fn(await getRecordingState());
+    // isRecording is still what the recorder window and older UI watch
+    await chrome.storage.local.set({ [RECORDING_STATE_KEY]: state, isRecording: state.status !== "idle" });
+    return state;
+  });
+  stateChain = next.catch(() => undefined);
+  return next;
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Offscreen document
+// ─────────────────────────────────────────────────────────────
+async function hasOffscreenDocument() {
+  const url = chrome.runtime.getURL(OFFSCREEN_PATH);
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [url],
+  });
+  return contexts.length > 0;
+}
+
+let creatingOffscreen: Promise<void> | null = null;
+
+async function ensureOffscreenDocument() {
+  if (await hasOffscreenDocument()) return;
+  if (!creatingOffscreen) {
+    creatingOffscreen = chrome.offscreen
+      .createDocument({
+        url: OFFSCREEN_PATH,
+        reasons: [chrome.offscreen.Reason.USER_MEDIA],
+        justification: "Record the current tab for bug reports",
+      })
+      .finally(() => {
+        creatingOffscreen = null;
+      });
+  }
+  await creatingOffscreen;
+}
+
+async function closeOffscreenDocument() {
+  try {
+    if (await hasOffscreenDocument()) await chrome.offscreen.closeDocument();
+  } catch (err) {
+    console.warn("[BugSense] closeOffscreenDocument:", err);
+  }
+}
+
+function sendToOffscreen(action: string, extra: Record<string, any> = {}): Promise<any> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ target: "offscreen", action, ...extra }, (resp) => {
+      if (chrome.runtime.lastError) {
+        resolve({ success: false, error: chrome.runtime.lastError.message });
+        return;
+      }
+      resolve(resp);
+    });
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Commands (popup → background)
+// ─────────────────────────────────────────────────────────────
+export async function startTabRecording(tabId: number): Promise<{ success: boolean; error?: string }> {
+  const current = await getRecordingState();
+  if (current.status !== "idle") return { success: false, error: `Recording already ${current.status}` };
+
+  await updateState(() => ({ ...IDLE_RECORDING_STATE, status: "starting", tabId }));
+  try {
+    const streamId = await chrome.tabCapture.getMediaStreamId({ targetTabId: tabId });
+    await ensureOffscreenDocument();
+    const resp = await sendToOffscreen("OFFSCREEN_START_RECORDING", { streamId, tabId });
+    if (!resp?.success) throw new Error(resp?.error || "Offscreen recorder did not start");
+
+    await updateState((s) => ({ ...s, status: "recording", startedAt: Date.now(), pausedAt: null, pausedMs: 0 }));
+    console.log("[BugSense] Recording started 🎥 (tab", tabId + ")");
+    return { success: true };
+  } catch (err: any) {
+    const error = String(err?.message || err);
+    console.warn("[BugSense] Offscreen recording unavailable:", error);
+    await updateState(() => ({ ...IDLE_RECORDING_STATE, error }));
+    await closeOffscreenDocument();
+    return { success: false, error };
+  }
+}
+
+export async function pauseTabRecording() {
+  const state = await getRecordingState();
+  if (state.status !== "recording") return { success: false, error: "Not recording" };
+  const resp = await sendToOffscreen("OFFSCREEN_PAUSE_RECORDING");
+  if (!resp?.success) return { success: false, error: resp?.error };
+  await updateState((s) => ({ ...s, status: "paused", pausedAt: Date.now() }));
+  return { success: true };
+}
+
+export async function resumeTabRecording() {
+  const state = await getRecordingState();
+  if (state.status !== "paused") return { success: false, error: "Not paused" };
+  const resp = await sendToOffscreen("OFFSCREEN_RESUME_RECORDING");
+  if (!resp?.success) return { success: false, error: resp?.error };
+  await updateState((s) => ({
+    ...s,
+    status: "recording",
+    pausedMs: s.pausedMs + (s.pausedAt ? Date.now() - s.pausedAt : 0),
+    pausedAt: null,
+  }));
+  return { success: true };
+}
+
+export async function stopTabRecording() {
+  const state = await getRecordingState();
+  if (state.status === "idle") return { success: true, alreadyStopped: true };
+
+  if (!(await hasOffscreenDocument())) {
+    // Nothing is actually recording (e.g. browser restarted mid-recording)
+    await updateState(() => ({ ...IDLE_RECORDING_STATE }));
+    return { success: true, alreadyStopped: true };
+  }
+  await updateState((s) => ({ ...s, status: "stopping" }));
+  const resp = await sendToOffscreen("OFFSCREEN_STOP_RECORDING");
+  // RECORDING_SAVED / RECORDING_FAILED from the offscreen document completes the stop
+  return { success: Boolean(resp?.success), error: resp?.error };
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Reports (offscreen → background)
+// ─────────────────────────────────────────────────────────────
+export async function onRecordingSaved(ref: MediaRef) {
+  await chrome.storage.local.set({ [RECORDED_VIDEO_KEY]: ref });
+  await updateState(() => ({ ...IDLE_RECORDING_STATE }));
+  await closeOffscreenDocument();
+  console.log("[BugSense] Recording saved:", ref.mediaId);
+}
+
+export async function onRecordingFailed(error: string) {
+  console.error("[BugSense] Recording failed:", error);
+  await updateState(() => ({ ...IDLE_RECORDING_STATE, error }));
+  await closeOffscreenDocument();
+}
+
+/**
+ * Called when the service worker starts: a stored "recording" state without a live offscreen
+ * recorder (browser restart, extension reload) would otherwise leave the popup stuck.
+ */
+export async function reconcileRecordingState() {
+  const state = await getRecordingState();
+  if (state.status === "idle") return;
+
+  if (await hasOffscreenDocument()) {
+    const alive = await sendToOffscreen("OFFSCREEN_PING");
+    // "stopping" with an inactive recorder: the save report is on its way
+    if (alive?.success && (alive.state !== "inactive" || state.status === "stopping")) return;
+  }
+  console.warn("[BugSense] Recording state was stale — resetting");
+  await updateState(() => ({ ...IDLE_RECORDING_STATE, error: "Recording was interrupted" }));
+  await closeOffscreenDocument();
+}
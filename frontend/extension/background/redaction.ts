@@ -0,0 +1,142 @@
+// extension/background/redaction.ts
+// Redaction engine: every screenshot path goes through captureVisibleTabRedacted(), which asks
+// the page for the boxes of sensitive elements right before capturing and paints over them
+// (blur or solid black) on an OffscreenCanvas. Nothing unredacted leaves this module when
+// redaction is enabled for the site: if the page cannot be scanned the capture fails, except on
+// pages no extension may script (chrome://, the Web Store…), which hold no user fields to hide.
+//
+// Limitation: only the top frame is inspected — fields inside cross-origin iframes (hosted
+// payment forms) have to be covered by a selector on the <iframe> itself.
+import { originOf } from "../utils/tabScope";
+import {
+  RedactionMode,
+  getRedactionSettings,
+  isRedactionEnabled,
+  redactionSelectors,
+} from "../utils/redactionSettings";
+import { blobToDataUrl, dataUrlToBlob } from "../utils/mediaStore";
+
+type Box = { x: number; y: number; width: number; height: number }; // viewport CSS px
+type SensitiveBoxes = { boxes: Box[]; viewportWidth: number };
+
+const PADDING = 4; // CSS px around each box — covers focus rings and a bit of scroll drift
+const BLUR_FACTOR = 12; // downscale factor used for the blur
+
+// Serialized into the tab by executeScript — must stay self-contained
+function collectSensitiveBoxes(selectors: string[]): SensitiveBoxes {
+  const boxes: { x: number; y: number; width: number; height: number }[] = [];
+  const seen = new Set<Element>();
+  for (const sel of selectors) {
+    let list: NodeListOf<Element>;
+    try {
+      list = document.querySelectorAll(sel);
+    } catch {
+      continue; // invalid user selector
+    }
+    list.forEach((el) => {
+      if (seen.has(el)) return;
+      seen.add(el);
+      const style = getComputedStyle(el);
+      if (style.visibility === "hidden" || style.display === "none") return;
+      const r = el.getBoundingClientRect();
+      if (r.width === 0 || r.height === 0) return;
+      if (r.bottom < 0 || r.right < 0 || r.top > window.innerHeight || r.left > window.innerWidth) return;
+      boxes.push({ x: r.left, y: r.top, width: r.width, height: r.height });
+    });
+  }
+  return { boxes, viewportWidth: window.innerWidth };
+}
+
+const NON_INJECTABLE_SCHEMES = /^(chrome(-[a-z]+)?|devtools|edge|about|view-source):/i;
+const WEB_STORE = /^https:\/\/(chromewebstore\.google\.com|chrome\.google\.com\/webstore)(\/|$)/i;
+
+function isNonInjectable(url?: string) {
+  return Boolean(url) && (NON_INJECTABLE_SCHEMES.test(url!) || WEB_STORE.test(url!));
+}
+
+/** null only for pages that cannot be scripted at all; any other failure throws (fail closed) */
+async function findSensitiveBoxes(tab: chrome.tabs.Tab, selectors: string[]): Promise<SensitiveBoxes | null> {
+  if (isNonInjectable(tab.url)) return null;
+  let found: SensitiveBoxes | null = null;
+  try {
+    const [res] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id! },
+      func: collectSensitiveBoxes,
+      args: [selectors],
+    });
+    found = (res?.result as SensitiveBoxes) || null;
+  } catch (err) {
+    console.warn("[BugSense] Redaction scan failed:", err);
+  }
+  if (!found) throw new Error("Could not scan the page for sensitive fields — capture blocked while redaction is on");
+  return found;
+}
+
+/** Paints over the boxes (viewport CSS px; the capture is scaled by DPR/zoom against viewportWidth) */
+async function redactBitmap(
+  blob: Blob,
+  found: SensitiveBoxes,
+  mode: RedactionMode,
+  type: string,
+  quality?: number
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = bitmap.width / (found.viewportWidth || bitmap.width);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("No OffscreenCanvas context");
+  ctx.drawImage(bitmap, 0, 0);
+
+  for (const b of found.boxes) {
+    const x = Math.max(0, Math.floor((b.x - PADDING) * scale));
+    const y = Math.max(0, Math.floor((b.y - PADDING) * scale));
+    const w = Math.min(bitmap.width - x, Math.ceil((b.width + PADDING * 2) * scale));
+    const h = Math.min(bitmap.height - y, Math.ceil((b.height + PADDING * 2) * scale));
+    if (w <= 0 || h <= 0) continue;
+
+    if (mode === "black") {
+      ctx.fillStyle = "#000";
+      ctx.fillRect(x, y, w, h);
+      continue;
+    }
+    // Blur = shrink hard, then stretch back with smoothing. Unlike ctx.filter this works in
+    // every worker and can't be undone by sharpening.
+    const sw = Math.max(1, Math.round(w / BLUR_FACTOR));
+    const sh = Math.max(1, Math.round(h / BLUR_FACTOR));
+    const small = new OffscreenCanvas(sw, sh);
+    const sctx = small.getContext("2d");
+    if (!sctx) continue;
+    sctx.drawImage(bitmap, x, y, w, h, 0, 0, sw, sh);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "low";
+    ctx.drawImage(small, 0, 0, sw, sh, x, y, w, h);
+  }
+  bitmap.close();
+
+  return await canvas.convertToBlob({ type, quality });
+}
+
+/**
+ * captureVisibleTab with sensitive fields masked. Same options as captureVisibleTab;
+ * resolves to a data URL in the requested format.
+ */
+export async function captureVisibleTabRedacted(
+  tab: chrome.tabs.Tab,
+  options: chrome.extensionTypes.ImageDetails = { format: "jpeg", quality: 85 }
+): Promise<string> {
+  if (typeof tab.windowId !== "number") throw new Error("Invalid window id");
+
+  const settings = await getRedactionSettings();
+  const enabled = typeof tab.id === "number" && isRedactionEnabled(settings, originOf(tab.url));
+  const found = enabled ? await findSensitiveBoxes(tab, redactionSelectors(settings)) : null;
+
+  const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, options);
+  if (!dataUrl) throw new Error("captureVisibleTab failed");
+  if (!found || found.boxes.length === 0) return dataUrl;
+
+  const blob = await dataUrlToBlob(dataUrl);
+  const type = options.format === "png" ? "image/png" : "image/jpeg";
+  const quality = type === "image/jpeg" ? (options.quality ?? 92) / 100 : undefined;
+  const redacted = await redactBitmap(blob, found, settings.mode, type, quality);
+  return await blobToDataUrl(redacted);
+}
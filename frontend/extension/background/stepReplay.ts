@@ -0,0 +1,87 @@
+// extension/background/stepReplay.ts
+// Drives "Replay steps" from the DevTools panel: reloads the tab at the URL the recording
+// started on, then hands the actions to content/stepRunner.ts and waits for its verdict.
+// A full page load during the run (link, server-side form post) ends the content script,
+// which is reported as "interrupted".
+import { normalizeActions } from "../utils/replayBuffer";
+import { resolveStartUrl } from "../utils/testExport";
+import { ReplayRunResult } from "../utils/replayRun";
+
+const LOAD_TIMEOUT_MS = 20000;
+const RUNNER_RETRIES = 20; // the runner is a document_idle content script: give it time to attach
+const RUNNER_RETRY_MS = 250;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function waitForTabComplete(tabId: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, LOAD_TIMEOUT_MS);
+    function done() {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+      resolve();
+    }
+    function onUpdated(id: number, info: { status?: string }) {
+      if (id === tabId && info.status === "complete") done();
+    }
+    chrome.tabs.onUpdated.addListener(onUpdated);
+  });
+}
+
+type RunnerResponse = { success: boolean; result?: ReplayRunResult; error?: string };
+
+function sendToRunner(tabId: number, message: any): Promise<{ resp?: RunnerResponse; lastError?: string }> {
+  return new Promise((resolve) => {
+    chrome.tabs.sendMessage(tabId, message, { frameId: 0 }, (resp: RunnerResponse) => {
+      const lastError = chrome.runtime.lastError?.message;
+      resolve(lastError ? { lastError } : { resp });
+    });
+  });
+}
+
+function interrupted(total: number, reason: string, startedAt: number, expectedFingerprint: string | null): ReplayRunResult {
+  return {
+    status: "interrupted",
+    startedAt,
+    finishedAt: Date.now(),
+    totalSteps: total,
+    stepsRun: 0,
+    expectedFingerprint,
+    observedErrors: [],
+    skipped: [],
+    warnings: [reason],
+  };
+}
+
+export async function runReplaySteps(
+  tabId: number,
+  rawActions: unknown,
+  expectedFingerprint: string | null
+): Promise<ReplayRunResult> {
+  const actions = normalizeActions(rawActions);
+  const startedAt = Date.now();
+  if (!actions.length) throw new Error("No recorded actions to replay");
+
+  const tab = await chrome.tabs.get(tabId);
+  const startUrl = resolveStartUrl(actions, tab.url || "");
+  if (!/^https?:/.test(startUrl)) throw new Error("Replay only works on http(s) pages");
+
+  // Start from a fresh load: the app state at recording time is unknown, a reload is the closest
+  await chrome.tabs.update(tabId, { url: startUrl });
+  await waitForTabComplete(tabId);
+
+  const message = { action: "RUN_REPLAY_STEPS", actions, expectedFingerprint };
+  for (let attempt = 0; attempt < RUNNER_RETRIES; attempt++) {
+    const { resp, lastError } = await sendToRunner(tabId, message);
+    if (resp) {
+      if (!resp.success || !resp.result) throw new Error(resp.error || "Step runner failed");
+      return resp.result;
+    }
+    if (lastError && !/Receiving end does not exist/i.test(lastError)) {
+      console.warn("[BugSense] Step replay interrupted:", lastError);
+      return interrupted(actions.length, "the page navigated away or reloaded during the replay", startedAt, expectedFingerprint);
+    }
+    await sleep(RUNNER_RETRY_MS);
+  }
+  return interrupted(actions.length, "the step runner did not start in the tab", startedAt, expectedFingerprint);
+}
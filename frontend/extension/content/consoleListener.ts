@@ -1,48 +1,66 @@
-// extension/content/consoleListener.ts  (append or ensure similar exists)
+// extension/content/consoleListener.ts
+// Isolated-world half of console capture. The actual hooks live in pageConsoleHook.ts (MAIN world);
+// this script receives their payloads, persists them to chrome.storage and relays them live
+// to the DevTools panel through the background (BUGSENSE_CONSOLE). Runs at document_start, like
+// the hook, so errors thrown while the page loads are not lost.
+// Repeats of a stored message (same fingerprint, utils/errorFingerprint.ts) are folded into it
+// with a count, so a render loop cannot push everything else out of the buffer.
+// Errors reported with BugSense.captureError (pageSdk.ts) arrive here too, flagged "sdk", and are
+// only kept when the origin opted in to the page API.
+import { resolveContentScope, scopedKey } from "../utils/tabScope";
+import { getPageSdkSettings, isPageSdkEnabled } from "../utils/pageSdk";
+import { foldRepeat } from "../utils/errorFingerprint";
+
 (function () {
-    const KEY = "recentConsoleErrors";
+    const BASE_KEY = "recentConsoleErrors";
+    const MAX_ENTRIES = 100;
+
+    // Serialize writes: several errors in the same tick would otherwise race on get/set
+    let writeChain: Promise<void> = Promise.resolve();
+
     function pushError(payload: any) {
+        writeChain = writeChain.then(async () => {
+            const scope = await resolveContentScope();
+            if (!scope) return;
+            const KEY = scopedKey(BASE_KEY, scope);
+            await new Promise<void>((resolve) => {
+                try {
+                    if (!chrome?.storage?.local) return resolve();
+                    chrome.storage.local.get([KEY], (res) => {
+                        const arr = Array.isArray(res?.[KEY]) ? res[KEY] : [];
+                        const { folded, rest } = foldRepeat(arr, payload);
+                        // newest last, limit length
+                        const keep = [...rest, folded].slice(-MAX_ENTRIES);
+                        chrome.storage.local.set({ [KEY]: keep }, () => resolve());
+                    });
+                } catch (err) {
+                    // context invalidated — ignore
+                    resolve();
+                }
+            });
+        });
+    }
+
+    function relayToDevtools(payload: any) {
         try {
-            chrome.storage.local.get([KEY], (res) => {
-                const arr = Array.isArray(res?.[KEY]) ? res[KEY] : [];
-                arr.push({ ...payload, ts: Date.now() });
-                // limit length
-                const keep = arr.slice(-100);
-                chrome.storage.local.set({ [KEY]: keep }, () => { });
+            if (!chrome.runtime?.id) return;
+            chrome.runtime.sendMessage({ action: "BUGSENSE_CONSOLE", payload }, () => {
+                // no receiver is fine (DevTools closed)
+                void chrome.runtime.lastError;
             });
-        } catch (err) {
+        } catch {
             // ignore
         }
     }
 
-    // capture runtime errors
-    window.addEventListener("error", (ev: ErrorEvent) => {
-        pushError({
-            type: "runtime",
-            message: ev.message,
-            filename: ev.filename,
-            lineno: ev.lineno,
-            colno: ev.colno,
-            stack: ev.error?.stack || null
-        });
-    });
+    window.addEventListener("message", async (ev: MessageEvent) => {
+        if (ev.source !== window) return;
+        const data = ev.data;
+        if (!data || data.source !== "bugsense-page" || data.channel !== "console") return;
+        if (data.payload?.sdk && !isPageSdkEnabled(await getPageSdkSettings(), location.origin)) return;
 
-    // capture unhandled rejections
-    window.addEventListener("unhandledrejection", (ev) => {
-        pushError({
-            type: "promise",
-            message: ev.reason?.message || String(ev.reason),
-            detail: ev.reason,
-            stack: ev.reason?.stack || null
-        });
+        const payload = { ...data.payload, ts: Number(data.payload?.ts) || Date.now() };
+        pushError(payload);
+        relayToDevtools(payload);
     });
-
-    // wrap console.error (best-effort, inside page)
-    const origConsoleError = console.error?.bind(console) || ((...args: any[]) => { });
-    console.error = function (...args: any[]) {
-        try {
-            pushError({ type: "console", message: args.map(x => (typeof x === "string" ? x : JSON.stringify(x))).join(" "), raw: args, ts: Date.now() });
-        } catch { }
-        origConsoleError(...args);
-    };
 })();
@@ -0,0 +1,541 @@
+// extension/content/domRecorder.ts
+// DOM recording for the replay player: a full serialized snapshot of the page, then mutations,
+// scrolls, input values, viewport changes and the pointer, kept for the last
+// DOM_RECORDING_WINDOW_MS (format in utils/domSnapshot.ts). A new snapshot is taken every
+// DOM_CHECKPOINT_MS so older events can be dropped. Stylesheets are inlined from the CSSOM
+// (cross-origin sheets stay links), URLs are made absolute, scripts and on* handlers are never
+// serialized. Field values are masked unless the masking policy records typed text, and text
+// inside sensitive elements ([data-bugsense-mask], extra selectors) is masked too.
+// The background fetches the buffer with GET_DOM_RECORDING when a bug is captured.
+// Only runs on origins enabled in "domRecorderSettings" (popup toggle); canvases are snapshotted
+// at most every CANVAS_SAMPLE_MS and only up to MAX_CANVAS_PIXELS.
+import {
+    DOM_RECORDER_SETTINGS_KEY,
+    DomRecorderSettings,
+    getDomRecorderSettings,
+    isDomRecordingEnabled,
+} from "../utils/domRecorderSettings";
+import {
+    DEFAULT_MASKING_POLICY,
+    MASKING_POLICY_KEY,
+    getMaskingPolicy,
+    isSensitiveElement,
+    scrubPatterns,
+} from "../utils/maskingPolicy";
+import {
+    DOCUMENT_NODE_ID,
+    DOM_CHECKPOINT_MS,
+    DOM_RECORDING_VERSION,
+    DOM_RECORDING_WINDOW_MS,
+    DomAdd,
+    DomAttr,
+    DomEvent,
+    DomRecording,
+    DomRemove,
+    DomText,
+    SerializedNode,
+    trimDomEvents,
+} from "../utils/domSnapshot";
+import type { EvidenceWindow } from "../utils/bugTimeline";
+
+(function () {
+    const MAX_EVENTS = 20000; // a very busy page takes an early checkpoint instead of growing further
+    const SCROLL_SAMPLE_MS = 100;
+    const POINTER_SAMPLE_MS = 50;
+    const RESIZE_SAMPLE_MS = 200;
+    const MAX_CANVAS_URL = 500000;
+    const MAX_CANVAS_PIXELS = 1000000; // toDataURL cost grows with the bitmap; bigger canvases stay blank
+    const CANVAS_SAMPLE_MS = 10000;
+    const SKIPPED_TAGS = new Set(["script", "noscript", "template"]);
+    const URL_ATTRS = new Set(["src", "href", "poster", "action", "background"]);
+    const OBSERVE: MutationObserverInit = { childList: true, attributes: true, characterData: true, subtree: true };
+
+    let policy = DEFAULT_MASKING_POLICY;
+    let events: DomEvent[] = [];
+    let observer: MutationObserver | null = null;
+    let nextId = 1;
+    const ids = new WeakMap<Node, number>();
+    const lastSampled = new Map<unknown, number>();
+    const pendingSamples = new Map<unknown, number>();
+    const canvasUrls = new WeakMap<HTMLCanvasElement, { t: number; url: string | null }>();
+    let pointer = { x: 0, y: 0 };
+    let stopRecording: (() => void) | null = null;
+
+    const now = () => Date.now();
+
+    function push(event: DomEvent) {
+        if (!observer) return; // a sampled event firing after stop()
+        events.push(event);
+        if (events.length > MAX_EVENTS) checkpoint();
+    }
+
+    /** Runs `emit` at most every `ms` per key, always including the last call (trailing edge) */
+    function sample(key: unknown, ms: number, emit: () => void) {
+        const wait = (lastSampled.get(key) || 0) + ms - now();
+        const fire = () => {
+            pendingSamples.delete(key);
+            lastSampled.set(key, now());
+            guarded(emit)();
+        };
+        if (wait <= 0) fire();
+        else if (!pendingSamples.has(key)) pendingSamples.set(key, window.setTimeout(fire, wait));
+    }
+
+    function guarded<A extends any[]>(fn: (...args: A) => void) {
+        return (...args: A) => {
+            try {
+                fn(...args);
+            } catch (err) {
+                console.warn("[BugSense] DOM recorder error:", err);
+            }
+        };
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Node ids
+    // ─────────────────────────────────────────────────────────────────────────
+    function assign(node: Node): number {
+        let id = ids.get(node);
+        if (id == null) {
+            id = nextId++;
+            ids.set(node, id);
+        }
+        return id;
+    }
+
+    /** Id of a node as a parent: the document is 0, a shadow root is addressed through its host */
+    function parentIdOf(node: Node | null): number | null {
+        if (!node) return null;
+        if (node === document) return DOCUMENT_NODE_ID;
+        if (node instanceof ShadowRoot) return ids.get(node.host) ?? null;
+        return ids.get(node) ?? null;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Masking and URL rewriting
+    // ─────────────────────────────────────────────────────────────────────────
+    function mask(text: string) {
+        return text.replace(/\S/g, "*");
+    }
+
+    type Field = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+    function isField(el: Element): el is Field {
+        return el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement;
+    }
+
+    function fieldValue(el: Field): string {
+        if (isSensitiveElement(el, policy)) return mask(el.value);
+        if (el instanceof HTMLSelectElement) return el.value;
+        if (el instanceof HTMLInputElement && /^(button|submit|reset|range|color)$/.test(el.type)) return el.value;
+        return policy.recordTypedText ? scrubPatterns(el.value, policy) : mask(el.value);
+    }
+
+    function absolute(url: string, base = document.baseURI) {
+        if (!url || /^(data|blob|about):|^#/i.test(url.trim())) return url;
+        try {
+            return new URL(url.trim(), base).href;
+        } catch {
+            return url;
+        }
+    }
+
+    function absoluteCss(css: string, base: string) {
+        return css.replace(/url\(\s*(['"]?)([^'")]*)\1\s*\)/g, (_m, quote, url) => `url(${quote}${absolute(url, base)}${quote})`);
+    }
+
+    /** Attribute value as it is recorded; null leaves the attribute out */
+    function attrValue(el: Element, name: string, value: string): string | null {
+        if (/^on/i.test(name)) return null;
+        if (name === "http-equiv" && el instanceof HTMLMetaElement) return null; // refresh / CSP would act in the player
+        if (name === "value" && isField(el)) {
+            return el instanceof HTMLInputElement && el.type === "hidden" ? null : fieldValue(el);
+        }
+        if (URL_ATTRS.has(name) || (name === "href" && el instanceof SVGElement)) {
+            return /^\s*javascript:/i.test(value) ? null : absolute(value);
+        }
+        if (name === "xlink:href") return absolute(value);
+        if (name === "srcset") {
+            return value
+                .split(",")
+                .map((part) => {
+                    const [url, ...size] = part.trim().split(/\s+/);
+                    return [absolute(url), ...size].join(" ");
+                })
+                .join(", ");
+        }
+        if (name === "style") return absoluteCss(value, document.baseURI);
+        return value;
+    }
+
+    /** Stylesheet text from the CSSOM (includes rules added with insertRule); null when cross-origin */
+    function sheetText(sheet: CSSStyleSheet | null): string | null {
+        if (!sheet) return null;
+        try {
+            const rules = Array.from(sheet.cssRules).map((rule) =>
+                rule instanceof CSSImportRule ? sheetText(rule.styleSheet) ?? rule.cssText : rule.cssText
+            );
+            return absoluteCss(rules.join("\n"), sheet.href || document.baseURI);
+        } catch {
+            return null;
+        }
+    }
+
+    function textOf(node: Text): string {
+        const parent = node.parentElement;
+        if (!parent) return node.data;
+        if (parent instanceof HTMLStyleElement) return sheetText(parent.sheet) ?? node.data;
+        if (parent instanceof HTMLTextAreaElement) return fieldValue(parent);
+        return isSensitiveElement(parent, policy) ? mask(node.data) : node.data;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Serialization
+    // ─────────────────────────────────────────────────────────────────────────
+    let scrolled: { id: number; x: number; y: number }[] = [];
+
+    /** Throttled per canvas: every snapshot re-serializes every canvas on the page */
+    function canvasUrl(el: HTMLCanvasElement): string | null {
+        const cached = canvasUrls.get(el);
+        if (cached && now() - cached.t < CANVAS_SAMPLE_MS) return cached.url;
+        let url: string | null = null;
+        if (el.width * el.height <= MAX_CANVAS_PIXELS) {
+            try {
+                url = el.toDataURL();
+                if (url.length > MAX_CANVAS_URL) url = null;
+            } catch {
+                // tainted canvas
+            }
+        }
+        canvasUrls.set(el, { t: now(), url });
+        return url;
+    }
+
+    function serializeChildren(parent: Node): SerializedNode[] {
+        const out: SerializedNode[] = [];
+        parent.childNodes.forEach((child) => {
+            const node = serialize(child);
+            if (node) out.push(node);
+        });
+        return out;
+    }
+
+    /** A <link rel=stylesheet> recorded as the <style> it loaded */
+    function inlineLink(el: HTMLLinkElement): SerializedNode | null {
+        const css = sheetText(el.sheet);
+        if (css == null) return null;
+        const attrs: Record<string, string> = { "data-bugsense-href": el.href };
+        if (el.media) attrs.media = el.media;
+        return { id: assign(el), type: "element", tag: "style", attrs, children: [{ id: nextId++, type: "text", text: css }] };
+    }
+
+    function serialize(node: Node): SerializedNode | null {
+        if (node.nodeType === Node.DOCUMENT_TYPE_NODE) {
+            const dt = node as DocumentType;
+            return { id: assign(dt), type: "doctype", name: dt.name, publicId: dt.publicId, systemId: dt.systemId };
+        }
+        if (node.nodeType === Node.TEXT_NODE) return { id: assign(node), type: "text", text: textOf(node as Text) };
+        if (node.nodeType !== Node.ELEMENT_NODE) return null; // comments, processing instructions
+
+        const el = node as Element;
+        const tag = el.tagName.toLowerCase();
+        if (SKIPPED_TAGS.has(tag)) return null;
+        if (el instanceof HTMLLinkElement && /\bstylesheet\b/i.test(el.rel)) {
+            const inlined = inlineLink(el);
+            if (inlined) return inlined;
+        }
+
+        const id = assign(el);
+        const attrs: Record<string, string> = {};
+        for (const attr of Array.from(el.attributes)) {
+            const value = attrValue(el, attr.name, attr.value);
+            if (value != null) attrs[attr.name] = value;
+        }
+
+        // live state that the attributes don't show
+        if (el instanceof HTMLInputElement) {
+            if (el.type === "checkbox" || el.type === "radio") {
+                if (el.checked) attrs.checked = "";
+                else delete attrs.checked;
+            } else if (el.type !== "hidden" && el.value) {
+                attrs.value = fieldValue(el);
+            }
+        } else if (el instanceof HTMLOptionElement) {
+            const select = el.closest("select");
+            if (el.selected && !(select && isSensitiveElement(select, policy))) attrs.selected = "";
+            else delete attrs.selected;
+        } else if (el instanceof HTMLIFrameElement || el instanceof HTMLFrameElement) {
+            // frames are not recorded; keep the box, not the live page
+            if (attrs.src) attrs["data-bugsense-frame"] = attrs.src;
+            delete attrs.src;
+            delete attrs.srcdoc;
+        } else if (el instanceof HTMLCanvasElement) {
+            const url = canvasUrl(el);
+            if (url) attrs["data-bugsense-canvas"] = url;
+        }
+        if (el.scrollTop || el.scrollLeft) scrolled.push({ id, x: el.scrollLeft, y: el.scrollTop });
+
+        let children: SerializedNode[];
+        if (el instanceof HTMLStyleElement || el instanceof HTMLTextAreaElement) {
+            // one text child: the CSSOM text / the field's current value
+            const text = el instanceof HTMLStyleElement ? sheetText(el.sheet) ?? el.textContent ?? "" : fieldValue(el);
+            children = [{ id: el.firstChild ? assign(el.firstChild) : nextId++, type: "text", text }];
+        } else {
+            children = serializeChildren(el);
+        }
+
+        const out: SerializedNode = { id, type: "element", tag, attrs, children };
+        if (el instanceof SVGElement) out.svg = true;
+        if (el.shadowRoot) {
+            observer?.observe(el.shadowRoot, OBSERVE);
+            out.shadow = serializeChildren(el.shadowRoot);
+        }
+        return out;
+    }
+
+    function takeSnapshot(): DomEvent[] {
+        scrolled = [];
+        const t = now();
+        const snapshot: DomEvent = {
+            t,
+            kind: "snapshot",
+            nodes: serializeChildren(document),
+            url: location.href,
+            title: document.title,
+            width: window.innerWidth,
+            height: window.innerHeight,
+            scrollX: window.scrollX,
+            scrollY: window.scrollY,
+        };
+        return [snapshot, ...scrolled.map(({ id, x, y }) => ({ t, kind: "scroll" as const, id, x, y }))];
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Mutations
+    // ─────────────────────────────────────────────────────────────────────────
+    function hasAddedAncestor(node: Node, added: Set<Node>) {
+        let cur: Node | null = node.parentNode;
+        while (cur) {
+            if (added.has(cur)) return true;
+            cur = cur instanceof ShadowRoot ? cur.host : cur.parentNode;
+        }
+        return false;
+    }
+
+    /** Next sibling the player already has (not itself part of this batch) */
+    function nextKnownSibling(node: Node, added: Set<Node>): number | null {
+        for (let sib = node.nextSibling; sib; sib = sib.nextSibling) {
+            if (added.has(sib)) continue;
+            const id = ids.get(sib);
+            if (id != null) return id;
+        }
+        return null;
+    }
+
+    function onMutations(records: MutationRecord[]) {
+        if (!records.length) return;
+        const removes: DomRemove[] = [];
+        const added = new Set<Node>();
+        const attrs = new Map<string, DomAttr>();
+        const texts = new Map<number, DomText>();
+
+        for (const r of records) {
+            if (r.type === "childList") {
+                const parentId = parentIdOf(r.target);
+                r.removedNodes.forEach((n) => {
+                    added.delete(n);
+                    const id = ids.get(n);
+                    if (id != null) removes.push({ parentId: parentId ?? -1, id });
+                });
+                r.addedNodes.forEach((n) => added.add(n));
+            } else if (r.type === "attributes") {
+                const id = ids.get(r.target);
+                const name = r.attributeName;
+                if (id == null || !name) continue;
+                const el = r.target as Element;
+                const raw = el.getAttribute(name);
+                attrs.set(`${id}:${name}`, { id, name, value: raw == null ? null : attrValue(el, name, raw) });
+            } else if (r.type === "characterData" && r.target.nodeType === Node.TEXT_NODE) {
+                const id = ids.get(r.target);
+                if (id != null) texts.set(id, { id, text: textOf(r.target as Text) });
+            }
+        }
+
+        const adds: DomAdd[] = [];
+        const roots = Array.from(added)
+            .filter((n) => n.isConnected && !hasAddedAncestor(n, added))
+            .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+        for (const n of roots) {
+            const parentId = parentIdOf(n.parentNode);
+            if (parentId == null) continue; // inside a subtree that isn't recorded
+            const node = serialize(n);
+            if (!node) continue;
+            const add: DomAdd = { parentId, nextId: nextKnownSibling(n, added), node };
+            if (n.parentNode instanceof ShadowRoot) add.shadow = true;
+            adds.push(add);
+        }
+
+        if (!removes.length && !adds.length && !attrs.size && !texts.size) return;
+        push({ t: now(), kind: "mutation", removes, adds, attrs: Array.from(attrs.values()), texts: Array.from(texts.values()) });
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Interaction events
+    // ─────────────────────────────────────────────────────────────────────────
+    function eventTarget(e: Event): Element | null {
+        const first = e.composedPath?.()[0] ?? e.target;
+        return first instanceof Element ? first : null;
+    }
+
+    function onScroll(e: Event) {
+        const target = e.target;
+        if (target === document || target === document.documentElement) {
+            sample(DOCUMENT_NODE_ID, SCROLL_SAMPLE_MS, () =>
+                push({ t: now(), kind: "scroll", id: DOCUMENT_NODE_ID, x: window.scrollX, y: window.scrollY })
+            );
+            return;
+        }
+        const id = target instanceof Element ? ids.get(target) : undefined;
+        if (id == null) return;
+        const el = target as Element;
+        sample(el, SCROLL_SAMPLE_MS, () => push({ t: now(), kind: "scroll", id, x: el.scrollLeft, y: el.scrollTop }));
+    }
+
+    function recordField(el: Element) {
+        if (!isField(el)) return;
+        const id = ids.get(el);
+        if (id == null) return;
+        if (el instanceof HTMLInputElement && (el.type === "checkbox" || el.type === "radio")) {
+            push({ t: now(), kind: "input", id, checked: el.checked });
+            return;
+        }
+        push({ t: now(), kind: "input", id, value: fieldValue(el) });
+    }
+
+    function onInput(e: Event) {
+        const el = eventTarget(e);
+        if (!el) return;
+        if (el instanceof HTMLInputElement && el.type === "radio" && el.name) {
+            // the radio that got unchecked fires nothing
+            const scope = el.form || el.getRootNode();
+            if (scope instanceof Element || scope instanceof Document || scope instanceof ShadowRoot) {
+                scope.querySelectorAll(`input[type="radio"][name="${CSS.escape(el.name)}"]`).forEach(recordField);
+                return;
+            }
+        }
+        recordField(el);
+    }
+
+    function onResize() {
+        sample("viewport", RESIZE_SAMPLE_MS, () =>
+            push({ t: now(), kind: "viewport", width: window.innerWidth, height: window.innerHeight })
+        );
+    }
+
+    function onPointerMove(e: MouseEvent) {
+        pointer = { x: e.clientX, y: e.clientY };
+        sample("pointer", POINTER_SAMPLE_MS, () => push({ t: now(), kind: "pointer", ...pointer }));
+    }
+
+    function onClick(e: MouseEvent) {
+        push({ t: now(), kind: "pointer", x: e.clientX, y: e.clientY, click: true });
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Buffer
+    // ─────────────────────────────────────────────────────────────────────────
+    function flush() {
+        if (observer) onMutations(observer.takeRecords());
+    }
+
+    function checkpoint() {
+        flush();
+        events.push(...takeSnapshot());
+        events = trimDomEvents(events, now() - DOM_RECORDING_WINDOW_MS);
+        // still too much within the window: keep only the new snapshot
+        if (events.length > MAX_EVENTS) events = trimDomEvents(events, Infinity);
+    }
+
+    /**
+     * The last DOM_RECORDING_WINDOW_MS, or the DevTools evidence window: events up to its end,
+     * starting from the last snapshot before it (the player seeks to evidenceFrom).
+     */
+    function recording(win?: EvidenceWindow | null): DomRecording {
+        flush();
+        const until = win ? Math.min(win.to, now()) : now();
+        const list = trimDomEvents(events, win ? win.from : until - DOM_RECORDING_WINDOW_MS).filter((e) => e.t <= until);
+        if (!list.length) throw new Error("The selected window is older than the DOM recording");
+        return {
+            v: DOM_RECORDING_VERSION,
+            url: location.href,
+            title: document.title,
+            startedAt: list[0].t,
+            endedAt: until,
+            events: list,
+            ...(win && win.from > list[0].t ? { evidenceFrom: win.from } : {}),
+        };
+    }
+
+    function start() {
+        if (stopRecording) return;
+        observer = new MutationObserver(guarded(onMutations));
+        observer.observe(document, OBSERVE);
+        events = takeSnapshot();
+
+        const opts = { capture: true, passive: true };
+        const listeners: [EventTarget, string, EventListener][] = [
+            [document, "scroll", guarded(onScroll) as EventListener],
+            [document, "input", guarded(onInput) as EventListener],
+            [document, "change", guarded(onInput) as EventListener],
+            [document, "mousemove", guarded(onPointerMove) as EventListener],
+            [document, "click", guarded(onClick) as EventListener],
+            [window, "resize", guarded(onResize) as EventListener],
+        ];
+        listeners.forEach(([target, type, fn]) => target.addEventListener(type, fn, opts));
+        const timer = window.setInterval(guarded(checkpoint), DOM_CHECKPOINT_MS);
+
+        stopRecording = () => {
+            observer?.disconnect();
+            observer = null;
+            listeners.forEach(([target, type, fn]) => target.removeEventListener(type, fn, opts));
+            window.clearInterval(timer);
+            pendingSamples.forEach((t) => window.clearTimeout(t));
+            pendingSamples.clear();
+            events = [];
+            stopRecording = null;
+            console.log("[BugSense DOM Recorder] stopped");
+        };
+        console.log("[BugSense DOM Recorder] active ✅");
+    }
+
+    function applySettings(settings: DomRecorderSettings) {
+        if (isDomRecordingEnabled(settings, location.origin)) guarded(start)();
+        else stopRecording?.();
+    }
+
+    chrome.storage.onChanged.addListener((changes, area) => {
+        if (area !== "local") return;
+        if (changes[MASKING_POLICY_KEY]) {
+            policy = { ...DEFAULT_MASKING_POLICY, ...(changes[MASKING_POLICY_KEY].newValue || {}) };
+        }
+        if (changes[DOM_RECORDER_SETTINGS_KEY]) getDomRecorderSettings().then(applySettings);
+    });
+
+    chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+        if (msg?.action !== "GET_DOM_RECORDING") return;
+        if (!stopRecording) {
+            sendResponse({ success: false, error: "DOM recording is off for this site — enable it in the popup" });
+            return;
+        }
+        try {
+            sendResponse({ success: true, recording: recording(msg.window) });
+        } catch (err) {
+            sendResponse({ success: false, error: String(err) });
+        }
+    });
+
+    getMaskingPolicy()
+        .then((p) => (policy = p))
+        .then(getDomRecorderSettings)
+        .then(applySettings);
+})();
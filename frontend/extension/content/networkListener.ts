@@ -0,0 +1,59 @@
+// extension/content/networkListener.ts
+// Isolated-world half of the network recorder (hooks live in pageNetworkHook.ts).
+// Keeps a rolling buffer of the page's requests in chrome.storage.local. Runs at document_start
+// so the requests made while the page loads are kept. Bodies are redacted (utils/network.ts
+// redactBody) under the masking policy before they are written.
+import { NetworkEntry, redactBody } from "../utils/network";
+import { resolveContentScope, scopedKey } from "../utils/tabScope";
+import { DEFAULT_MASKING_POLICY, MASKING_POLICY_KEY, MaskingPolicy, getMaskingPolicy } from "../utils/maskingPolicy";
+
+(function () {
+    const BASE_KEY = "recentNetworkRequests";
+    const MAX_ENTRIES = 50;
+
+    let policy: MaskingPolicy = DEFAULT_MASKING_POLICY;
+    const refreshPolicy = () => getMaskingPolicy().then((p) => (policy = p));
+    const ready = refreshPolicy();
+
+    try {
+        chrome.storage.onChanged.addListener((changes, areaName) => {
+            if (areaName === "local" && changes[MASKING_POLICY_KEY]) refreshPolicy();
+        });
+    } catch {
+        // context invalidated
+    }
+
+    let writeChain: Promise<void> = Promise.resolve();
+
+    function pushRequest(entry: NetworkEntry) {
+        writeChain = writeChain.then(async () => {
+            await ready;
+            const scope = await resolveContentScope();
+            if (!scope) return;
+            const KEY = scopedKey(BASE_KEY, scope);
+            await new Promise<void>((resolve) => {
+                try {
+                    if (!chrome?.storage?.local) return resolve();
+                    chrome.storage.local.get([KEY], (res) => {
+                        const arr: NetworkEntry[] = Array.isArray(res?.[KEY]) ? res[KEY] : [];
+                        arr.push({
+                            ...entry,
+                            requestBody: redactBody(entry.requestBody, policy),
+                            responseBody: redactBody(entry.responseBody, policy),
+                        });
+                        chrome.storage.local.set({ [KEY]: arr.slice(-MAX_ENTRIES) }, () => resolve());
+                    });
+                } catch {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    window.addEventListener("message", (ev: MessageEvent) => {
+        if (ev.source !== window) return;
+        const data = ev.data;
+        if (!data || data.source !== "bugsense-page" || data.channel !== "network" || !data.payload) return;
+        pushRequest(data.payload as NetworkEntry);
+    });
+})();
@@ -0,0 +1,169 @@
+// extension/content/pageConsoleHook.ts
+// Runs in the page's MAIN world (see manifest "world": "MAIN"), so it sees the page's own
+// console calls and uncaught errors with real stacks. It has no access to chrome.* APIs —
+// every capture is posted to the isolated-world consoleListener via window.postMessage.
+// Keep this file import-free: MAIN world scripts cannot use the extension module loader.
+
+(function () {
+    const w = window as any;
+    if (w.__bugSenseConsoleHooked) return;
+    w.__bugSenseConsoleHooked = true;
+
+    const SOURCE = "bugsense-page";
+    const MAX_STRING = 2000;
+    const MAX_DEPTH = 3;
+    const MAX_KEYS = 30;
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Safe serialization (page objects may be circular, huge or hostile)
+    // ─────────────────────────────────────────────────────────────────────────
+    function clip(s: string) {
+        return s.length > MAX_STRING ? s.slice(0, MAX_STRING) + "…" : s;
+    }
+
+    function serialize(value: any, depth = 0, seen = new WeakSet<object>()): any {
+        try {
+            if (value === null || value === undefined) return value ?? null;
+            const t = typeof value;
+            if (t === "string") return clip(value);
+            if (t === "number" || t === "boolean") return value;
+            if (t === "bigint") return value.toString() + "n";
+            if (t === "symbol") return value.toString();
+            if (t === "function") return `[Function ${value.name || "anonymous"}]`;
+
+            if (value instanceof Error) {
+                return { name: value.name, message: clip(String(value.message)), stack: value.stack ? clip(value.stack) : null };
+            }
+            if (typeof Element !== "undefined" && value instanceof Element) {
+                const id = value.id ? `#${value.id}` : "";
+                return `<${value.tagName.toLowerCase()}${id}>`;
+            }
+            if (seen.has(value)) return "[Circular]";
+            if (depth >= MAX_DEPTH) return Array.isArray(value) ? `[Array(${value.length})]` : "[Object]";
+            seen.add(value);
+
+            if (Array.isArray(value)) {
+                return value.slice(0, MAX_KEYS).map((v) => serialize(v, depth + 1, seen));
+            }
+            const out: Record<string, any> = {};
+            for (const key of Object.keys(value).slice(0, MAX_KEYS)) {
+                out[key] = serialize(value[key], depth + 1, seen);
+            }
+            return out;
+        } catch {
+            return "[Unserializable]";
+        }
+    }
+
+    function stringify(arg: any) {
+        if (typeof arg === "string") return arg;
+        if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+        try {
+            return JSON.stringify(serialize(arg));
+        } catch {
+            return String(arg);
+        }
+    }
+
+    function firstStack(args: any[]) {
+        const err = args.find((a) => a instanceof Error);
+        if (err?.stack) return clip(err.stack);
+        // Fall back to the call site of the console method itself
+        const own = new Error().stack || "";
+        return clip(own.split("\n").slice(3).join("\n")) || null;
+    }
+
+    function post(payload: Record<string, any>) {
+        try {
+            window.postMessage({ source: SOURCE, channel: "console", payload: { ...payload, url: location.href, ts: Date.now() } }, "*");
+        } catch {
+            // never break the page
+        }
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  console.error / console.warn / console.assert
+    // ─────────────────────────────────────────────────────────────────────────
+    function wrap(method: "error" | "warn") {
+        const original = console[method];
+        if (typeof original !== "function") return;
+        console[method] = function (...args: any[]) {
+            try {
+                post({
+                    type: "console",
+                    level: method,
+                    message: clip(args.map(stringify).join(" ")),
+                    raw: args.map((a) => serialize(a)),
+                    stack: firstStack(args),
+                });
+            } catch { }
+            return original.apply(this, args);
+        };
+    }
+
+    wrap("error");
+    wrap("warn");
+
+    const originalAssert = console.assert;
+    if (typeof originalAssert === "function") {
+        console.assert = function (condition?: boolean, ...args: any[]) {
+            if (!condition) {
+                try {
+                    post({
+                        type: "console",
+                        level: "error",
+                        message: clip("Assertion failed: " + (args.length ? args.map(stringify).join(" ") : "console.assert")),
+                        raw: args.map((a) => serialize(a)),
+                        stack: firstStack(args),
+                    });
+                } catch { }
+            }
+            return originalAssert.call(this, condition, ...args);
+        };
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Uncaught errors & unhandled rejections
+    // ─────────────────────────────────────────────────────────────────────────
+    window.addEventListener(
+        "error",
+        (ev: Event) => {
+            // Resource load failures (img/script/stylesheet 404) reach the capture phase as plain
+            // Events on the element, without a message
+            if (!(ev instanceof ErrorEvent)) {
+                const el = ev.target as any;
+                const src = el?.currentSrc || el?.src || el?.href;
+                if (!el?.tagName || !src) return;
+                post({
+                    type: "network",
+                    level: "error",
+                    message: clip(`Failed to load <${String(el.tagName).toLowerCase()}> ${src}`),
+                    filename: clip(String(src)),
+                    stack: null,
+                });
+                return;
+            }
+            post({
+                type: "runtime",
+                level: "error",
+                message: ev.message || ev.error?.message || "Unknown error",
+                filename: ev.filename,
+                lineno: ev.lineno,
+                colno: ev.colno,
+                stack: ev.error?.stack ? clip(ev.error.stack) : null,
+            });
+        },
+        true
+    );
+
+    window.addEventListener("unhandledrejection", (ev: PromiseRejectionEvent) => {
+        const reason = ev.reason;
+        post({
+            type: "promise",
+            level: "error",
+            message: reason instanceof Error ? `${reason.name}: ${reason.message}` : stringify(reason),
+            detail: serialize(reason),
+            stack: reason?.stack ? clip(String(reason.stack)) : null,
+        });
+    });
+})();
@@ -0,0 +1,29 @@
+// extension/content/pageHistoryHook.ts
+// MAIN world route recorder: wraps history.pushState / replaceState, which SPAs use for
+// navigation and which the isolated world can't observe (no event fires). Each call is posted to
+// replayListener via window.postMessage; popstate / hashchange are seen there directly.
+// Keep this file import-free.
+
+(function () {
+    const w = window as any;
+    if (w.__bugSenseHistoryHooked) return;
+    w.__bugSenseHistoryHooked = true;
+
+    const SOURCE = "bugsense-page";
+
+    function wrap(kind: "pushState" | "replaceState") {
+        const original = history[kind];
+        history[kind] = function (this: History, ...args: Parameters<History["pushState"]>) {
+            const result = original.apply(this, args);
+            try {
+                window.postMessage({ source: SOURCE, channel: "navigation", payload: { kind, url: location.href } }, "*");
+            } catch {
+                // never break the page's router
+            }
+            return result;
+        };
+    }
+
+    wrap("pushState");
+    wrap("replaceState");
+})();
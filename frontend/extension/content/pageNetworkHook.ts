@@ -0,0 +1,209 @@
+// extension/content/pageNetworkHook.ts
+// MAIN world network recorder: wraps window.fetch and XMLHttpRequest so the page's own
+// requests can be attached to bug reports. Like pageConsoleHook.ts it cannot touch chrome.*,
+// so finished requests are posted to the isolated-world networkListener via window.postMessage.
+// Bodies are posted whole (up to MAX_READ_BYTES, read off a clone and cancelled there; streaming
+// responses are skipped): networkListener redacts and clips them before anything is stored.
+// Keep this file import-free.
+
+(function () {
+    const w = window as any;
+    if (w.__bugSenseNetworkHooked) return;
+    w.__bugSenseNetworkHooked = true;
+
+    const SOURCE = "bugsense-page";
+    const MAX_READ_BYTES = 256 * 1024; // don't buffer big downloads just to truncate them
+    const TEXT_TYPES = /json|text|xml|javascript|x-www-form-urlencoded|graphql/i;
+    // responses that never really end (SSE, NDJSON / JSON Lines feeds, multipart pushes)
+    const STREAM_TYPES = /event-stream|ndjson|jsonl|json-seq|multipart\/x-mixed-replace|stream/i;
+
+    let seq = 0;
+
+    function clip(s: string | null | undefined) {
+        if (s === null || s === undefined) return null;
+        return s.length > MAX_READ_BYTES ? s.slice(0, MAX_READ_BYTES) + "…" : s;
+    }
+
+    function describeBody(body: any): string | null {
+        try {
+            if (body === null || body === undefined) return null;
+            if (typeof body === "string") return clip(body);
+            if (body instanceof URLSearchParams) return clip(body.toString());
+            if (typeof FormData !== "undefined" && body instanceof FormData) {
+                const parts: string[] = [];
+                body.forEach((v, k) => parts.push(`${k}=${typeof v === "string" ? v : "[File]"}`));
+                return clip(parts.join("&"));
+            }
+            if (body instanceof Blob) return `[Blob ${body.type || "binary"} ${body.size}b]`;
+            if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return `[Binary ${(body as ArrayBuffer).byteLength}b]`;
+            return "[Body]";
+        } catch {
+            return null;
+        }
+    }
+
+    /** Text of a (cloned) response body, reading at most MAX_READ_BYTES and cancelling the rest */
+    async function readCapped(response: Response): Promise<string | null> {
+        const reader = response.body?.getReader();
+        if (!reader) return null;
+        const decoder = new TextDecoder();
+        let text = "";
+        let bytes = 0;
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) return text + decoder.decode();
+            bytes += value.byteLength;
+            text += decoder.decode(value, { stream: true });
+            if (bytes >= MAX_READ_BYTES) {
+                reader.cancel().catch(() => undefined);
+                return clip(text);
+            }
+        }
+    }
+
+    function absolute(url: string) {
+        try {
+            return new URL(url, location.href).href;
+        } catch {
+            return String(url);
+        }
+    }
+
+    function post(entry: Record<string, any>) {
+        try {
+            // status 0 without an error is an opaque no-cors response, not a failure
+            const failed = Boolean(entry.error) || entry.status >= 400;
+            window.postMessage(
+                { source: SOURCE, channel: "network", payload: { ...entry, failed, pageUrl: location.href, ts: Date.now() } },
+                "*"
+            );
+        } catch {
+            // never break the page
+        }
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  fetch
+    // ─────────────────────────────────────────────────────────────────────────
+    const originalFetch = window.fetch;
+    if (typeof originalFetch === "function") {
+        window.fetch = async function (this: any, input: RequestInfo | URL, init?: RequestInit) {
+            const id = `f${++seq}`;
+            const startedAt = Date.now();
+            const t0 = performance.now();
+            let method = "GET";
+            let url = "";
+            let requestBody: Promise<string | null> = Promise.resolve(null);
+            try {
+                if (input instanceof Request) {
+                    method = input.method;
+                    url = input.url;
+                } else {
+                    url = String(input);
+                }
+                if (init?.method) method = init.method;
+                if (init?.body != null) requestBody = Promise.resolve(describeBody(init.body));
+                else if (input instanceof Request && input.body) {
+                    requestBody = input.clone().text().then(clip, () => null);
+                }
+            } catch { }
+
+            try {
+                const response = await originalFetch.call(this, input as any, init);
+                const duration = Math.round(performance.now() - t0);
+                const base = {
+                    id,
+                    kind: "fetch",
+                    method: method.toUpperCase(),
+                    url: absolute(url),
+                    status: response.status,
+                    statusText: response.statusText,
+                    startedAt,
+                    duration,
+                    ...(response.type === "opaque" ? { responseType: "opaque" } : {}),
+                };
+
+                const type = response.headers.get("content-type") || "";
+                const length = Number(response.headers.get("content-length") || 0);
+                const responseBody =
+                    TEXT_TYPES.test(type) && !STREAM_TYPES.test(type) && length <= MAX_READ_BYTES
+                        ? readCapped(response.clone()).catch(() => null)
+                        : Promise.resolve(null);
+                Promise.all([requestBody, responseBody]).then(([req, res]) =>
+                    post({ ...base, requestBody: req, responseBody: res })
+                );
+                return response;
+            } catch (err: any) {
+                const error = err?.name === "AbortError" ? "aborted" : String(err?.message || err);
+                requestBody.then((body) =>
+                    post({
+                        id,
+                        kind: "fetch",
+                        method: method.toUpperCase(),
+                        url: absolute(url),
+                        status: 0,
+                        statusText: "",
+                        startedAt,
+                        duration: Math.round(performance.now() - t0),
+                        requestBody: body,
+                        responseBody: null,
+                        error,
+                    })
+                );
+                throw err;
+            }
+        };
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  XMLHttpRequest
+    // ─────────────────────────────────────────────────────────────────────────
+    const XHR = window.XMLHttpRequest;
+    if (XHR) {
+        const originalOpen = XHR.prototype.open;
+        const originalSend = XHR.prototype.send;
+
+        XHR.prototype.open = function (this: any, method: string, url: string | URL, ...rest: any[]) {
+            this.__bugsense = { method: String(method || "GET").toUpperCase(), url: absolute(String(url)) };
+            return (originalOpen as any).call(this, method, url, ...rest);
+        };
+
+        XHR.prototype.send = function (this: any, body?: any) {
+            const meta = this.__bugsense || { method: "GET", url: "" };
+            const id = `x${++seq}`;
+            const startedAt = Date.now();
+            const t0 = performance.now();
+            const requestBody = describeBody(body);
+            let error: string | null = null;
+
+            const onError = (label: string) => () => {
+                error = label;
+            };
+            this.addEventListener("error", onError("network error"));
+            this.addEventListener("abort", onError("aborted"));
+            this.addEventListener("timeout", onError("timeout"));
+            this.addEventListener("loadend", () => {
+                let responseBody: string | null = null;
+                try {
+                    if (this.responseType === "" || this.responseType === "text") responseBody = clip(this.responseText);
+                    else if (this.responseType === "json") responseBody = clip(JSON.stringify(this.response));
+                } catch { }
+                post({
+                    id,
+                    kind: "xhr",
+                    method: meta.method,
+                    url: meta.url,
+                    status: this.status,
+                    statusText: this.statusText,
+                    startedAt,
+                    duration: Math.round(performance.now() - t0),
+                    requestBody,
+                    responseBody,
+                    ...(error ? { error } : {}),
+                });
+            });
+
+            return originalSend.call(this, body);
+        };
+    }
+})();
@@ -0,0 +1,176 @@
+// extension/content/pageSdk.ts
+// MAIN world half of the public page API. Defines window.BugSense for the app:
+//   BugSense.addBreadcrumb({ message, category?, level?, data? })  (or just a string)
+//   BugSense.setContext(name, value)          — value null removes the entry
+//   BugSense.setUser({ id, ...traits })       — id is hashed (SHA-256) before it leaves the page; null clears
+//   BugSense.captureError(error, extra?)      — lands next to console errors
+//   BugSense.attachState(fn, name?)           — fn() is called when a bug is created; returns an unsubscribe
+// Everything is posted to the isolated sdkBridge (and consoleListener for errors) via
+// window.postMessage; the bridge drops it unless the origin opted in (utils/pageSdk.ts).
+// Not in the manifest: background/pageSdkScript.ts registers it for the opted-in origins only.
+// Keep this file import-free: MAIN world scripts cannot use the extension module loader.
+
+(function () {
+    const w = window as any;
+    if (w.BugSense?.__bugSense) return;
+
+    const SOURCE = "bugsense-page";
+    const EXTENSION_SOURCE = "bugsense-extension";
+    const MAX_STRING = 1000;
+    const MAX_DEPTH = 6;
+    const MAX_KEYS = 100;
+
+    const providers = new Map<string, () => any>();
+    let providerCount = 0;
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Safe serialization (app state may be circular, huge or hold DOM nodes)
+    // ─────────────────────────────────────────────────────────────────────────
+    function clip(s: string) {
+        return s.length > MAX_STRING ? s.slice(0, MAX_STRING) + "…" : s;
+    }
+
+    function serialize(value: any, depth = 0, seen = new WeakSet<object>()): any {
+        try {
+            if (value === null || value === undefined) return null;
+            const t = typeof value;
+            if (t === "string") return clip(value);
+            if (t === "number" || t === "boolean") return value;
+            if (t === "bigint") return value.toString() + "n";
+            if (t === "symbol") return value.toString();
+            if (t === "function") return `[Function ${value.name || "anonymous"}]`;
+
+            if (value instanceof Error) {
+                return { name: value.name, message: clip(String(value.message)), stack: value.stack ? clip(value.stack) : null };
+            }
+            if (value instanceof Date) return value.toISOString();
+            if (typeof Element !== "undefined" && value instanceof Element) {
+                const id = value.id ? `#${value.id}` : "";
+                return `<${value.tagName.toLowerCase()}${id}>`;
+            }
+            if (seen.has(value)) return "[Circular]";
+            if (depth >= MAX_DEPTH) return Array.isArray(value) ? `[Array(${value.length})]` : "[Object]";
+            seen.add(value);
+
+            if (value instanceof Map) return serialize(Object.fromEntries(Array.from(value.entries()).slice(0, MAX_KEYS)), depth, seen);
+            if (value instanceof Set) return serialize(Array.from(value), depth, seen);
+            if (Array.isArray(value)) {
+                return value.slice(0, MAX_KEYS).map((v) => serialize(v, depth + 1, seen));
+            }
+            const out: Record<string, any> = {};
+            for (const key of Object.keys(value).slice(0, MAX_KEYS)) {
+                out[key] = serialize(value[key], depth + 1, seen);
+            }
+            return out;
+        } catch {
+            return "[Unserializable]";
+        }
+    }
+
+    function post(channel: "sdk" | "console", payload: Record<string, any>) {
+        try {
+            window.postMessage({ source: SOURCE, channel, payload }, "*");
+        } catch {
+            // never break the app
+        }
+    }
+
+    async function hashId(id: unknown): Promise<string> {
+        const text = String(id);
+        try {
+            if (crypto?.subtle) {
+                const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+                return "sha256:" + Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+            }
+        } catch {
+            // fall through
+        }
+        // insecure contexts have no crypto.subtle — FNV-1a still keeps the raw id out of reports
+        let h = 0x811c9dc5;
+        for (let i = 0; i < text.length; i++) {
+            h ^= text.charCodeAt(i);
+            h = Math.imul(h, 0x01000193) >>> 0;
+        }
+        return "fnv1a:" + h.toString(16);
+    }
+
+    async function collectState() {
+        const state: Record<string, any> = {};
+        for (const [name, fn] of Array.from(providers.entries())) {
+            try {
+                state[name] = serialize(await fn());
+            } catch (err) {
+                state[name] = { error: String(err) };
+            }
+        }
+        return state;
+    }
+
+    // sdkBridge asks for the state providers when a bug is created
+    window.addEventListener("message", (ev: MessageEvent) => {
+        if (ev.source !== window) return;
+        const data = ev.data;
+        if (!data || data.source !== EXTENSION_SOURCE || data.channel !== "sdk-state-request") return;
+        collectState().then((state) => post("sdk", { type: "state", requestId: data.requestId, state }));
+    });
+
+    w.BugSense = {
+        __bugSense: true,
+        version: 1,
+
+        addBreadcrumb(crumb: string | { message: string; category?: string; level?: string; data?: any }) {
+            if (!crumb) return;
+            const c = typeof crumb === "string" ? { message: crumb } : crumb;
+            post("sdk", {
+                type: "breadcrumb",
+                breadcrumb: {
+                    ts: Date.now(),
+                    message: clip(String(c.message ?? "")),
+                    ...(c.category ? { category: String(c.category).slice(0, 50) } : {}),
+                    ...(c.level ? { level: String(c.level) } : {}),
+                    ...("data" in c && c.data !== undefined ? { data: serialize(c.data) } : {}),
+                },
+            });
+        },
+
+        setContext(name: string, value: any) {
+            if (!name) return;
+            post("sdk", { type: "context", name: String(name), value: value == null ? null : serialize(value) });
+        },
+
+        setUser(user: ({ id?: string | number } & Record<string, any>) | null) {
+            if (!user) {
+                post("sdk", { type: "user", user: null });
+                return;
+            }
+            const { id, ...traits } = user;
+            const hashed = id == null ? Promise.resolve(null) : hashId(id);
+            hashed.then((idHash) => post("sdk", { type: "user", user: { ...serialize(traits), idHash } }));
+        },
+
+        captureError(error: unknown, extra?: any) {
+            const err = error instanceof Error ? error : new Error(typeof error === "string" ? error : JSON.stringify(serialize(error)));
+            post("console", {
+                type: "sdk.captureError",
+                level: "error",
+                sdk: true,
+                message: clip(`${err.name}: ${err.message}`),
+                stack: err.stack ? clip(err.stack) : null,
+                raw: extra === undefined ? null : serialize(extra),
+                url: location.href,
+                ts: Date.now(),
+            });
+        },
+
+        attachState(fn: () => any, name?: string) {
+            if (typeof fn !== "function") return () => undefined;
+            const key = String(name || fn.name || `state${++providerCount}`);
+            providers.set(key, fn);
+            return () => {
+                if (providers.get(key) === fn) providers.delete(key);
+            };
+        },
+    };
+
+    window.dispatchEvent(new Event("bugsense:ready"));
+})();
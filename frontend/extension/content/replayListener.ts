@@ -1,20 +1,49 @@
 // extension/content/replayListener.ts
 // Content script for Bug Sense: Records user actions, captures tab snapshots, and
 // persists replay data. Designed to survive SPA navigation & avoid context invalidation errors.
-
-type ActionEvent = {
-    type: "click" | "keypress";
-    timestamp: number;
-    details: any;
-};
+// All buffers are keyed by tab + origin (see utils/tabScope.ts).
+// Keystrokes never reach the buffer raw — see utils/maskingPolicy.ts. The action schema
+// (typing, control changes, scroll, focus, drag/drop, touch, SPA routes…) is in utils/replayBuffer.ts.
+import { resolveContentScope, scopedKey } from "../utils/tabScope";
+import {
+    DEFAULT_MASKING_POLICY,
+    MASKING_POLICY_KEY,
+    MaskingPolicy,
+    applyMaskingPolicy,
+    describeField,
+    getMaskingPolicy,
+    isSensitiveElement,
+    scrubText,
+} from "../utils/maskingPolicy";
+import {
+    ActionEvent,
+    ActionOfType,
+    ChangeDetails,
+    NavigationDetails,
+    makeAction,
+    normalizeActions,
+} from "../utils/replayBuffer";
+import { ElementLocators, actionableTarget, buildLocators } from "../utils/locators";
+import { REPLAY_RUNNING_FLAG } from "../utils/replayRun";
 
 // Configuration constants
 const MAX_BUFFER_TIME = 60000; // 60s window of actions
-const SCREENSHOT_THROTTLE_MS = 2000; // capture every 2 seconds
-const MAX_SCREENSHOTS = 30; // store last 30 frames (~60s)
+const SCREENSHOT_THROTTLE_MS = 2000; // capture every 2 seconds (background keeps the last 30 frames)
+const TYPING_GAP_MS = 2000; // edits in the same field closer than this form one "typed N characters" action
+const SETTLE_MS = 400; // scroll / resize are recorded once they stop
+const SWIPE_MIN_PX = 30;
+const RECORDED_KEYS = new Set(["Enter", "Escape"]);
+const TEXT_INPUT_TYPES = new Set(["text", "search", "email", "url", "tel", "password", "number"]);
 
 let actions: ActionEvent[] = [];
 let lastScreenshotTime = 0;
+let policy: MaskingPolicy = DEFAULT_MASKING_POLICY;
+let typing: { target: Element; action: ActionOfType<"input">; lastAt: number } | null = null;
+let dragging: ActionOfType<"drag"> | null = null;
+let touchStart: { x: number; y: number; target: Element | null; fingers: number } | null = null;
+let lastUrl = location.href;
+const knownLength = new WeakMap<Element, number>(); // text length per field, for typing deltas
+const settleTimers = new Map<EventTarget, number>();
 
 console.log("[BugSense Replay Listener] active ✅");
 
@@ -43,26 +72,14 @@ function safeStorageSet(obj: Record<string, any>) {
 // ─────────────────────────────────────────────────────────────────────────────
 async function persistActions() {
     try {
-        safeStorageSet({ recentActions: actions });
+        const scope = await resolveContentScope();
+        if (!scope) return;
+        safeStorageSet({ [scopedKey("recentActions", scope)]: applyMaskingPolicy(actions, policy) });
     } catch (err) {
         console.warn("[BugSense] persistActions error:", err);
     }
 }
 
-async function persistScreenshotIfAvailable(screenshotDataUrl?: string) {
-    if (!screenshotDataUrl) return;
-    try {
-        chrome.storage.local.get(["recentScreenshots"], (res) => {
-            const existing: Array<{ screenshot: string; timestamp: number }> =
-                Array.isArray(res?.recentScreenshots) ? res.recentScreenshots : [];
-            const appended = [...existing, { screenshot: screenshotDataUrl, timestamp: Date.now() }].slice(-MAX_SCREENSHOTS);
-            safeStorageSet({ recentScreenshots: appended });
-        });
-    } catch (err) {
-        console.warn("[BugSense] persistScreenshotIfAvailable exception:", err);
-    }
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 //  Utility: prune old events
 // ─────────────────────────────────────────────────────────────────────────────
@@ -100,31 +117,33 @@ function pruneOld() {
 //         return null;
 //     }
 // }
+// Frames are stored by the background (IndexedDB media store + ref in recentScreenshots);
+// content scripts can't reach the extension's IndexedDB, so we only get the media id back.
 async function requestCaptureFrame(): Promise<string | null> {
     try {
         if (!chrome.runtime?.id) {
-            console.log("[replayListener] Extension context invalidated — skipping CAPTURE_FRAME");
+            console.log("[replayListener] Extension context invalidated — skipping CAPTURE_REPLAY_FRAME");
             return null; // 👈 return explicit null instead of undefined
         }
 
         const result = await new Promise<string | null>((resolve) => {
             try {
-                chrome.runtime.sendMessage({ action: "CAPTURE_FRAME" }, (resp) => {
+                chrome.runtime.sendMessage({ action: "CAPTURE_REPLAY_FRAME", viewportWidth: window.innerWidth }, (resp) => {
                     if (chrome.runtime.lastError) {
-                        console.warn("[replayListener] CAPTURE_FRAME runtime error:", chrome.runtime.lastError);
+                        console.warn("[replayListener] CAPTURE_REPLAY_FRAME runtime error:", chrome.runtime.lastError);
                         resolve(null);
                         return;
                     }
 
-                    if (resp?.success && resp.screenshot) {
-                        resolve(resp.screenshot as string);
+                    if (resp?.success && resp.mediaId) {
+                        resolve(resp.mediaId as string);
                         return;
                     }
 
                     resolve(null);
                 });
             } catch (err) {
-                console.warn("[replayListener] CAPTURE_FRAME sendMessage exception:", err);
+                console.warn("[replayListener] CAPTURE_REPLAY_FRAME sendMessage exception:", err);
                 resolve(null);
             }
         });
@@ -148,53 +167,395 @@ async function maybeCapture() {
         const now = Date.now();
         if (now - lastScreenshotTime < SCREENSHOT_THROTTLE_MS) return;
         lastScreenshotTime = now;
-        const screenshot = await requestCaptureFrame();
-        if (screenshot) await persistScreenshotIfAvailable(screenshot);
+        await requestCaptureFrame();
     } catch (err) {
         console.warn("[replayListener] maybeCapture error:", err);
     }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-//  Event handlers
+//  Recording helpers
 // ─────────────────────────────────────────────────────────────────────────────
-async function handleClick(e: MouseEvent) {
+function record(action: ActionEvent, capture = false) {
+    // navigation actions are recorded once the URL has changed; their page is where they led
+    action.page ??= relativeUrl(location.href);
+    actions.push(action);
+    pruneOld();
+    persistActions();
+    if (capture) maybeCapture();
+}
+
+/** Mutable tail action of a given type (scroll / resize settle into one entry) */
+function lastActionOf<T extends ActionEvent["type"]>(type: T): ActionOfType<T> | null {
+    const last = actions[actions.length - 1];
+    return last?.type === type ? (last as ActionOfType<T>) : null;
+}
+
+/** Innermost target, through open shadow roots */
+function eventTarget(e: Event): Element | null {
+    const t = (e.composedPath?.()[0] ?? e.target) as EventTarget | null;
+    return t instanceof Element ? t : null;
+}
+
+function isTextField(el: Element | null): el is HTMLElement {
+    if (el instanceof HTMLTextAreaElement) return true;
+    if (el instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(el.type);
+    return el instanceof HTMLElement && el.isContentEditable;
+}
+
+function isFormControl(el: Element | null): el is HTMLElement {
+    return el instanceof HTMLInputElement || el instanceof HTMLSelectElement || isTextField(el);
+}
+
+function fieldText(el: Element): string {
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) return el.value;
+    return (el as HTMLElement).innerText || "";
+}
+
+function plural(n: number, word: string) {
+    return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function relativeUrl(href: string) {
     try {
-        const target = e.target as HTMLElement | null;
-        const details = {
-            tag: target?.tagName || "unknown",
-            text: target?.innerText?.slice(0, 100) ?? null,
-            x: e.clientX,
-            y: e.clientY,
-        };
-        actions.push({ type: "click", timestamp: Date.now(), details });
-        pruneOld();
-        persistActions();
-        await maybeCapture();
-    } catch (err) {
-        console.warn("[replayListener] handleClick error:", err);
+        const u = new URL(href);
+        return scrubText(u.pathname + u.search + u.hash, policy) || "/";
+    } catch {
+        return scrubText(href, policy) || "";
     }
 }
 
-async function handleKeypress(e: KeyboardEvent) {
+/** Ranked locators for the element an action targeted; accessible names are scrubbed */
+function locate(el: Element | null): ElementLocators | null {
+    if (!el) return null;
     try {
-        const details = { key: e.key };
-        actions.push({ type: "keypress", timestamp: Date.now(), details });
-        pruneOld();
-        persistActions();
-        await maybeCapture();
+        // a masked region's text content is not a name we may keep; field labels are fine
+        const dropName = isSensitiveElement(el, policy) && !isFormControl(el);
+        return buildLocators(el, (name) => (dropName ? null : scrubText(name, policy)));
     } catch (err) {
-        console.warn("[replayListener] handleKeypress error:", err);
+        console.warn("[replayListener] locate error:", err);
+        return null;
     }
 }
 
+function guarded<E extends Event>(name: string, fn: (e: E) => void): EventListener {
+    return (e) => {
+        // events dispatched by "Replay steps" (stepRunner) are not user actions
+        if (!e.isTrusted && (window as any)[REPLAY_RUNNING_FLAG]) return;
+        try {
+            fn(e as E);
+        } catch (err) {
+            console.warn(`[replayListener] ${name} error:`, err);
+        }
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Event handlers
+// ─────────────────────────────────────────────────────────────────────────────
+function handleClick(e: MouseEvent) {
+    const target = actionableTarget(eventTarget(e)) as HTMLElement | null;
+    const pointer = (e as PointerEvent).pointerType;
+    typing = null;
+    record(
+        makeAction(
+            "click",
+            {
+                tag: target?.tagName || "unknown",
+                text: isSensitiveElement(target, policy) ? null : scrubText(target?.innerText, policy),
+                x: e.clientX,
+                y: e.clientY,
+                target: describeField(target),
+                ...(pointer === "touch" || pointer === "pen" ? { pointer } : {}),
+            },
+            locate(target)
+        ),
+        true
+    );
+}
+
+function typingSummary(chars: number, deleted: number, field: string, masked: boolean) {
+    const summary = chars
+        ? `typed ${plural(chars, "character")} into ${field}${deleted ? ` (${deleted} deleted)` : ""}`
+        : `deleted ${plural(deleted, "character")} in ${field}`;
+    return masked ? `${summary} (masked)` : summary;
+}
+
+/**
+ * Typing is measured from the field's length, not from keys, so Backspace, paste, autocorrect
+ * and IME composition all count. Edits in the same field closer than TYPING_GAP_MS are
+ * coalesced into one "input" action.
+ */
+function recordTyping(target: HTMLElement, data: string | null) {
+    const length = fieldText(target).length;
+    const before = knownLength.get(target);
+    knownLength.set(target, length);
+
+    const masked = isSensitiveElement(target, policy);
+    if (masked && policy.sensitiveFields === "suppress") return;
+
+    const delta = before === undefined ? data?.length ?? 1 : length - before;
+    let inserted = Math.max(delta, 0);
+    let removed = Math.max(-delta, 0);
+    if (delta === 0 && data) {
+        // a selection replaced by text of the same length
+        inserted = data.length;
+        removed = data.length;
+    }
+    if (!inserted && !removed) return;
+
+    const field = describeField(target);
+    const value = masked || !policy.recordTypedText ? undefined : scrubText(fieldText(target), policy);
+    const now = Date.now();
+
+    if (typing && typing.target === target && now - typing.lastAt < TYPING_GAP_MS) {
+        const d = typing.action.details;
+        d.chars += inserted;
+        d.deleted = (d.deleted || 0) + removed || undefined;
+        d.value = value;
+        d.summary = typingSummary(d.chars, d.deleted || 0, field, masked);
+        typing.lastAt = now;
+        persistActions();
+        maybeCapture();
+        return;
+    }
+
+    const action = makeAction("input", {
+        field,
+        chars: inserted,
+        deleted: removed || undefined,
+        masked,
+        value,
+        summary: typingSummary(inserted, removed, field, masked),
+    }, locate(target));
+    typing = { target, action, lastAt: now };
+    record(action, true);
+}
+
+function handleInput(e: InputEvent) {
+    if (e.isComposing) return; // IME: counted once, on compositionend
+    const target = eventTarget(e);
+    if (isTextField(target)) recordTyping(target, e.data); // other controls are recorded on change
+}
+
+function handleCompositionEnd(e: CompositionEvent) {
+    const target = eventTarget(e);
+    if (isTextField(target)) recordTyping(target, e.data);
+}
+
+/** Only keys with an effect of their own; text keys arrive through handleInput */
+function handleKeydown(e: KeyboardEvent) {
+    if (e.isComposing || e.repeat || !RECORDED_KEYS.has(e.key)) return;
+    typing = null;
+    const target = eventTarget(e);
+    record(makeAction("keypress", { key: e.key, field: describeField(target) }, locate(target)), e.key === "Enter");
+}
+
+function handleChange(e: Event) {
+    const target = eventTarget(e);
+    if (isTextField(target)) return; // already recorded as typing
+    if (!(target instanceof HTMLInputElement || target instanceof HTMLSelectElement)) return;
+    const masked = isSensitiveElement(target, policy);
+    if (masked && policy.sensitiveFields === "suppress") return;
+
+    const details: ChangeDetails = {
+        field: describeField(target),
+        control: target instanceof HTMLSelectElement ? "select" : target.type,
+        masked,
+    };
+    if (!masked) {
+        if (target instanceof HTMLSelectElement) {
+            details.choice = scrubText(Array.from(target.selectedOptions).map((o) => o.label).join(", "), policy);
+        } else if (target.type === "checkbox") {
+            details.checked = target.checked;
+        } else if (target.type === "radio") {
+            details.checked = target.checked;
+            details.choice = scrubText(target.value, policy);
+        } else if (target.type === "file") {
+            details.files = target.files?.length ?? 0;
+        } else {
+            details.choice = scrubText(target.value, policy); // range, date, color…
+        }
+    }
+    typing = null;
+    record(makeAction("change", details, locate(target)), true);
+}
+
+function handleSubmit(e: Event) {
+    const form = eventTarget(e);
+    if (!(form instanceof HTMLFormElement)) return;
+    typing = null;
+    record(
+        makeAction("submit", {
+            form: describeField(form),
+            method: (form.getAttribute("method") || "get").toUpperCase(),
+            fields: form.elements.length,
+        }, locate(form)),
+        true
+    );
+}
+
+function handleFocusChange(e: FocusEvent) {
+    const target = eventTarget(e);
+    if (!isFormControl(target)) return;
+    const details = { field: describeField(target), masked: isSensitiveElement(target, policy) };
+    if (e.type === "focusin") {
+        if (isTextField(target)) knownLength.set(target, fieldText(target).length);
+        record(makeAction("focus", details, locate(target)));
+    } else {
+        typing = null;
+        record(makeAction("blur", details, locate(target)));
+    }
+}
+
+function settle(key: EventTarget, fn: () => void) {
+    clearTimeout(settleTimers.get(key));
+    settleTimers.set(
+        key,
+        window.setTimeout(() => {
+            settleTimers.delete(key);
+            fn();
+        }, SETTLE_MS)
+    );
+}
+
+function handleScroll(e: Event) {
+    const el = e.target instanceof Element && e.target !== document.scrollingElement ? e.target : null;
+    settle(el || document, () => {
+        const target = el ? describeField(el) : "page";
+        const x = Math.round(el ? el.scrollLeft : window.scrollX);
+        const y = Math.round(el ? el.scrollTop : window.scrollY);
+        const last = lastActionOf("scroll");
+        if (last && last.details.target === target) {
+            last.details.x = x;
+            last.details.y = y;
+            last.timestamp = Date.now();
+            persistActions();
+            return;
+        }
+        record(makeAction("scroll", { target, x, y }, locate(el)));
+    });
+}
+
+function handleResize() {
+    settle(window, () => {
+        const size = { width: window.innerWidth, height: window.innerHeight };
+        const last = lastActionOf("resize");
+        if (last) {
+            last.details = size;
+            last.timestamp = Date.now();
+            persistActions();
+            return;
+        }
+        record(makeAction("resize", size));
+    });
+}
+
+function handleDragStart(e: DragEvent) {
+    typing = null;
+    const source = eventTarget(e);
+    dragging = makeAction("drag", { source: describeField(source), target: null, dropped: false }, locate(source));
+    record(dragging);
+}
+
+function handleDrop(e: DragEvent) {
+    const dropTarget = eventTarget(e);
+    const target = describeField(dropTarget);
+    const dropLocators = locate(dropTarget) || undefined;
+    if (dragging) {
+        dragging.details.target = target;
+        dragging.details.dropLocators = dropLocators;
+        dragging.details.dropped = true;
+        dragging = null;
+        persistActions();
+        maybeCapture();
+        return;
+    }
+    // dragged in from outside the page (files, text from another window) — names are not kept
+    const files = e.dataTransfer?.files?.length || 0;
+    const source = files ? `${plural(files, "file")} from outside the page` : "content from outside the page";
+    record(makeAction("drag", { source, target, dropped: true, dropLocators }), true);
+}
+
+function handleDragEnd() {
+    dragging = null; // cancelled drags keep dropped: false
+}
+
+function handleTouchStart(e: TouchEvent) {
+    const t = e.touches[0];
+    if (!t) return;
+    if (touchStart) {
+        touchStart.fingers = Math.max(touchStart.fingers, e.touches.length);
+        return;
+    }
+    touchStart = { x: t.clientX, y: t.clientY, target: eventTarget(e), fingers: e.touches.length };
+}
+
+/** Swipes and pinches only — taps already arrive as clicks with pointer "touch" */
+function handleTouchEnd(e: TouchEvent) {
+    if (!touchStart || e.touches.length > 0) return; // wait for the last finger
+    const start = touchStart;
+    touchStart = null;
+    const t = e.changedTouches[0];
+    if (!t) return;
+
+    const base = { target: describeField(start.target), x: Math.round(start.x), y: Math.round(start.y) };
+    if (start.fingers > 1) {
+        record(makeAction("touch", { gesture: "pinch", ...base }, locate(start.target)));
+        return;
+    }
+    const dx = t.clientX - start.x;
+    const dy = t.clientY - start.y;
+    if (Math.hypot(dx, dy) < SWIPE_MIN_PX) return;
+    const direction = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? "right" : "left") : dy > 0 ? "down" : "up";
+    record(makeAction("touch", { gesture: "swipe", direction, ...base }, locate(start.target)));
+}
+
+function recordNavigation(kind: NavigationDetails["kind"], href = location.href) {
+    if (href === lastUrl) return; // replaceState with the same URL, popstate + hashchange pairs
+    const from = relativeUrl(lastUrl);
+    lastUrl = href;
+    typing = null;
+    record(makeAction("navigation", { kind, from, to: relativeUrl(href) }), true);
+}
+
+/** pushState / replaceState, reported by the MAIN world pageHistoryHook */
+function handlePageMessage(ev: MessageEvent) {
+    if (ev.source !== window) return;
+    const data = ev.data;
+    if (!data || data.source !== "bugsense-page" || data.channel !== "navigation") return;
+    const kind = data.payload?.kind === "replaceState" ? "replaceState" : "pushState";
+    recordNavigation(kind, typeof data.payload?.url === "string" ? data.payload.url : location.href);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 //  Listener management
 // ─────────────────────────────────────────────────────────────────────────────
+const LISTENERS: [string, EventListener, AddEventListenerOptions][] = [
+    ["click", guarded("handleClick", handleClick), { capture: true }],
+    ["input", guarded("handleInput", handleInput), { capture: true }],
+    ["compositionend", guarded("handleCompositionEnd", handleCompositionEnd), { capture: true }],
+    ["keydown", guarded("handleKeydown", handleKeydown), { capture: true }],
+    ["change", guarded("handleChange", handleChange), { capture: true }],
+    ["submit", guarded("handleSubmit", handleSubmit), { capture: true }],
+    ["focusin", guarded("handleFocusChange", handleFocusChange), { capture: true }],
+    ["focusout", guarded("handleFocusChange", handleFocusChange), { capture: true }],
+    ["scroll", guarded("handleScroll", handleScroll), { capture: true, passive: true }],
+    ["resize", guarded("handleResize", handleResize), { passive: true }],
+    ["dragstart", guarded("handleDragStart", handleDragStart), { capture: true }],
+    ["drop", guarded("handleDrop", handleDrop), { capture: true }],
+    ["dragend", guarded("handleDragEnd", handleDragEnd), { capture: true }],
+    ["touchstart", guarded("handleTouchStart", handleTouchStart), { capture: true, passive: true }],
+    ["touchend", guarded("handleTouchEnd", handleTouchEnd), { capture: true, passive: true }],
+    ["touchcancel", guarded("touchcancel", () => (touchStart = null)), { capture: true, passive: true }],
+    ["popstate", guarded("popstate", () => recordNavigation("popstate")), {}],
+    ["hashchange", guarded("hashchange", () => recordNavigation("hashchange")), {}],
+    ["message", guarded("handlePageMessage", handlePageMessage), {}],
+];
+
 function addListeners() {
     try {
-        window.addEventListener("click", handleClick, true);
-        window.addEventListener("keypress", handleKeypress, true);
+        LISTENERS.forEach(([type, fn, options]) => window.addEventListener(type, fn, options));
         console.log("[BugSense Replay Listener] listeners attached");
     } catch (err) {
         console.warn("[replayListener] addListeners error:", err);
@@ -203,8 +564,7 @@ function addListeners() {
 
 function removeListeners() {
     try {
-        window.removeEventListener("click", handleClick, true);
-        window.removeEventListener("keypress", handleKeypress, true);
+        LISTENERS.forEach(([type, fn, options]) => window.removeEventListener(type, fn, { capture: options.capture }));
         console.log("[BugSense Replay Listener] listeners removed");
     } catch (err) {
         console.warn("[replayListener] removeListeners error:", err);
@@ -215,18 +575,32 @@ function removeListeners() {
 //  Initialization logic
 // ─────────────────────────────────────────────────────────────────────────────
 function init() {
-    try {
-        chrome.storage.local.get(["recentActions", "recentScreenshots"], (res) => {
-            try {
-                const existing: ActionEvent[] = Array.isArray(res?.recentActions) ? res.recentActions : [];
-                actions = existing.filter((a) => Date.now() - a.timestamp < MAX_BUFFER_TIME);
-            } catch {
-                actions = [];
-            }
-        });
-    } catch (err) {
-        console.warn("[replayListener] init storage get error:", err);
-    }
+    lastUrl = location.href;
+    getMaskingPolicy().then((p) => (policy = p));
+    resolveContentScope()
+        .then((scope) => {
+            if (!scope) return;
+            const key = scopedKey("recentActions", scope);
+            chrome.storage.local.get([key], (res) => {
+                try {
+                    // actions recorded while the read was in flight come after the stored ones
+                    const existing = normalizeActions(res?.[key]);
+                    const recorded = actions;
+                    actions = [
+                        ...applyMaskingPolicy(
+                            existing.filter((a) => Date.now() - a.timestamp < MAX_BUFFER_TIME),
+                            policy
+                        ),
+                        ...recorded,
+                    ];
+                    // their writes replaced the buffer without the stored actions
+                    if (recorded.length) persistActions();
+                } catch {
+                    // keep what this page recorded so far
+                }
+            });
+        })
+        .catch((err) => console.warn("[replayListener] init storage get error:", err));
     addListeners();
 }
 
@@ -251,19 +625,6 @@ window.addEventListener("pagehide", () => {
     }
 });
 
-// ─────────────────────────────────────────────────────────────────────────────
-//  Cleanup and trimming on unload (prevent memory bloat)
-// ─────────────────────────────────────────────────────────────────────────────
-window.addEventListener("beforeunload", () => {
-    try {
-        chrome.storage.local.get(["recentScreenshots"], (res) => {
-            const arr = Array.isArray(res?.recentScreenshots) ? res.recentScreenshots : [];
-            const trimmed = arr.slice(-MAX_SCREENSHOTS);
-            safeStorageSet({ recentScreenshots: trimmed });
-        });
-    } catch { }
-});
-
 // ─────────────────────────────────────────────────────────────────────────────
 //  Message listener for replay requests
 // ─────────────────────────────────────────────────────────────────────────────
@@ -271,7 +632,7 @@ chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
     try {
         if (msg?.action === "GET_REPLAY_LOGS") {
             pruneOld();
-            sendResponse({ success: true, actions: actions.slice() });
+            sendResponse({ success: true, actions: applyMaskingPolicy(actions, policy) });
         }
     } catch (err) {
         console.warn("[replayListener] onMessage handler error:", err);
@@ -282,6 +643,17 @@ chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
     return true;
 });
 
+// Policy edits apply to the next write
+try {
+    chrome.storage.onChanged.addListener((changes, area) => {
+        if (area !== "local" || !changes[MASKING_POLICY_KEY]) return;
+        policy = { ...DEFAULT_MASKING_POLICY, ...(changes[MASKING_POLICY_KEY].newValue || {}) };
+        persistActions();
+    });
+} catch (err) {
+    console.warn("[replayListener] policy listener error:", err);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 //  Initialize script
 // ─────────────────────────────────────────────────────────────────────────────
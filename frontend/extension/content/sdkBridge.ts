@@ -0,0 +1,179 @@
+// extension/content/sdkBridge.ts
+// Isolated-world half of the page API (window.BugSense, see pageSdk.ts). Runs at document_start
+// so early breadcrumbs are not lost. Nothing is kept unless the origin opted in
+// ("pageSdkSettings"): breadcrumbs go to the scoped buffer "recentBreadcrumbs", context and user
+// stay in memory for the page's lifetime, and state providers are called on GET_SDK_SNAPSHOT.
+// Every value (breadcrumb data, context, user traits, state) is scrubbed under the masking
+// policy before it is kept.
+// Errors from BugSense.captureError travel on the console channel (consoleListener).
+import { resolveContentScope, scopedKey } from "../utils/tabScope";
+import {
+    PAGE_SDK_SETTINGS_KEY,
+    SDK_LIMITS,
+    SdkBreadcrumb,
+    SdkSnapshot,
+    SdkUser,
+    clampJson,
+    getPageSdkSettings,
+    isPageSdkEnabled,
+} from "../utils/pageSdk";
+import { DEFAULT_MASKING_POLICY, MaskingPolicy, getMaskingPolicy, scrubPatterns } from "../utils/maskingPolicy";
+
+(function () {
+    const BASE_KEY = "recentBreadcrumbs";
+    const STATE_TIMEOUT_MS = 1500;
+
+    let enabled = false;
+    let policy: MaskingPolicy = DEFAULT_MASKING_POLICY;
+    let context: Record<string, any> = {};
+    let user: SdkUser | null = null;
+    let requestCounter = 0;
+    const pendingState = new Map<string, (state: Record<string, any>) => void>();
+
+    const refreshSettings = () =>
+        getPageSdkSettings().then((s) => {
+            enabled = isPageSdkEnabled(s, location.origin);
+            if (!enabled) {
+                context = {};
+                user = null;
+            }
+        });
+    const ready = Promise.all([refreshSettings(), getMaskingPolicy().then((p) => (policy = p))]);
+
+    try {
+        chrome.storage.onChanged.addListener((changes, areaName) => {
+            if (areaName === "local" && changes[PAGE_SDK_SETTINGS_KEY]) refreshSettings();
+        });
+    } catch {
+        // context invalidated
+    }
+
+    // Serialize writes: bursts of breadcrumbs would otherwise race on get/set
+    let writeChain: Promise<void> = Promise.resolve();
+
+    function pushBreadcrumb(crumb: SdkBreadcrumb) {
+        writeChain = writeChain.then(async () => {
+            const scope = await resolveContentScope();
+            if (!scope) return;
+            const KEY = scopedKey(BASE_KEY, scope);
+            await new Promise<void>((resolve) => {
+                try {
+                    if (!chrome?.storage?.local) return resolve();
+                    chrome.storage.local.get([KEY], (res) => {
+                        const arr = Array.isArray(res?.[KEY]) ? res[KEY] : [];
+                        arr.push(crumb);
+                        chrome.storage.local.set({ [KEY]: arr.slice(-SDK_LIMITS.breadcrumbs) }, () => resolve());
+                    });
+                } catch (err) {
+                    // context invalidated — ignore
+                    resolve();
+                }
+            });
+        });
+    }
+
+    // state and context arrive through postMessage, so they may be cyclic
+    function scrubDeep(value: any, seen = new WeakSet<object>()): any {
+        if (typeof value === "string") return scrubPatterns(value, policy);
+        if (!value || typeof value !== "object") return value;
+        if (seen.has(value)) return "[Circular]";
+        seen.add(value);
+        if (Array.isArray(value)) return value.map((v) => scrubDeep(v, seen));
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, scrubDeep(v, seen)]));
+    }
+
+    function setContext(name: string, value: any) {
+        if (value === null) delete context[name];
+        else context[name] = clampJson(scrubDeep(value), SDK_LIMITS.contextBytes);
+        // whole context over budget: drop the oldest entries
+        const names = Object.keys(context);
+        while (names.length > 1 && JSON.stringify(context).length > SDK_LIMITS.contextBytes) {
+            delete context[names.shift()!];
+        }
+    }
+
+    function handle(payload: any) {
+        switch (payload?.type) {
+            case "breadcrumb": {
+                const b = payload.breadcrumb || {};
+                const crumb: SdkBreadcrumb = {
+                    ts: Number(b.ts) || Date.now(),
+                    message: scrubPatterns(String(b.message || ""), policy),
+                    ...(b.category ? { category: String(b.category) } : {}),
+                    ...(b.level ? { level: b.level } : {}),
+                    ...(b.data !== undefined ? { data: clampJson(scrubDeep(b.data), SDK_LIMITS.breadcrumbBytes) } : {}),
+                };
+                pushBreadcrumb(crumb);
+                break;
+            }
+            case "context":
+                if (payload.name) setContext(String(payload.name), payload.value ?? null);
+                break;
+            case "user": {
+                // traits are scrubbed like recorded text; the id already arrives hashed
+                const next = payload.user ? { ...scrubDeep(payload.user), idHash: payload.user.idHash ?? null } : null;
+                user = next ? clampJson(next, SDK_LIMITS.userBytes) : null;
+                break;
+            }
+            case "state": {
+                const resolve = pendingState.get(payload.requestId);
+                if (resolve) resolve(payload.state || {});
+                break;
+            }
+        }
+    }
+
+    window.addEventListener("message", (ev: MessageEvent) => {
+        if (ev.source !== window) return;
+        const data = ev.data;
+        if (!data || data.source !== "bugsense-page" || data.channel !== "sdk") return;
+        ready.then(() => {
+            if (enabled) handle(data.payload);
+        });
+    });
+
+    function requestState(): Promise<Record<string, any>> {
+        const requestId = `s${Date.now()}_${++requestCounter}`;
+        return new Promise((resolve) => {
+            const done = (state: Record<string, any>) => {
+                clearTimeout(timer);
+                pendingState.delete(requestId);
+                resolve(state);
+            };
+            const timer = setTimeout(() => done({}), STATE_TIMEOUT_MS);
+            pendingState.set(requestId, done);
+            window.postMessage({ source: "bugsense-extension", channel: "sdk-state-request", requestId }, "*");
+        });
+    }
+
+    function limitState(state: Record<string, any>) {
+        const out: Record<string, any> = {};
+        let total = 0;
+        for (const [name, value] of Object.entries(state)) {
+            const clamped = clampJson(scrubDeep(value), SDK_LIMITS.stateBytes);
+            const size = JSON.stringify(clamped).length;
+            if (total + size > SDK_LIMITS.totalStateBytes) {
+                out[name] = { truncated: true, reason: "total state limit reached" };
+                continue;
+            }
+            out[name] = clamped;
+            total += size;
+        }
+        return out;
+    }
+
+    chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+        if (msg?.action !== "GET_SDK_SNAPSHOT") return;
+        ready
+            .then(async () => {
+                if (!enabled) {
+                    sendResponse({ success: true, enabled: false, snapshot: null });
+                    return;
+                }
+                const snapshot: SdkSnapshot = { context, user, state: limitState(await requestState()) };
+                sendResponse({ success: true, enabled: true, snapshot });
+            })
+            .catch((err) => sendResponse({ success: false, error: String(err) }));
+        return true; // async
+    });
+})();
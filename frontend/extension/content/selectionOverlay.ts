@@ -1,4 +1,9 @@
 // extension/content/selectionOverlay.ts
+import { DESCRIBE_ELEMENT_FN, ELEMENT_TARGET_ATTR, describeElement } from "../utils/elementInfo";
+
+// DevTools "Selected element" describes $0 by calling this in our world (useContentScriptContext)
+(window as any)[DESCRIBE_ELEMENT_FN] = (el: unknown) => (el instanceof Element ? describeElement(el) : null);
+
 type SelectionRect = { x: number; y: number; width: number; height: number };
 
 let overlay: HTMLDivElement | null = null;
@@ -139,9 +144,112 @@ function startSingleSelection(): void {
     window.addEventListener("keydown", onKeyDown);
 }
 
+// ─────────────────────────────────────────────────────────────
+//  Element picker: hover outlines an element, click captures its box
+// ─────────────────────────────────────────────────────────────
+let picking = false;
+
+function startElementPicker(): void {
+    if (picking || active) return;
+    picking = true;
+
+    // pointer-events: none so elementFromPoint sees the page underneath
+    const highlight = document.createElement("div");
+    Object.assign(highlight.style, {
+        position: "fixed",
+        border: "2px solid #00bfff",
+        background: "rgba(0, 191, 255, 0.15)",
+        boxSizing: "border-box",
+        pointerEvents: "none",
+        zIndex: "2147483647",
+        display: "none",
+    } as Partial<CSSStyleDeclaration>);
+
+    const label = document.createElement("div");
+    Object.assign(label.style, {
+        position: "fixed",
+        padding: "2px 6px",
+        font: "11px/16px monospace",
+        color: "#fff",
+        background: "#00bfff",
+        borderRadius: "3px",
+        pointerEvents: "none",
+        zIndex: "2147483647",
+        display: "none",
+    } as Partial<CSSStyleDeclaration>);
+
+    document.documentElement.append(highlight, label);
+    let hovered: Element | null = null;
+
+    const onMove = (ev: MouseEvent) => {
+        const el = document.elementFromPoint(ev.clientX, ev.clientY);
+        if (!el || el === hovered || el === document.documentElement) return;
+        hovered = el;
+        const r = el.getBoundingClientRect();
+        Object.assign(highlight.style, {
+            display: "block",
+            left: `${r.left}px`,
+            top: `${r.top}px`,
+            width: `${r.width}px`,
+            height: `${r.height}px`,
+        });
+        label.textContent = `${el.tagName.toLowerCase()} ${Math.round(r.width)}×${Math.round(r.height)}`;
+        Object.assign(label.style, {
+            display: "block",
+            left: `${Math.max(0, r.left)}px`,
+            top: `${r.top > 20 ? r.top - 20 : r.bottom + 2}px`,
+        });
+    };
+
+    // Swallow the page's own handlers while picking
+    const block = (ev: Event) => {
+        ev.preventDefault();
+        ev.stopPropagation();
+    };
+
+    const stop = () => {
+        picking = false;
+        document.removeEventListener("mousemove", onMove, true);
+        document.removeEventListener("click", onClick, true);
+        document.removeEventListener("mousedown", block, true);
+        document.removeEventListener("mouseup", block, true);
+        window.removeEventListener("keydown", onKeyDown, true);
+        highlight.remove();
+        label.remove();
+    };
+
+    const onClick = (ev: MouseEvent) => {
+        block(ev);
+        const el = hovered;
+        stop();
+        if (!el) return;
+
+        const element = describeElement(el);
+        // The background finds the element again through this marker (and removes it afterwards)
+        el.setAttribute(ELEMENT_TARGET_ATTR, "");
+        chrome.runtime.sendMessage({ action: "CAPTURE_ELEMENT", element });
+    };
+
+    const onKeyDown = (ev: KeyboardEvent) => {
+        if (ev.key === "Escape") {
+            block(ev);
+            stop();
+        }
+    };
+
+    document.addEventListener("mousemove", onMove, true);
+    document.addEventListener("click", onClick, true);
+    document.addEventListener("mousedown", block, true);
+    document.addEventListener("mouseup", block, true);
+    window.addEventListener("keydown", onKeyDown, true);
+}
+
 /** Listener entry */
 chrome.runtime.onMessage.addListener((msg) => {
     if (msg.action === "START_SELECTIVE_CAPTURE") {
         startSingleSelection();
     }
+    if (msg.action === "START_ELEMENT_PICKER") {
+        startElementPicker();
+    }
 });
@@ -0,0 +1,308 @@
+// extension/content/stepRunner.ts
+// "Replay steps": re-runs recorded replay actions in the page to check that a bug reproduces.
+// Elements are found through the recorded locators (utils/locators.ts), clicks and typing are
+// dispatched as DOM events with the recorded pacing, and the page's console errors (posted by
+// pageConsoleHook) are fingerprinted and compared with the bug's. Started by
+// background/stepReplay.ts after it has reloaded the tab at the recording's start URL.
+import { ActionEvent, normalizeActions } from "../utils/replayBuffer";
+import { ElementLocators, accessibleName, implicitRole } from "../utils/locators";
+import { describeAction } from "../utils/replaySteps";
+import { fingerprintError } from "../utils/errorFingerprint";
+import { ObservedError, REPLAY_RUNNING_FLAG, ReplayRunResult } from "../utils/replayRun";
+
+(function () {
+    const MIN_STEP_DELAY_MS = 100;
+    const MAX_STEP_DELAY_MS = 3000; // long pauses in the recording are shortened
+    const FIND_TIMEOUT_MS = 5000; // SPAs render late: keep looking for an element this long
+    const URL_TIMEOUT_MS = 5000;
+    const POLL_MS = 100;
+    const SETTLE_MS = 2000; // async errors after the last step
+    const MASKED_URL = /\[(email|card|number)\]/;
+
+    let running = false;
+
+    const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+    async function waitFor<T>(probe: () => T | null, timeout: number): Promise<T | null> {
+        const until = Date.now() + timeout;
+        for (; ;) {
+            const found = probe();
+            if (found) return found;
+            if (Date.now() >= until) return null;
+            await sleep(POLL_MS);
+        }
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Locating recorded elements
+    // ─────────────────────────────────────────────────────────────────────────
+    /** Document / shadow root the locators are relative to; null while a host is missing */
+    function rootFor(loc: ElementLocators): Document | ShadowRoot | null {
+        let root: Document | ShadowRoot = document;
+        for (const sel of loc.shadowHosts || []) {
+            const host: Element | null = root.querySelector(sel);
+            if (!host?.shadowRoot) return null;
+            root = host.shadowRoot;
+        }
+        return root;
+    }
+
+    function findByRole(root: Document | ShadowRoot, role: string, name: string): Element | null {
+        const wanted = name.replace(/…$/, ""); // recorded names are clipped
+        for (const el of Array.from(root.querySelectorAll("*"))) {
+            if (implicitRole(el) !== role) continue;
+            const actual = accessibleName(el, role);
+            if (actual === name || (wanted && actual.startsWith(wanted))) return el;
+        }
+        return null;
+    }
+
+    function findElement(loc: ElementLocators): Element | null {
+        const root = rootFor(loc);
+        if (!root) return null;
+        // locators known to match several elements only after the unique ones
+        const ordered = [...loc.ranked.filter((l) => l.unique !== false), ...loc.ranked.filter((l) => l.unique === false)];
+        for (const l of ordered) {
+            try {
+                let el: Element | null = null;
+                if (l.kind === "role") {
+                    if (loc.role && loc.name) el = findByRole(root, loc.role, loc.name);
+                } else if (l.kind === "xpath") {
+                    const doc = root instanceof Document ? root : root.ownerDocument;
+                    const node = doc.evaluate(l.value, root, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue;
+                    el = node instanceof Element ? node : null;
+                } else {
+                    el = root.querySelector(l.value);
+                }
+                if (el) return el;
+            } catch {
+                // selector no longer valid in this document — try the next one
+            }
+        }
+        return null;
+    }
+
+    /** Element for an action; legacy actions without locators fall back to the click position */
+    function locate(action: ActionEvent): Promise<Element | null> {
+        if (action.locators) return waitFor(() => findElement(action.locators!), FIND_TIMEOUT_MS);
+        if (action.type === "click") {
+            return Promise.resolve(document.elementFromPoint(action.details.x, action.details.y));
+        }
+        return Promise.resolve(null);
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Dispatching
+    // ─────────────────────────────────────────────────────────────────────────
+    function center(el: Element) {
+        const r = el.getBoundingClientRect();
+        return { clientX: r.left + r.width / 2, clientY: r.top + r.height / 2 };
+    }
+
+    function click(el: Element) {
+        el.scrollIntoView({ block: "center", inline: "center" });
+        const init = { bubbles: true, cancelable: true, composed: true, view: window, ...center(el) };
+        el.dispatchEvent(new PointerEvent("pointerdown", { ...init, pointerType: "mouse" }));
+        el.dispatchEvent(new MouseEvent("mousedown", init));
+        if (el instanceof HTMLElement) el.focus();
+        el.dispatchEvent(new PointerEvent("pointerup", { ...init, pointerType: "mouse" }));
+        el.dispatchEvent(new MouseEvent("mouseup", init));
+        el.dispatchEvent(new MouseEvent("click", init));
+    }
+
+    function fire(el: Element, type: "input" | "change") {
+        const event = type === "input"
+            ? new InputEvent("input", { bubbles: true, composed: true, inputType: "insertText" })
+            : new Event("change", { bubbles: true });
+        el.dispatchEvent(event);
+    }
+
+    function setText(el: Element, text: string) {
+        if (el instanceof HTMLElement) el.focus();
+        if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+            el.value = text;
+        } else if (el instanceof HTMLElement && el.isContentEditable) {
+            el.textContent = text;
+        } else {
+            return false;
+        }
+        fire(el, "input");
+        fire(el, "change");
+        return true;
+    }
+
+    function pressKey(el: Element, key: string) {
+        const init = { key, code: key, bubbles: true, cancelable: true, composed: true };
+        const proceed = el.dispatchEvent(new KeyboardEvent("keydown", init));
+        el.dispatchEvent(new KeyboardEvent("keyup", init));
+        // synthetic Enter doesn't trigger implicit form submission
+        if (proceed && key === "Enter" && el instanceof HTMLInputElement && el.form) el.form.requestSubmit();
+    }
+
+    function dragTo(source: Element, target: Element) {
+        const dataTransfer = new DataTransfer();
+        const init = { bubbles: true, cancelable: true, composed: true, dataTransfer };
+        source.dispatchEvent(new DragEvent("dragstart", { ...init, ...center(source) }));
+        target.dispatchEvent(new DragEvent("dragenter", { ...init, ...center(target) }));
+        target.dispatchEvent(new DragEvent("dragover", { ...init, ...center(target) }));
+        target.dispatchEvent(new DragEvent("drop", { ...init, ...center(target) }));
+        source.dispatchEvent(new DragEvent("dragend", init));
+    }
+
+    function currentPath() {
+        return location.pathname + location.search + location.hash;
+    }
+
+    /** Performs one action. Returns a failure reason, "skip" or null on success */
+    async function perform(action: ActionEvent, warnings: string[]): Promise<string | null> {
+        switch (action.type) {
+            case "submit":
+                return null; // submitted by the recorded click / Enter before it
+            case "resize":
+            case "touch":
+                return "skip";
+            case "navigation": {
+                const d = action.details;
+                if (d.kind === "popstate") history.back();
+                if (MASKED_URL.test(d.to)) return null;
+                const reached = await waitFor(() => currentPath() === d.to || null, URL_TIMEOUT_MS);
+                if (!reached) warnings.push(`Expected ${d.to}, page is at ${currentPath()}`);
+                return null;
+            }
+            case "scroll": {
+                const { x, y } = action.details;
+                if (!action.locators) {
+                    window.scrollTo(x, y);
+                    return null;
+                }
+                break;
+            }
+            case "change":
+                if (action.details.control === "file") return "skip";
+                break;
+        }
+
+        const el = await locate(action);
+        if (!el) return "element not found";
+
+        switch (action.type) {
+            case "click":
+                click(el);
+                return null;
+            case "keypress":
+                pressKey(el, action.details.key);
+                return null;
+            case "input": {
+                const d = action.details;
+                const text = d.value != null && !d.masked ? d.value : "x".repeat(d.chars);
+                return setText(el, text) ? null : "element is not editable";
+            }
+            case "change": {
+                const d = action.details;
+                if (d.masked) return "skip";
+                if (el instanceof HTMLSelectElement) {
+                    const option = Array.from(el.options).find((o) => o.label === d.choice || o.value === d.choice);
+                    if (!option) return `option "${d.choice}" not found`;
+                    el.value = option.value;
+                    fire(el, "input");
+                    fire(el, "change");
+                    return null;
+                }
+                if (el instanceof HTMLInputElement && (el.type === "checkbox" || el.type === "radio")) {
+                    if (el.checked !== Boolean(d.checked)) click(el);
+                    return null;
+                }
+                return setText(el, d.choice || "") ? null : "element is not editable";
+            }
+            case "scroll":
+                el.scrollTo(action.details.x, action.details.y);
+                return null;
+            case "focus":
+                if (el instanceof HTMLElement) el.focus();
+                return null;
+            case "blur":
+                if (el instanceof HTMLElement) el.blur();
+                return null;
+            case "drag": {
+                const d = action.details;
+                const target = d.dropped && d.dropLocators ? await waitFor(() => findElement(d.dropLocators!), FIND_TIMEOUT_MS) : null;
+                if (!target) return d.dropped ? "drop target not found" : "skip";
+                dragTo(el, target);
+                return null;
+            }
+        }
+        return null;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    //  Run
+    // ─────────────────────────────────────────────────────────────────────────
+    async function runSteps(actions: ActionEvent[], expectedFingerprint: string | null): Promise<ReplayRunResult> {
+        const result: ReplayRunResult = {
+            status: "not_reproduced",
+            startedAt: Date.now(),
+            finishedAt: 0,
+            totalSteps: actions.length,
+            stepsRun: 0,
+            expectedFingerprint,
+            observedErrors: [],
+            skipped: [],
+            warnings: [],
+        };
+
+        const matches = (e: ObservedError) => !expectedFingerprint || e.fingerprint === expectedFingerprint;
+        const onPageMessage = (ev: MessageEvent) => {
+            const data = ev.data;
+            if (ev.source !== window || data?.source !== "bugsense-page" || data.channel !== "console") return;
+            if (data.payload?.level !== "error") return;
+            const observed = { message: String(data.payload.message || ""), fingerprint: fingerprintError(data.payload) };
+            result.observedErrors.push(observed);
+            if (!result.matchedError && matches(observed)) result.matchedError = observed;
+        };
+
+        window.addEventListener("message", onPageMessage);
+        (window as any)[REPLAY_RUNNING_FLAG] = true;
+        try {
+            for (let i = 0; i < actions.length; i++) {
+                const action = actions[i];
+                const gap = i === 0 ? 0 : action.timestamp - actions[i - 1].timestamp;
+                await sleep(Math.min(MAX_STEP_DELAY_MS, Math.max(MIN_STEP_DELAY_MS, gap)));
+
+                const outcome = await perform(action, result.warnings);
+                result.stepsRun = i + 1;
+                if (outcome === "skip") {
+                    result.skipped.push(describeAction(action));
+                } else if (outcome) {
+                    result.status = "step_failed";
+                    result.failedStep = { index: i + 1, description: describeAction(action), reason: outcome };
+                    break;
+                }
+                if (result.matchedError) break; // reproduced — no need to go on
+            }
+            if (!result.matchedError && result.status !== "step_failed") await sleep(SETTLE_MS);
+        } finally {
+            window.removeEventListener("message", onPageMessage);
+            (window as any)[REPLAY_RUNNING_FLAG] = false;
+        }
+
+        // a step may fail *because* the bug happened (e.g. the dialog never opened)
+        if (result.matchedError) result.status = "reproduced";
+        result.finishedAt = Date.now();
+        return result;
+    }
+
+    chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+        if (msg?.action !== "RUN_REPLAY_STEPS") return;
+        if (running) {
+            sendResponse({ success: false, error: "A replay is already running in this tab" });
+            return;
+        }
+        running = true;
+        console.log("[BugSense] Replaying recorded steps…");
+        runSteps(normalizeActions(msg.actions), msg.expectedFingerprint || null)
+            .then((result) => sendResponse({ success: true, result }))
+            .catch((err) => sendResponse({ success: false, error: String(err) }))
+            .finally(() => (running = false));
+        return true;
+    });
+})();
@@ -1,8 +1,68 @@
 // extension/devtools/DevPanel.tsx
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState, useCallback, useMemo, useRef } from "react";
 // import { analyzeBug } from "../ai/analyze";
 import { FaRegCopy } from "react-icons/fa";
 import { getFormattedDate } from "../utils/formattedDate";
+import { NetworkEntry, describeNetworkEntry, selectNetworkContext } from "../utils/network";
+import { HarEntry, buildHar, downloadHar } from "../utils/har";
+import NetworkSection from "./components/NetworkSection";
+import { TabScope, clearTabBuffer, readScoped, resolveInspectedScope, scopedKey } from "../utils/tabScope";
+import { ElementInfo, summarizeElement } from "../utils/elementInfo";
+import { replayToSteps } from "../utils/replaySteps";
+import { ActionEvent, normalizeActions } from "../utils/replayBuffer";
+import { downloadTestScript, generateTestScript } from "../utils/testExport";
+import { ErrorGroup, fingerprintError, foldRepeat, groupErrors } from "../utils/errorFingerprint";
+import { ReplayRunResult, summarizeReplayRun } from "../utils/replayRun";
+import { MediaRef, getMediaObjectUrl } from "../utils/mediaStore";
+import SelectedElementSection from "./components/SelectedElementSection";
+import BugTimeline from "./components/BugTimeline";
+import { EvidenceWindow, clipToWindow, describeEvidenceWindow } from "../utils/bugTimeline";
+import { AppData, SdkBreadcrumb, SdkSnapshot } from "../utils/pageSdk";
+import { SymbolicatedStack, symbolicateStack } from "../utils/symbolication";
+import SymbolicatedStackView from "./components/SymbolicatedStackView";
+import SourceMapsSection from "./components/SourceMapsSection";
+import ConsoleToolbar from "./components/ConsoleToolbar";
+import { ConsoleFilter, loadConsoleFilter, matchesConsoleFilter, saveConsoleFilter } from "../utils/consoleFilter";
+import {
+  ERROR_INDEX_KEY,
+  ErrorIndex,
+  ErrorRecurrence,
+  appendedRow,
+  classifyError,
+  describeHistory,
+  describeRecurrence,
+  getErrorIndex,
+  isIndexedError,
+  linkBugToError,
+  setLinkedSheetRow,
+} from "../utils/errorIndex";
+import BugLibrary from "./components/BugLibrary";
+import BugEditor, { BugEditorAttachSources, BugEditorValue } from "./components/BugEditor";
+import {
+  BugEnvironment,
+  PageEnvironment,
+  completeEnvironment,
+  environmentColumns,
+  getEnvironmentSettings,
+  pageEnvironmentExpression,
+} from "../utils/environment";
+import {
+  BUG_LIBRARY_KEY,
+  BUG_STATUS_LABELS,
+  BugAiField,
+  BugDraft,
+  BugEntry,
+  BugErrorGroup,
+  BugOccurrenceNote,
+  BugReport,
+  BugStatus,
+  addBug,
+  listBugs,
+  setBugStatus,
+  storeBugImages,
+  toBugErrorGroup,
+  updateBug,
+} from "../utils/bugLibrary";
 
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { atomDark } from "react-syntax-highlighter/dist/esm/styles/prism";
@@ -11,61 +71,216 @@ import { atomDark } from "react-syntax-highlighter/dist/esm/styles/prism";
 type ConsoleErrorItem = {
   ts: number;
   type: string;
+  level?: "error" | "warn";
   message: string;
+  url?: string;
   filename?: string;
   lineno?: number;
   colno?: number;
   stack?: string | null;
   raw?: any;
+  fingerprint?: string;
+  count?: number; // repeats folded in by consoleListener; ts is the latest
+  firstSeen?: number;
 };
 
-type BugClipboard = {
-  title: string;
-  description: string;
-  steps: string[];
-  screenshotDataUrl?: string | null;
-  createdAt: string;
-  source: { type: "console" | "selection" | "image" | "link"; raw: any };
-  replayActions?: any[];
+// What callAIForBug fills when the backend answers (its offline fallback is not marked)
+const AI_FIELDS: BugAiField[] = ["title", "description", "steps"];
+
+const REPLAY_STATUS_ICON: Record<ReplayRunResult["status"], string> = {
+  reproduced: "✅",
+  not_reproduced: "❌",
+  step_failed: "⚠️",
+  interrupted: "⏹",
 };
 
+function inspectedPageUrl(): Promise<string> {
+  return new Promise((resolve) => {
+    chrome.devtools.inspectedWindow.eval("location.href", (result: any, exceptionInfo: any) => {
+      resolve(!exceptionInfo && typeof result === "string" ? result : "");
+    });
+  });
+}
 
+/** Shortens attachments for the JSON preview / copy */
+function summarizeAttachments(data: any) {
+  if (data.screenshots) {
+    data.screenshots = `${data.screenshots.length} image(s) — shown above`;
+  }
+  if (data.har) {
+    data.har = `${data.har.log.entries.length} request(s) — download the .har file`;
+  }
+  if (data.testScript) {
+    data.testScript = `${data.testScript.filename} — download the test file`;
+  }
+  if (data.domRecording) {
+    data.domRecording = `${data.domRecording.mediaId} — open in the DOM replay player`;
+  }
+  if (data.evidenceWindow) {
+    data.evidenceWindow = describeEvidenceWindow(data.evidenceWindow);
+  }
+  if (data.occurrenceNotes) {
+    data.occurrenceNotes = data.occurrenceNotes.map(
+      (n: BugOccurrenceNote) => `${new Date(n.ts).toLocaleString()}: seen ${n.count} more time(s)${n.regression ? " — regression" : ""}`
+    );
+  }
+  if (data.errorGroup) {
+    data.errorGroup = { ...data.errorGroup, occurrences: `${data.errorGroup.occurrences.length} occurrence(s) attached` };
+  }
+  if (data.symbolicatedStack) {
+    data.symbolicatedStack = data.symbolicatedStack.text;
+  }
+  if (data.appData?.state) {
+    data.appData = { ...data.appData, state: Object.keys(data.appData.state).join(", ") || "none" };
+  }
+  return data;
+}
+
+
+
+const RECURRENCE_COLORS: Record<ErrorRecurrence["status"], { background: string; color: string }> = {
+  new: { background: "#1f3d2a", color: "#8fe3a8" },
+  known: { background: "#1f2f4d", color: "#9cc2ff" },
+  regression: { background: "#5c2b2b", color: "#ffb3b3" },
+};
+
+/** "New" / "Known (filed as row 42)" / "Regression (was marked fixed)" — history on hover */
+function RecurrenceBadge({ recurrence }: { recurrence: ErrorRecurrence }) {
+  return (
+    <span
+      title={describeHistory(recurrence.entry)}
+      style={{ marginRight: 6, padding: "0 6px", borderRadius: 8, fontSize: 11, fontWeight: 600, ...RECURRENCE_COLORS[recurrence.status] }}
+    >
+      {describeRecurrence(recurrence)}
+    </span>
+  );
+}
 
 export default function DevPanel() {
   const [errors, setErrors] = useState<ConsoleErrorItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [successBanner, setSuccessBanner] = useState(false);
-  const [clipboardData, setClipboardData] = useState<BugClipboard | null>(null);
-  const [isPreviewVisible, setIsPreviewVisible] = useState(false);
+  const [replaying, setReplaying] = useState(false);
+  // Library entry shown in the preview (utils/bugLibrary.ts)
+  const [openBug, setOpenBug] = useState<BugEntry | null>(null);
+  const [screenshotUrls, setScreenshotUrls] = useState<string[]>([]);
 
   const [showExtraModal, setShowExtraModal] = useState(false);
   const [extraText, setExtraText] = useState("");
   const [onExtraConfirm, setOnExtraConfirm] = useState<null | ((text: string | null) => void)>(null);
 
-  // ... (All your useEffects and functions from createBug... to insertIntoSheet... are unchanged) ...
+  // Bug editor (new bugs are reviewed there before they are saved)
+  const [editor, setEditor] = useState<null | {
+    value: BugEditorValue;
+    isNew: boolean;
+    done: (value: BugEditorValue | null) => void;
+  }>(null);
+
+  // Tab + origin of the inspected page; every capture buffer is read through it
+  const [scope, setScope] = useState<TabScope | null>(null);
+  const scopeRef = useRef<TabScope | null>(null);
+  scopeRef.current = scope;
+  const inspectedTabId = chrome.devtools.inspectedWindow.tabId;
+
+  // Range picked on the timeline; bugs only carry the evidence inside it
+  const [evidenceWindow, setEvidenceWindow] = useState<EvidenceWindow | null>(null);
+  const evidenceWindowRef = useRef<EvidenceWindow | null>(null);
+  evidenceWindowRef.current = evidenceWindow;
+
+  // Toolbar filters (utils/consoleFilter.ts), kept for this DevTools session
+  const [consoleFilter, setConsoleFilter] = useState<ConsoleFilter>(loadConsoleFilter);
+  useEffect(() => saveConsoleFilter(consoleFilter), [consoleFilter]);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
 
+  // Repeated errors folded by fingerprint (utils/errorFingerprint.ts), most recently seen first
+  const filteredErrors = useMemo(
+    () => errors.filter((e) => matchesConsoleFilter(e, consoleFilter, evidenceWindow)),
+    [errors, consoleFilter, evidenceWindow]
+  );
+  const errorGroups = useMemo(() => groupErrors(filteredErrors), [filteredErrors]);
+
+  // Console stacks resolved through source maps (utils/symbolication.ts), by error fingerprint;
+  // null when nothing in the stack could be parsed
+  const [resolvedStacks, setResolvedStacks] = useState<Record<string, SymbolicatedStack | null>>({});
+
+  // Cross-session fingerprint index and the library bugs it links to (utils/errorIndex.ts)
+  const [errorIndex, setErrorIndex] = useState<ErrorIndex>({});
+  const [libraryBugs, setLibraryBugs] = useState<BugEntry[]>([]);
   useEffect(() => {
-    const load = () => {
-      chrome.storage.local.get(["recentConsoleErrors"], (res) => {
-        const arr = Array.isArray(res?.recentConsoleErrors) ? res.recentConsoleErrors : [];
-        setErrors(arr.slice(-200).reverse());
-      });
+    getErrorIndex().then(setErrorIndex);
+    listBugs().then(setLibraryBugs);
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName !== "local") return;
+      if (changes[ERROR_INDEX_KEY]) setErrorIndex(changes[ERROR_INDEX_KEY].newValue || {});
+      if (changes[BUG_LIBRARY_KEY]) setLibraryBugs(changes[BUG_LIBRARY_KEY].newValue || []);
     };
-    load();
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, []);
+  const recurrenceOf = (g: ErrorGroup<ConsoleErrorItem>) => classifyError(errorIndex[g.fingerprint], libraryBugs, g.lastSeen);
+
+  // Requests ticked in the Network section; attached to the next bug as a trimmed HAR
+  const harSelectionRef = useRef<HarEntry[]>([]);
+  const onHarSelectionChange = useCallback((entries: HarEntry[]) => {
+    harSelectionRef.current = entries;
+  }, []);
+
+  // ... (All your useEffects and functions from createBug... to insertIntoSheet... are unchanged) ...
+
+  useEffect(() => {
+    const refresh = () => resolveInspectedScope().then(setScope);
+    refresh();
+    // origin may change when the inspected tab navigates
+    chrome.devtools.network.onNavigated.addListener(refresh);
+    return () => chrome.devtools.network.onNavigated.removeListener(refresh);
+  }, []);
+
+  useEffect(() => {
+    if (!scope) return;
+    const errorsKey = scopedKey("recentConsoleErrors", scope);
+    readScoped<ConsoleErrorItem>("recentConsoleErrors", scope).then((arr) => setErrors(arr.slice(-200).reverse()));
     const onChange = (changes: any, areaName: string) => {
-      if (changes.recentConsoleErrors) {
-        const arr = Array.isArray(changes.recentConsoleErrors.newValue) ? changes.recentConsoleErrors.newValue : [];
+      if (changes[errorsKey]) {
+        const arr = Array.isArray(changes[errorsKey].newValue) ? changes[errorsKey].newValue : [];
         setErrors(arr.slice(-200).reverse());
       }
-      if (changes.bugClipboard && areaName === "local") {
-        setSuccessBanner(true);
-        setTimeout(() => setSuccessBanner(false), 3000);
+      if (changes[BUG_LIBRARY_KEY] && areaName === "local") {
+        const next: BugEntry[] = changes[BUG_LIBRARY_KEY].newValue || [];
+        if (next.length > (changes[BUG_LIBRARY_KEY].oldValue || []).length) {
+          setSuccessBanner(true);
+          setTimeout(() => setSuccessBanner(false), 3000);
+        }
+        // keep the preview in sync with status / replay updates, close it when deleted
+        setOpenBug((prev) => (prev ? next.find((b) => b.id === prev.id) || null : prev));
       }
     };
     chrome.storage.onChanged.addListener(onChange);
     return () => chrome.storage.onChanged.removeListener(onChange);
-  }, []);
+  }, [scope]);
+
+  // Live relay from the page (BUGSENSE_CONSOLE via background port) — shows errors before
+  // the storage write lands; the storage listener above stays the source of truth.
+  useEffect(() => {
+    let port: chrome.runtime.Port | null = null;
+    try {
+      port = chrome.runtime.connect({ name: "bugsense-devtools" });
+      port.onMessage.addListener((msg: any) => {
+        if (msg?.action !== "BUGSENSE_CONSOLE" || !msg.payload) return;
+        if (msg.tabId !== inspectedTabId) return;
+        const item = msg.payload as ConsoleErrorItem;
+        setErrors((prev) => {
+          if (prev.some((e) => e.ts === item.ts && e.message === item.message)) return prev;
+          const { folded, rest } = foldRepeat(prev, item);
+          return [folded, ...rest].slice(0, 200);
+        });
+      });
+    } catch (err) {
+      console.warn("[BugSense] DevTools port connect failed:", err);
+    }
+    return () => port?.disconnect();
+  }, [inspectedTabId]);
 
   // Ask user for additional bug details (optional)
   function promptForExtraDetails(): Promise<string | null> {
@@ -76,6 +291,19 @@ export default function DevPanel() {
     });
   }
 
+  function editBug(value: BugEditorValue, isNew: boolean): Promise<BugEditorValue | null> {
+    return new Promise((resolve) => {
+      setEditor({
+        value,
+        isNew,
+        done: (edited) => {
+          setEditor(null);
+          resolve(edited);
+        },
+      });
+    });
+  }
+
   const captureScreenshot = useCallback(async (mode: "full" | "selective" = "full") => {
     if (mode === "selective") {
       return new Promise<string | null>((resolve) => {
@@ -91,7 +319,7 @@ export default function DevPanel() {
 
     // Default full-screen capture
     return new Promise<string | null>((resolve) => {
-      chrome.runtime.sendMessage({ action: "CAPTURE_FRAME" }, (resp) => {
+      chrome.runtime.sendMessage({ action: "CAPTURE_FRAME", tabId: inspectedTabId }, (resp) => {
         if (chrome.runtime.lastError) {
           console.warn("CAPTURE_FRAME runtime error:", chrome.runtime.lastError);
           resolve(null);
@@ -100,27 +328,139 @@ export default function DevPanel() {
         }
       });
     });
-  }, []);
+  }, [inspectedTabId]);
 
   const getReplayActions = useCallback(async () => {
-    return new Promise<any[]>((resolve) => {
-      chrome.runtime.sendMessage({ action: "GET_REPLAY_LOGS" }, (resp) => {
+    return new Promise<ActionEvent[]>((resolve) => {
+      chrome.runtime.sendMessage({ action: "GET_REPLAY_LOGS", tabId: inspectedTabId }, (resp) => {
         if (chrome.runtime.lastError) resolve([]);
-        else resolve(resp?.actions || []);
+        else resolve(clipToWindow(normalizeActions(resp?.actions), evidenceWindowRef.current, (a) => [a.timestamp]));
       });
     });
+  }, [inspectedTabId]);
+
+  const getNetworkRequests = useCallback(async () => {
+    const arr = await readScoped<NetworkEntry>("recentNetworkRequests", scopeRef.current);
+    const inWindow = clipToWindow(arr, evidenceWindowRef.current, (r) => [r.startedAt || r.ts, (r.startedAt || r.ts) + (r.duration || 0)]);
+    return selectNetworkContext(inWindow);
+  }, []);
+
+  // What the app pushed through window.BugSense (utils/pageSdk.ts): breadcrumbs from the scoped
+  // buffer, context / user / attached state from the page. Null when the origin has not opted in.
+  const getAppData = useCallback(async (): Promise<AppData | null> => {
+    const all = await readScoped<SdkBreadcrumb>("recentBreadcrumbs", scopeRef.current);
+    const breadcrumbs = clipToWindow(all, evidenceWindowRef.current, (b) => [b.ts]).slice(-50);
+    const snapshot = await new Promise<SdkSnapshot | null>((resolve) => {
+      chrome.runtime.sendMessage({ action: "GET_SDK_SNAPSHOT", tabId: inspectedTabId }, (resp) => {
+        if (chrome.runtime.lastError || !resp?.success) resolve(null);
+        else resolve(resp.snapshot);
+      });
+    });
+    if (!snapshot && !breadcrumbs.length) return null;
+    return { context: {}, user: null, state: {}, ...(snapshot || {}), breadcrumbs };
+  }, [inspectedTabId]);
+
+  // The timeline's evidence window and the console messages inside it (nothing extra without a
+  // window), plus the app data
+  const getEvidence = useCallback(async () => {
+    const appData = await getAppData();
+    const evidenceWindow = evidenceWindowRef.current;
+    if (!evidenceWindow) return appData ? { appData } : {};
+    const all = await readScoped<ConsoleErrorItem>("recentConsoleErrors", scopeRef.current);
+    const consoleErrors = clipToWindow(all, evidenceWindow, (e) => [e.ts])
+      .slice(-20)
+      .map((e) => ({ ts: e.ts, message: String(e.message).slice(0, 500), level: e.level }));
+    return { evidenceWindow, consoleErrors, ...(appData ? { appData } : {}) };
+  }, [getAppData]);
+
+  // Opens the bug in the editor; once saved it is added to the library, opened, and its HAR
+  // (if any requests were ticked) exported as a file next to it. Null when discarded.
+  const saveBug = useCallback(async (bug: BugDraft) => {
+    const { screenshotDataUrl, screenshotTiles, screenshots, ...report } = bug;
+    const images = screenshotTiles?.length ? screenshotTiles : screenshotDataUrl ? [screenshotDataUrl] : [];
+    const edited = await editBug({ ...report, screenshots: [...(screenshots || []), ...(await storeBugImages(images))] }, true);
+    if (!edited) return null;
+    const entry = await addBug(edited);
+    setOpenBug(entry);
+    if (edited.har) downloadHar(edited.har);
+    return entry;
+  }, []);
+
+  // Selected requests that overlap the evidence window (all of them without one)
+  const currentHar = () => {
+    const entries = clipToWindow(harSelectionRef.current, evidenceWindowRef.current, (e) => {
+      const started = Date.parse(e.startedDateTime);
+      return [started, started + (e.time || 0)];
+    });
+    return entries.length ? buildHar(entries) : null;
+  };
+
+  const buildTestScript = useCallback(async (title: string, replayActions: ActionEvent[], consoleError?: string) => {
+    if (!replayActions.length) return null;
+    try {
+      return generateTestScript(replayActions, {
+        title,
+        pageUrl: await inspectedPageUrl(),
+        consoleError: consoleError || null,
+        recordedAt: getFormattedDate(),
+      });
+    } catch (err) {
+      console.warn("[BugSense] Test export failed:", err);
+      return null;
+    }
+  }, []);
+
+  // Browser, page and app metadata of the inspected tab (app-specific sources from environmentSettings)
+  const getEnvironment = useCallback(async (): Promise<BugEnvironment | null> => {
+    const expression = pageEnvironmentExpression(await getEnvironmentSettings());
+    const page = await new Promise<PageEnvironment | null>((resolve) => {
+      chrome.devtools.inspectedWindow.eval(expression, (result: any, exceptionInfo: any) => {
+        if (exceptionInfo) console.warn("[BugSense] Environment capture failed:", exceptionInfo);
+        resolve(exceptionInfo ? null : result);
+      });
+    });
+    return page ? completeEnvironment(page) : null;
+  }, []);
+
+  // Freezes the tab's DOM recording (clipped to the evidence window) into the media store so the bug keeps it
+  const captureDomRecording = useCallback(async (): Promise<MediaRef | null> => {
+    try {
+      const resp = await chrome.runtime.sendMessage({
+        action: "CAPTURE_DOM_RECORDING",
+        tabId: inspectedTabId,
+        window: evidenceWindowRef.current,
+      });
+      return resp?.success ? resp.ref : null;
+    } catch (err) {
+      console.warn("[BugSense] DOM recording capture failed:", err);
+      return null;
+    }
+  }, [inspectedTabId]);
+
+  const resolveStack = useCallback(async (item: ConsoleErrorItem) => {
+    const resolved = await symbolicateStack(item.stack).catch((err) => {
+      console.warn("[BugSense] Stack symbolication failed:", err);
+      return null;
+    });
+    setResolvedStacks((prev) => ({ ...prev, [fingerprintError(item)]: resolved }));
+    return resolved;
   }, []);
 
   const callAIForBug = useCallback(async (
     source: {
       console?: ConsoleErrorItem;
+      symbolicatedStack?: string | null; // console.stack with original positions
+      errorGroup?: Omit<BugErrorGroup, "occurrences">; // how often / where the console error happened
       selectionText?: string;
       srcUrl?: string;
       linkUrl?: string;
+      element?: ElementInfo;
       extraDetails?: string | null; // ✅ new field
     },
     screenshot: string | null,
-    replayActions: any[]
+    replayActions: ActionEvent[],
+    networkRequests: NetworkEntry[] = [],
+    evidence: Pick<BugReport, "evidenceWindow" | "consoleErrors" | "appData"> = {}
   ) => {
     try {
       setMessage("🤖 Sending data to BugSense AI backend...");
@@ -131,6 +471,9 @@ export default function DevPanel() {
           ...source,
           screenshot,
           replayActions,
+          replaySteps: replayToSteps(replayActions),
+          networkRequests,
+          ...evidence,
           extraDetails: source.extraDetails || null,
         }),
       });
@@ -150,56 +493,93 @@ export default function DevPanel() {
         source.selectionText ||
         source.srcUrl ||
         source.linkUrl ||
+        (source.element && `Problem with element ${summarizeElement(source.element)}`) ||
         "Bug captured (AI unavailable)";
+      const failedRequests = networkRequests.filter((r) => r.failed).map(describeNetworkEntry);
+      const replaySteps = replayToSteps(replayActions);
+      const stack = source.symbolicatedStack || source.console?.stack;
+      const seen = source.errorGroup && source.errorGroup.count > 1 ? `\n\nOccurred ${source.errorGroup.count} times` : "";
+      const baseDescription = stack ? `${stack}${seen}` : message || "Bug captured manually";
       return {
+        fallback: true,
         title: `Bug Report: ${String(message).slice(0, 120)}`,
-        description: source.console?.stack || message || "Bug captured manually",
-        steps: [
-          "1. Observe the error or selected text",
-          "2. Reproduce steps from replay buffer",
-        ],
+        description: failedRequests.length
+          ? `${baseDescription}\n\nFailed requests:\n${failedRequests.join("\n")}`
+          : baseDescription,
+        steps: replaySteps.length
+          ? replaySteps
+          : [
+            "1. Observe the error or selected text",
+            "2. Reproduce steps from replay buffer",
+          ],
       };
     }
   }, []);
 
 
-  const createBugFromError = useCallback(async (item: ConsoleErrorItem) => {
+  // Works on a group of identical errors: the latest occurrence drives the report, all of them
+  // are attached (errorGroup)
+  const createBugFromError = useCallback(async (group: ErrorGroup<ConsoleErrorItem>) => {
+    const item = group.sample;
+    const { occurrences, ...groupSummary } = toBugErrorGroup(group);
     setLoading(true);
     setMessage("Capturing screenshot...");
     try {
       const screenshot = await captureScreenshot();
       setMessage("Fetching recent replay actions...");
       const replayActions = await getReplayActions();
+      const domRecording = await captureDomRecording();
+      const networkRequests = await getNetworkRequests();
+      const evidence = await getEvidence();
+      const environmentInfo = await getEnvironment();
+      setMessage("Resolving the stack through source maps...");
+      const symbolicatedStack = item.stack ? await resolveStack(item) : null;
       // 🧠 Ask user for optional details
       const extraDetails = await promptForExtraDetails();
       setMessage("🤖 Analyzing with BugSense AI... This may take a few seconds ⏳");
 
       const ai = await callAIForBug(
-        { console: item, extraDetails },
+        {
+          console: item,
+          symbolicatedStack: symbolicatedStack?.resolved ? symbolicatedStack.text : null,
+          errorGroup: groupSummary,
+          extraDetails,
+        },
         screenshot,
-        replayActions
+        replayActions,
+        networkRequests,
+        evidence
       );
 
-      const bug: BugClipboard = {
+      const bug: BugDraft = {
         title: ai.title,
         description: ai.description,
         steps: ai.steps || [],
+        aiGenerated: ai.fallback ? [] : AI_FIELDS,
         screenshotDataUrl: screenshot,
-        createdAt: getFormattedDate(),
         source: { type: "console", raw: item },
         replayActions,
+        networkRequests,
+        har: currentHar(),
+        testScript: await buildTestScript(ai.title, replayActions, item.message),
+        domRecording,
+        environmentInfo,
+        symbolicatedStack: symbolicatedStack?.resolved ? symbolicatedStack : null,
+        errorGroup: { ...groupSummary, occurrences },
+        ...evidence,
       };
 
-      await new Promise((res) => chrome.storage.local.set({ bugClipboard: bug }, () => res(true)));
-      setMessage("Bug created and saved to BugSense clipboard ✅");
+      const entry = await saveBug(bug);
+      if (entry && isIndexedError(item)) await linkBugToError(group, entry.id).catch((err) => console.warn("[BugSense] Error index link failed:", err));
+      setMessage(entry ? "Bug created and saved to the bug library ✅" : "Bug discarded");
       setLoading(false);
-      return bug;
+      return entry;
     } catch (err) {
       console.error(err);
       setMessage("Failed to create bug: " + String(err));
       setLoading(false);
     }
-  }, [captureScreenshot, getReplayActions, callAIForBug]);
+  }, [captureScreenshot, getReplayActions, captureDomRecording, getNetworkRequests, getEvidence, getEnvironment, resolveStack, callAIForBug, saveBug, buildTestScript]);
 
   const createBugFromContext = useCallback(async (context: { selectionText?: string, srcUrl?: string, linkUrl?: string }) => {
     setLoading(true);
@@ -208,11 +588,15 @@ export default function DevPanel() {
       const screenshot = await captureScreenshot();
       setMessage("Fetching recent replay actions...");
       const replayActions = await getReplayActions();
+      const domRecording = await captureDomRecording();
+      const networkRequests = await getNetworkRequests();
+      const evidence = await getEvidence();
+      const environmentInfo = await getEnvironment();
       // 🧠 Ask user for optional details
       const extraDetails = await promptForExtraDetails();
       setMessage("🤖 Analyzing UI bug with BugSense AI... ⏳");
 
-      const ai = await callAIForBug({ ...context, extraDetails }, screenshot, replayActions);
+      const ai = await callAIForBug({ ...context, extraDetails }, screenshot, replayActions, networkRequests, evidence);
 
 
       let rawSource = context.selectionText
@@ -223,29 +607,37 @@ export default function DevPanel() {
             ? { type: "link" as const, raw: { linkUrl: context.linkUrl } }
             : { type: "selection" as const, raw: { text: "Unknown context" } };
 
-      const bug: BugClipboard = {
+      const bug: BugDraft = {
         title: ai.title,
         description: ai.description,
         steps: ai.steps || [],
+        aiGenerated: ai.fallback ? [] : AI_FIELDS,
         screenshotDataUrl: screenshot,
-        createdAt: getFormattedDate(),
         source: rawSource,
         replayActions,
+        networkRequests,
+        har: currentHar(),
+        testScript: await buildTestScript(ai.title, replayActions),
+        domRecording,
+        environmentInfo,
+        ...evidence,
       };
 
-      await new Promise((res) => chrome.storage.local.set({ bugClipboard: bug }, () => res(true)));
-      setMessage("Bug created and saved to BugSense clipboard ✅");
+      const entry = await saveBug(bug);
+      setMessage(entry ? "Bug created and saved to the bug library ✅" : "Bug discarded");
       setLoading(false);
-      return bug;
+      return entry;
     } catch (err) {
       console.error(err);
       setMessage("Failed to create bug: " + String(err));
       setLoading(false);
     }
-  }, [captureScreenshot, getReplayActions, callAIForBug]);
+  }, [captureScreenshot, getReplayActions, captureDomRecording, getNetworkRequests, getEvidence, getEnvironment, callAIForBug, saveBug, buildTestScript]);
 
   useEffect(() => {
     const messageListener = (msg: any) => {
+      // Context menu / overlay triggers are broadcast to every open DevTools window
+      if (msg?.tabId !== undefined && msg.tabId !== inspectedTabId) return;
       // For existing context menu trigger
       if (
         msg.action === "TRIGGER_BUG_CREATION_FROM_CONTEXT" &&
@@ -258,44 +650,75 @@ export default function DevPanel() {
         });
       }
 
-      // 🧩 NEW: Handle selective screenshot trigger
-      if (msg.action === "TRIGGER_BUG_CREATION_FROM_CONTEXT" && msg.mode === "selective" && msg.screenshot) {
+      // 🧩 NEW: Handle selective / full-page / element screenshot trigger
+      if (
+        msg.action === "TRIGGER_BUG_CREATION_FROM_CONTEXT" &&
+        (msg.mode === "selective" || msg.mode === "fullpage" || msg.mode === "element") &&
+        msg.screenshot
+      ) {
+        const fullPage = msg.mode === "fullpage";
+        const element: ElementInfo | undefined = msg.mode === "element" ? msg.element : undefined;
+        const label = element ? "element" : fullPage ? "full-page" : "selective";
         (async () => {
-          setMessage("Capturing selected area...");
-          const replayActions = await getReplayActions();
-          const extraDetails = await promptForExtraDetails();
-
-          setMessage("Analyzing selective screenshot with BugSense AI...");
-
-          const ai = await callAIForBug({ extraDetails }, msg.screenshot, replayActions);
-
-          const bug: BugClipboard = {
-            title: ai.title,
-            description: ai.description,
-            steps: ai.steps || [],
-            screenshotDataUrl: msg.screenshot,
-            createdAt: getFormattedDate(),
-            source: { type: "selection", raw: {} },
-            replayActions,
-          };
-
-          await new Promise((res) =>
-            chrome.storage.local.set({ bugClipboard: bug }, () => res(true))
-          );
+          try {
+            setMessage(element ? "Element captured..." : fullPage ? "Full page captured..." : "Capturing selected area...");
+            const replayActions = await getReplayActions();
+            const domRecording = await captureDomRecording();
+            const networkRequests = await getNetworkRequests();
+            const evidence = await getEvidence();
+            const environmentInfo = await getEnvironment();
+            const extraDetails = await promptForExtraDetails();
 
-          setMessage("Selective area bug captured ✅");
-          setSuccessBanner(true);
-          setTimeout(() => setSuccessBanner(false), 3000);
+            setMessage(`Analyzing ${label} screenshot with BugSense AI...`);
+
+            const ai = await callAIForBug({ extraDetails, element }, msg.screenshot, replayActions, networkRequests, evidence);
+
+            const bug: BugDraft = {
+              title: ai.title,
+              description: ai.description,
+              steps: ai.steps || [],
+              aiGenerated: ai.fallback ? [] : AI_FIELDS,
+              screenshotDataUrl: msg.screenshot,
+              ...(msg.screenshotTiles?.length > 1 ? { screenshotTiles: msg.screenshotTiles } : {}),
+              source: {
+                type: element ? "element" : fullPage ? "fullpage" : "selection",
+                raw: fullPage ? { truncated: Boolean(msg.truncated) } : {},
+              },
+              ...(element ? { element } : {}),
+              replayActions,
+              networkRequests,
+              har: currentHar(),
+              testScript: await buildTestScript(ai.title, replayActions),
+              domRecording,
+              environmentInfo,
+              ...evidence,
+            };
+
+            const entry = await saveBug(bug);
+            if (!entry) {
+              setMessage("Bug discarded");
+              return;
+            }
+
+            setMessage(
+              element ? "Element bug captured ✅" : fullPage ? "Full-page bug captured ✅" : "Selective area bug captured ✅"
+            );
+            setSuccessBanner(true);
+            setTimeout(() => setSuccessBanner(false), 3000);
+          } catch (err) {
+            console.error(err);
+            setMessage("Failed to create bug: " + String(err));
+          }
         })();
       }
     };
 
     chrome.runtime.onMessage.addListener(messageListener);
     return () => chrome.runtime.onMessage.removeListener(messageListener);
-  }, [createBugFromContext, getReplayActions, callAIForBug]);
+  }, [createBugFromContext, getReplayActions, captureDomRecording, getNetworkRequests, getEvidence, getEnvironment, callAIForBug, saveBug, buildTestScript, inspectedTabId]);
 
 
-  async function insertIntoSheet(bug: BugClipboard) {
+  async function insertIntoSheet(bug: BugEntry) {
     try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
       let spreadsheetId: string | null = null;
@@ -314,9 +737,17 @@ export default function DevPanel() {
         bug.title,
         bug.description,
         (bug.steps || []).join("\n"),
-        bug.screenshotDataUrl ? "screenshot_attached" : "",
+        bug.screenshots.length ? "screenshot_attached" : "",
         new Date(bug.createdAt).toISOString(),
         "Bug Sense",
+        bug.expectedResult || "",
+        bug.actualResult || "",
+        bug.severity || "",
+        bug.priority || "",
+        (bug.labels || []).join(", "),
+        bug.component || "",
+        bug.environment || "",
+        ...environmentColumns(bug.environmentInfo),
       ];
 
       setMessage("Appending row to spreadsheet...");
@@ -325,7 +756,12 @@ export default function DevPanel() {
           setMessage("Append failed: " + chrome.runtime.lastError.message);
           return;
         }
-        if (resp?.success) setMessage("Row appended ✅");
+        if (resp?.success) {
+          const row = appendedRow(resp.result);
+          setMessage(row ? `Row ${row} appended ✅` : "Row appended ✅");
+          setBugStatus([bug.id], "filed");
+          setLinkedSheetRow(bug.id, spreadsheetId!, row).catch((err) => console.warn("[BugSense] Error index update failed:", err));
+        }
         else setMessage("Append failed: " + JSON.stringify(resp?.error || "unknown"));
       });
     } catch (err) {
@@ -334,23 +770,142 @@ export default function DevPanel() {
     }
   }
 
-  const handlePreviewClick = () => {
-    if (isPreviewVisible) {
-      setIsPreviewVisible(false);
-    } else {
-      chrome.storage.local.get(["bugClipboard"], (res) => {
-        setClipboardData(res?.bugClipboard || null);
-        setIsPreviewVisible(true);
+  // A known error seen again is noted on its bug instead of being filed twice
+  const appendOccurrenceNote = async (group: ErrorGroup<ConsoleErrorItem>, bug: BugEntry, regression: boolean) => {
+    const note: BugOccurrenceNote = {
+      ts: Date.now(),
+      count: group.count,
+      firstSeen: group.firstSeen,
+      lastSeen: group.lastSeen,
+      urls: group.urls.slice(0, 5),
+      regression,
+    };
+    const updated = await updateBug(bug.id, { occurrenceNotes: [...(bug.occurrenceNotes || []), note] });
+    if (!updated) {
+      setMessage("That bug is no longer in the bug library");
+      return;
+    }
+    setOpenBug(updated);
+    setMessage(`${regression ? "Regression" : "Occurrence"} noted on "${updated.title}" ✅`);
+  };
+
+  const fileErrorGroup = async (group: ErrorGroup<ConsoleErrorItem>) => {
+    const recurrence = recurrenceOf(group);
+    if (isIndexedError(group.sample) && recurrence.status !== "new" && recurrence.bug) {
+      const append = confirm(
+        `This error is ${describeRecurrence(recurrence)}.\n\nAppend an occurrence note to that bug instead of creating a new one?`
+      );
+      if (append) return appendOccurrenceNote(group, recurrence.bug, recurrence.status === "regression");
+    }
+    setMessage("Creating bug...");
+    const bug = await createBugFromError(group);
+    if (bug) {
+      const ok = confirm("Bug created and saved to the bug library. Insert into sheet now?");
+      if (ok) insertIntoSheet(bug);
+    }
+  };
+
+  // Empties the tab's captured console messages (every origin it visited)
+  const clearConsole = async () => {
+    if (!confirm("Clear the captured console messages of this tab?")) return;
+    await clearTabBuffer("recentConsoleErrors", inspectedTabId);
+    setErrors([]);
+    setResolvedStacks({});
+  };
+
+  // Keyboard: ↑/↓ move between entries, Ctrl/⌘+Enter files the focused one
+  const onListKeyDown = (ev: React.KeyboardEvent<HTMLDivElement>) => {
+    const rows = Array.from(listRef.current?.querySelectorAll<HTMLElement>("[data-fingerprint]") || []);
+    const index = rows.findIndex((r) => r.contains(document.activeElement));
+    if (ev.key === "ArrowDown" || ev.key === "ArrowUp") {
+      ev.preventDefault();
+      const next = index < 0 ? 0 : index + (ev.key === "ArrowDown" ? 1 : -1);
+      rows[Math.max(0, Math.min(rows.length - 1, next))]?.focus();
+      return;
+    }
+    if (ev.key === "Enter" && (ev.ctrlKey || ev.metaKey) && index >= 0 && !loading) {
+      ev.preventDefault();
+      const group = errorGroups.find((g) => g.fingerprint === rows[index].dataset.fingerprint);
+      if (group) fileErrorGroup(group);
+    }
+  };
+
+  // "/" jumps to the search box
+  useEffect(() => {
+    const onKey = (ev: KeyboardEvent) => {
+      const target = ev.target as HTMLElement | null;
+      if (ev.key !== "/" || target?.closest("input, textarea, select, [contenteditable]")) return;
+      ev.preventDefault();
+      searchRef.current?.focus();
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Re-runs the bug's recorded actions in the inspected tab and stores the verdict on the bug
+  const runReplay = async () => {
+    if (!openBug?.replayActions?.length) return;
+    setReplaying(true);
+    setMessage("🔁 Replaying recorded steps in the page...");
+    try {
+      const expectedFingerprint =
+        openBug.source.type === "console" ? fingerprintError(openBug.source.raw || {}) : null;
+      const resp = await chrome.runtime.sendMessage({
+        action: "RUN_REPLAY_STEPS",
+        tabId: inspectedTabId,
+        actions: openBug.replayActions,
+        expectedFingerprint,
       });
+      if (!resp?.success) throw new Error(resp?.error || "unknown error");
+      const updated = await updateBug(openBug.id, { replayRun: resp.result as ReplayRunResult });
+      if (updated) setOpenBug(updated);
+      setMessage(`${REPLAY_STATUS_ICON[resp.result.status as ReplayRunResult["status"]]} ${summarizeReplayRun(resp.result)}`);
+    } catch (err) {
+      setMessage("Replay failed: " + String(err));
+    } finally {
+      setReplaying(false);
     }
   };
 
+  const editorAttachSources: BugEditorAttachSources = {
+    screenshot: () => captureScreenshot(),
+    domRecording: captureDomRecording,
+    environment: getEnvironment,
+    replay: async (title) => {
+      const replayActions = await getReplayActions();
+      return { replayActions, testScript: await buildTestScript(title, replayActions) };
+    },
+  };
+
+  const editOpenBug = async () => {
+    if (!openBug) return;
+    const edited = await editBug(openBug, false);
+    if (!edited) return;
+    const updated = await updateBug(openBug.id, edited);
+    if (updated) setOpenBug(updated);
+    setMessage("Bug updated ✅");
+  };
+
+  // Screenshots of the open bug live in the media store; resolve them to blob: URLs
+  useEffect(() => {
+    const refs = openBug?.screenshots || [];
+    let cancelled = false;
+    let urls: string[] = [];
+    Promise.all(refs.map((r) => getMediaObjectUrl(r.mediaId))).then((resolved) => {
+      urls = resolved.filter((u): u is string => Boolean(u));
+      if (cancelled) urls.forEach((u) => URL.revokeObjectURL(u));
+      else setScreenshotUrls(urls);
+    });
+    return () => {
+      cancelled = true;
+      urls.forEach((u) => URL.revokeObjectURL(u));
+      setScreenshotUrls([]);
+    };
+  }, [openBug?.id]);
+
   const handleCopyToClipboard = () => {
-    if (clipboardData) {
-      const dataToCopy = { ...clipboardData };
-      if (dataToCopy.screenshotDataUrl) {
-        delete dataToCopy.screenshotDataUrl;
-      }
+    if (openBug) {
+      const dataToCopy = summarizeAttachments({ ...openBug });
       const jsonString = JSON.stringify(dataToCopy, null, 2);
       try {
         const tempTextArea = document.createElement("textarea");
@@ -416,7 +971,17 @@ export default function DevPanel() {
         </div>
       )}
 
-      <div style={{
+      <ConsoleToolbar
+        filter={consoleFilter}
+        onChange={setConsoleFilter}
+        shown={filteredErrors.length}
+        total={errors.length}
+        hasWindow={!!evidenceWindow}
+        onClear={clearConsole}
+        searchRef={searchRef}
+      />
+
+      <div ref={listRef} onKeyDown={onListKeyDown} style={{
         maxHeight: 320,
         overflow: "auto",
         border: "1px solid #444",
@@ -425,69 +990,121 @@ export default function DevPanel() {
         background: "#252525"
       }}>
         {errors.length === 0 && <div style={{ color: "#888" }}>No captured console messages (open site & reproduce)</div>}
-        {errors.map((e, idx) => (
-          <div key={e.ts + "-" + idx} style={{
-            marginBottom: 8,
-            padding: 8,
-            borderRadius: 6,
-            background: "#3c3c3c",
-            boxShadow: "0 0 0 1px #444 inset"
-          }}>
-            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
-              <div style={{ fontSize: 13, fontWeight: 600, color: "#f0f0f0" }}>{String(e.message).slice(0, 120)}</div>
-              <div style={{ fontSize: 11, color: "#b0b0b0" }}>{new Date(e.ts).toLocaleTimeString()}</div>
-            </div>
-            <div style={{ marginTop: 6, fontSize: 12, color: "#cccccc", whiteSpace: "pre-wrap" }}>{e.stack || (e.raw ? JSON.stringify(e.raw) : "")}</div>
+        {errors.length > 0 && errorGroups.length === 0 && <div style={{ color: "#888" }}>No messages match the filters</div>}
+        {errorGroups.map((g) => {
+          const e = g.sample;
+          const resolved = resolvedStacks[g.fingerprint];
+          const recurrence = recurrenceOf(g);
+          return (
+            <div key={g.fingerprint} data-fingerprint={g.fingerprint} tabIndex={0} style={{
+              marginBottom: 8,
+              padding: 8,
+              borderRadius: 6,
+              background: "#3c3c3c",
+              boxShadow: "0 0 0 1px #444 inset",
+              outlineColor: "#3a7dff"
+            }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                <div style={{ fontSize: 13, fontWeight: 600, color: "#f0f0f0" }}>
+                  {g.count > 1 && (
+                    <span style={{ marginRight: 6, padding: "0 6px", borderRadius: 8, background: "#5c2b2b", color: "#ffb3b3", fontSize: 11 }}>
+                      ×{g.count}
+                    </span>
+                  )}
+                  {isIndexedError(e) && <RecurrenceBadge recurrence={recurrence} />}
+                  {String(e.message).slice(0, 120)}
+                </div>
+                <div style={{ fontSize: 11, color: "#b0b0b0", whiteSpace: "nowrap" }}>
+                  {g.count > 1 ? `${new Date(g.firstSeen).toLocaleTimeString()} – ` : ""}
+                  {new Date(g.lastSeen).toLocaleTimeString()}
+                </div>
+              </div>
+              {g.urls.length > 0 && (
+                <div style={{ marginTop: 4, fontSize: 11, color: "#888", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={g.urls.join("\n")}>
+                  {g.urls.slice(0, 2).join(", ")}
+                  {g.urls.length > 2 ? ` +${g.urls.length - 2} more page(s)` : ""}
+                </div>
+              )}
+              {resolved?.resolved ? (
+                <div style={{ marginTop: 6 }}>
+                  <SymbolicatedStackView stack={resolved} />
+                </div>
+              ) : (
+                <div style={{ marginTop: 6, fontSize: 12, color: "#cccccc", whiteSpace: "pre-wrap" }}>{e.stack || (e.raw ? JSON.stringify(e.raw) : "")}</div>
+              )}
+              {g.fingerprint in resolvedStacks && !resolved?.resolved && (
+                <div style={{ marginTop: 4, fontSize: 11, color: "#888" }}>No source map found for these frames</div>
+              )}
 
-            <div style={{ marginTop: 8 }}>
-              <button
-                onClick={async () => {
-                  setMessage("Creating bug...");
-                  const bug = await createBugFromError(e as ConsoleErrorItem);
-                  if (bug) {
-                    const ok = confirm("Bug created and saved to clipboard. Insert into sheet now?");
-                    if (ok) insertIntoSheet(bug);
-                  }
-                }}
-                disabled={loading}
-                style={{
-                  marginRight: 8,
-                  background: "#3a7dff",
-                  color: "white",
-                  padding: "6px 10px",
-                  borderRadius: 6,
-                  border: "none",
-                  cursor: "pointer"
-                }}
-              >
-                Create bug from this error
-              </button>
+              <div style={{ marginTop: 8 }}>
+                <button
+                  onClick={() => fileErrorGroup(g)}
+                  disabled={loading}
+                  style={{
+                    marginRight: 8,
+                    background: "#3a7dff",
+                    color: "white",
+                    padding: "6px 10px",
+                    borderRadius: 6,
+                    border: "none",
+                    cursor: "pointer"
+                  }}
+                >
+                  {g.count > 1 ? `Create bug from these ${g.count} errors` : "Create bug from this error"}
+                </button>
+                {e.stack && !resolved?.resolved && (
+                  <button
+                    onClick={() => resolveStack(e)}
+                    style={{
+                      background: "#555",
+                      color: "white",
+                      padding: "6px 10px",
+                      borderRadius: 6,
+                      border: "none",
+                      cursor: "pointer"
+                    }}
+                  >
+                    Resolve stack
+                  </button>
+                )}
+                {isIndexedError(e) && recurrence.status !== "new" && recurrence.bug && (
+                  <button
+                    onClick={() => appendOccurrenceNote(g, recurrence.bug!, recurrence.status === "regression")}
+                    disabled={loading}
+                    style={{
+                      marginLeft: 8,
+                      background: "#555",
+                      color: "white",
+                      padding: "6px 10px",
+                      borderRadius: 6,
+                      border: "none",
+                      cursor: "pointer"
+                    }}
+                  >
+                    Add occurrence to bug
+                  </button>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
-      <div style={{ marginTop: 12 }}>
-        <button
-          onClick={handlePreviewClick}
-          style={{
-            background: "#555",
-            color: "#f0f0f0",
-            padding: "6px 10px",
-            borderRadius: 6,
-            border: "1px solid #666",
-            cursor: "pointer"
-          }}
-        >
-          {isPreviewVisible ? "Hide clipboard" : "Preview clipboard"}
-        </button>
-      </div>
+      <SourceMapsSection />
+
+      <BugTimeline scope={scope} selection={evidenceWindow} onSelectionChange={setEvidenceWindow} />
+
+      <SelectedElementSection onStatus={setMessage} />
+
+      <NetworkSection onSelectionChange={onHarSelectionChange} />
+
+      <BugLibrary openId={openBug?.id || null} onOpen={setOpenBug} onStatus={setMessage} />
 
       <div style={{ marginTop: 10 }}>
         <div style={{ fontSize: 12, color: "#a0a0a0" }}>{message}</div>
       </div>
 
-      {isPreviewVisible && (
+      {openBug && (
         <div style={{
           marginTop: 20,
           background: "#252525",
@@ -508,25 +1125,154 @@ export default function DevPanel() {
             alignItems: "center",
             justifyContent: "space-between"
           }}>
-            Clipboard Contents
-            <FaRegCopy
-              onClick={handleCopyToClipboard}
-              style={{ cursor: "pointer", fontSize: 14, color: "#f0f0f0" }}
-              title="Copy JSON (raw)"
-            />
+            <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{openBug.title}</span>
+            <span style={{ display: "flex", alignItems: "center", gap: 10, flexShrink: 0 }}>
+              <select
+                value={openBug.status}
+                onChange={(e) => setBugStatus([openBug.id], e.target.value as BugStatus)}
+                title="Status"
+                style={{ background: "#1b1f2b", color: "#eee", border: "1px solid #444", borderRadius: 6, fontSize: 11 }}
+              >
+                {(Object.keys(BUG_STATUS_LABELS) as BugStatus[]).map((status) => (
+                  <option key={status} value={status}>{BUG_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <span onClick={editOpenBug} style={{ cursor: "pointer", color: "#3a7dff", fontSize: 12 }} title="Edit the report">Edit</span>
+              <FaRegCopy
+                onClick={handleCopyToClipboard}
+                style={{ cursor: "pointer", fontSize: 14, color: "#f0f0f0" }}
+                title="Copy JSON (raw)"
+              />
+              <span onClick={() => setOpenBug(null)} style={{ cursor: "pointer", color: "#b0b0b0" }} title="Close">✕</span>
+            </span>
           </h4>
 
-          {clipboardData?.screenshotDataUrl && (
+          {screenshotUrls.length > 0 && (
             <div style={{ padding: 12, borderBottom: '1px solid #444', background: '#333' }}>
-              <img
-                src={clipboardData.screenshotDataUrl}
-                alt="Bug Screenshot"
-                style={{ width: '100%', borderRadius: 4, border: '1px solid #555' }}
-                title="Right-click to copy or save this image"
-              />
+              {screenshotUrls.map((src, i) => (
+                <img
+                  key={i}
+                  src={src}
+                  alt={`Bug Screenshot${screenshotUrls.length > 1 ? ` (part ${i + 1})` : ""}`}
+                  style={{ width: '100%', display: 'block', borderRadius: 4, border: '1px solid #555' }}
+                  title="Right-click to copy or save this image"
+                />
+              ))}
             </div>
           )}
 
+          {openBug?.har && (
+            <div style={{ padding: "8px 12px", borderBottom: '1px solid #444', background: '#333', display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 12 }}>
+              <span>📎 HAR attached ({openBug.har.log.entries.length} request(s), auth headers redacted)</span>
+              <button
+                onClick={() => openBug.har && downloadHar(openBug.har)}
+                style={{
+                  background: "#3a7dff",
+                  color: "white",
+                  padding: "4px 8px",
+                  borderRadius: 6,
+                  border: "none",
+                  cursor: "pointer",
+                  fontSize: 12
+                }}
+              >
+                Download .har
+              </button>
+            </div>
+          )}
+
+          {openBug?.testScript && (
+            <div style={{ padding: "8px 12px", borderBottom: '1px solid #444', background: '#333', display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 12 }}>
+              <span>🧪 Playwright test attached ({openBug.testScript.actionCount} recorded action(s))</span>
+              <button
+                onClick={() => openBug.testScript && downloadTestScript(openBug.testScript)}
+                style={{
+                  background: "#3a7dff",
+                  color: "white",
+                  padding: "4px 8px",
+                  borderRadius: 6,
+                  border: "none",
+                  cursor: "pointer",
+                  fontSize: 12
+                }}
+              >
+                Download test
+              </button>
+            </div>
+          )}
+
+          {openBug?.recording && (
+            <div style={{ padding: "8px 12px", borderBottom: '1px solid #444', background: '#333', display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 12 }}>
+              <span>🎥 Tab recording attached ({Math.round(openBug.recording.size / 1024)} KB)</span>
+              <button
+                onClick={async () => {
+                  const url = openBug.recording && (await getMediaObjectUrl(openBug.recording.mediaId));
+                  if (url) window.open(url, "_blank");
+                  else setMessage("The recording is no longer in the media store");
+                }}
+                style={{
+                  background: "#3a7dff",
+                  color: "white",
+                  padding: "4px 8px",
+                  borderRadius: 6,
+                  border: "none",
+                  cursor: "pointer",
+                  fontSize: 12
+                }}
+              >
+                Open recording
+              </button>
+            </div>
+          )}
+
+          {openBug?.domRecording && (
+            <div style={{ padding: "8px 12px", borderBottom: '1px solid #444', background: '#333', display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 12 }}>
+              <span>🎞️ DOM recording attached ({Math.round(openBug.domRecording.size / 1024)} KB)</span>
+              <button
+                onClick={() => openBug.domRecording && chrome.runtime.sendMessage({ action: "OPEN_DOM_PLAYER", mediaId: openBug.domRecording.mediaId })}
+                style={{
+                  background: "#3a7dff",
+                  color: "white",
+                  padding: "4px 8px",
+                  borderRadius: 6,
+                  border: "none",
+                  cursor: "pointer",
+                  fontSize: 12
+                }}
+              >
+                Open player
+              </button>
+            </div>
+          )}
+
+          {openBug?.replayActions?.length ? (
+            <div style={{ padding: "8px 12px", borderBottom: '1px solid #444', background: '#333', display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, fontSize: 12 }}>
+              <span>
+                {openBug.replayRun
+                  ? `🔁 ${REPLAY_STATUS_ICON[openBug.replayRun.status]} ${summarizeReplayRun(openBug.replayRun)}`
+                  : `🔁 ${openBug.replayActions.length} recorded action(s) — not replayed yet`}
+              </span>
+              <button
+                onClick={runReplay}
+                disabled={replaying}
+                title="Reload the page and re-run the recorded actions"
+                style={{
+                  background: "#3a7dff",
+                  color: "white",
+                  padding: "4px 8px",
+                  borderRadius: 6,
+                  border: "none",
+                  cursor: replaying ? "not-allowed" : "pointer",
+                  opacity: replaying ? 0.5 : 1,
+                  fontSize: 12,
+                  whiteSpace: "nowrap"
+                }}
+              >
+                {replaying ? "Replaying..." : "Replay steps"}
+              </button>
+            </div>
+          ) : null}
+
           <SyntaxHighlighter
             language="json"
             style={atomDark}
@@ -540,17 +1286,22 @@ export default function DevPanel() {
             }}
           >
             {(() => {
-              if (!clipboardData) return "No clipboard data found.";
-              const displayData = { ...clipboardData };
-              if (displayData.screenshotDataUrl) {
-                delete displayData.screenshotDataUrl;
-              }
-              return JSON.stringify(displayData, null, 2);
+              return JSON.stringify(summarizeAttachments({ ...openBug }), null, 2);
             })()}
           </SyntaxHighlighter>
         </div>
       )}
 
+      {editor && (
+        <BugEditor
+          initial={editor.value}
+          isNew={editor.isNew}
+          attach={editorAttachSources}
+          onSave={(value) => editor.done(value)}
+          onCancel={() => editor.done(null)}
+        />
+      )}
+
       {showExtraModal && (
         <div
           style={{
@@ -0,0 +1,457 @@
+// extension/devtools/components/BugEditor.tsx
+// Bug report form of the DevTools panel, shown before a new bug is saved and for editing library
+// entries. Title, description and steps filled by the AI backend stay marked as AI-generated
+// until they are edited; attachments (screenshots, recordings, replay actions, HAR) can be
+// added and removed. The captured environment metadata is shown read-only and can be recaptured.
+import React, { useEffect, useRef, useState } from "react";
+import {
+  BUG_PRIORITIES,
+  BUG_SEVERITIES,
+  BugAiField,
+  BugPriority,
+  BugReport,
+  BugSeverity,
+  discardBugImages,
+  storeBugImages,
+} from "../../utils/bugLibrary";
+import { MediaRef, getMediaObjectUrl } from "../../utils/mediaStore";
+import { RECORDED_VIDEO_KEY } from "../../utils/recording";
+import { BugEnvironment, environmentFields } from "../../utils/environment";
+
+export type BugEditorValue = BugReport & { screenshots: MediaRef[] };
+
+export type BugEditorAttachSources = {
+  screenshot: () => Promise<string | null>;
+  domRecording: () => Promise<MediaRef | null>;
+  environment: () => Promise<BugEnvironment | null>;
+  replay: (title: string) => Promise<Pick<BugReport, "replayActions" | "testScript">>;
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  boxSizing: "border-box",
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #333",
+  background: "#1b1f2b",
+  color: "#eee",
+  fontSize: 13,
+  fontFamily: "Inter, sans-serif",
+};
+
+const buttonStyle = (background: string): React.CSSProperties => ({
+  background,
+  color: "white",
+  border: "none",
+  padding: "6px 10px",
+  borderRadius: 6,
+  cursor: "pointer",
+});
+
+const iconButton: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "#b0b0b0",
+  cursor: "pointer",
+  fontSize: 12,
+  padding: "0 4px",
+};
+
+const stripNumber = (step: string) => step.replace(/^\s*\d+[.)]\s*/, "");
+
+function AiBadge() {
+  return (
+    <span
+      title="Filled by BugSense AI — edit to confirm"
+      style={{ marginLeft: 6, padding: "0 6px", borderRadius: 8, background: "#3a2f5c", color: "#c9b8ff", fontSize: 10, fontWeight: 600 }}
+    >
+      🤖 AI-generated
+    </span>
+  );
+}
+
+function Field({ label, ai, children }: { label: string; ai?: boolean; children: React.ReactNode }) {
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <div style={{ fontSize: 12, color: "#a0a0a0", marginBottom: 4 }}>
+        {label}
+        {ai && <AiBadge />}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function AttachmentRow({ label, onRemove, children }: { label: string; onRemove: () => void; children?: React.ReactNode }) {
+  return (
+    <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, padding: "4px 8px", background: "#333", borderRadius: 4, fontSize: 12, marginBottom: 4 }}>
+      <span>{label}</span>
+      <span style={{ display: "flex", alignItems: "center", gap: 4 }}>
+        {children}
+        <button onClick={onRemove} style={iconButton} title="Remove attachment">✕</button>
+      </span>
+    </div>
+  );
+}
+
+export default function BugEditor({
+  initial,
+  isNew,
+  attach,
+  onSave,
+  onCancel,
+}: {
+  initial: BugEditorValue;
+  isNew: boolean; // new bugs own their stored screenshots until saved
+  attach: BugEditorAttachSources;
+  onSave: (value: BugEditorValue) => void;
+  onCancel: () => void;
+}) {
+  const [bug, setBug] = useState<BugEditorValue>(() => ({ ...initial, steps: (initial.steps || []).map(stripNumber) }));
+  const [labelsText, setLabelsText] = useState((initial.labels || []).join(", "));
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const addedRefs = useRef<MediaRef[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const ai = new Set(bug.aiGenerated || []);
+
+  const update = (patch: Partial<BugEditorValue>, aiField?: BugAiField) => {
+    setBug((prev) => ({
+      ...prev,
+      ...patch,
+      ...(aiField ? { aiGenerated: (prev.aiGenerated || []).filter((f) => f !== aiField) } : {}),
+    }));
+  };
+
+  // Thumbnails for the screenshots (blob: URLs revoked on unmount)
+  const thumbsRef = useRef(thumbs);
+  thumbsRef.current = thumbs;
+  useEffect(() => {
+    const missing = bug.screenshots.filter((s) => !thumbsRef.current[s.mediaId]);
+    if (!missing.length) return;
+    Promise.all(missing.map(async (s) => [s.mediaId, await getMediaObjectUrl(s.mediaId)] as const)).then((pairs) => {
+      setThumbs((prev) => {
+        const next = { ...prev };
+        pairs.forEach(([id, url]) => url && (next[id] = url));
+        return next;
+      });
+    });
+  }, [bug.screenshots]);
+  useEffect(() => () => Object.values(thumbsRef.current).forEach((u) => URL.revokeObjectURL(u)), []);
+
+  // ─────────────────────────────────────────────────────────────
+  //  Steps
+  // ─────────────────────────────────────────────────────────────
+  const setStep = (i: number, text: string) => update({ steps: bug.steps.map((s, j) => (j === i ? text : s)) }, "steps");
+  const removeStep = (i: number) => update({ steps: bug.steps.filter((_, j) => j !== i) }, "steps");
+  const moveStep = (i: number, delta: number) => {
+    const j = i + delta;
+    if (j < 0 || j >= bug.steps.length) return;
+    const steps = [...bug.steps];
+    [steps[i], steps[j]] = [steps[j], steps[i]];
+    update({ steps }, "steps");
+  };
+
+  // ─────────────────────────────────────────────────────────────
+  //  Attachments
+  // ─────────────────────────────────────────────────────────────
+  const withBusy = async (label: string, fn: () => Promise<void>) => {
+    setBusy(label);
+    try {
+      await fn();
+    } catch (err) {
+      console.warn(`[BugSense] Attaching ${label} failed:`, err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addImages = async (images: Array<string | Blob>) => {
+    const refs = await storeBugImages(images);
+    addedRefs.current.push(...refs);
+    setBug((prev) => ({ ...prev, screenshots: [...prev.screenshots, ...refs] }));
+  };
+
+  const attachScreenshot = () =>
+    withBusy("screenshot", async () => {
+      const shot = await attach.screenshot();
+      if (shot) await addImages([shot]);
+    });
+
+  const attachDomRecording = () =>
+    withBusy("DOM recording", async () => {
+      const ref = await attach.domRecording();
+      if (ref) update({ domRecording: ref });
+    });
+
+  const attachRecording = () =>
+    withBusy("recording", async () => {
+      const res = await chrome.storage.local.get([RECORDED_VIDEO_KEY]);
+      const ref: MediaRef | undefined = res?.[RECORDED_VIDEO_KEY];
+      if (ref?.mediaId) update({ recording: ref });
+      else alert("No tab recording yet — record one from the Bug Sense popup first.");
+    });
+
+  const recaptureEnvironment = () =>
+    withBusy("environment", async () => {
+      const environmentInfo = await attach.environment();
+      if (environmentInfo) update({ environmentInfo });
+    });
+
+  const attachReplay = () => withBusy("replay actions", async () => update(await attach.replay(bug.title)));
+
+  const openMedia = async (ref: MediaRef) => {
+    const url = await getMediaObjectUrl(ref.mediaId);
+    if (url) window.open(url, "_blank");
+    else alert("This attachment is no longer in the media store.");
+  };
+
+  // Stored screenshots this editor owns but the saved bug no longer references
+  const ownedRefs = () => [...(isNew ? initial.screenshots : []), ...addedRefs.current];
+
+  const save = () => {
+    const kept = new Set(bug.screenshots.map((s) => s.mediaId));
+    discardBugImages(ownedRefs().filter((r) => !kept.has(r.mediaId)));
+    const labels = labelsText.split(",").map((l) => l.trim()).filter(Boolean);
+    const steps = bug.steps.map((s) => s.trim()).filter(Boolean).map((s, i) => `${i + 1}. ${s}`);
+    onSave({ ...bug, steps, labels });
+  };
+
+  const cancel = () => {
+    discardBugImages(ownedRefs());
+    onCancel();
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.7)",
+        display: "flex",
+        alignItems: "flex-start",
+        justifyContent: "center",
+        overflow: "auto",
+        padding: "24px 0",
+        zIndex: 9999,
+      }}
+    >
+      <div
+        style={{
+          background: "#0B1220",
+          color: "white",
+          padding: 20,
+          borderRadius: 8,
+          width: "90%",
+          maxWidth: 640,
+          boxShadow: "0 0 10px rgba(0,0,0,0.5)",
+        }}
+      >
+        <h3 style={{ marginTop: 0 }}>{isNew ? "📝 Review bug report" : "📝 Edit bug report"}</h3>
+
+        <Field label="Title" ai={ai.has("title")}>
+          <input value={bug.title} onChange={(e) => update({ title: e.target.value }, "title")} style={inputStyle} />
+        </Field>
+
+        <Field label="Description" ai={ai.has("description")}>
+          <textarea
+            value={bug.description}
+            onChange={(e) => update({ description: e.target.value }, "description")}
+            style={{ ...inputStyle, height: 90, resize: "vertical" }}
+          />
+        </Field>
+
+        <Field label="Steps to reproduce" ai={ai.has("steps")}>
+          {bug.steps.map((step, i) => (
+            <div key={i} style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 4 }}>
+              <span style={{ width: 20, color: "#888", fontSize: 12, textAlign: "right" }}>{i + 1}.</span>
+              <input value={step} onChange={(e) => setStep(i, e.target.value)} style={inputStyle} />
+              <button onClick={() => moveStep(i, -1)} disabled={i === 0} style={iconButton} title="Move up">▲</button>
+              <button onClick={() => moveStep(i, 1)} disabled={i === bug.steps.length - 1} style={iconButton} title="Move down">▼</button>
+              <button onClick={() => removeStep(i)} style={iconButton} title="Remove step">✕</button>
+            </div>
+          ))}
+          <button onClick={() => update({ steps: [...bug.steps, ""] }, "steps")} style={{ ...iconButton, color: "#3a7dff", padding: 0 }}>
+            + Add step
+          </button>
+        </Field>
+
+        <div style={{ display: "flex", gap: 10 }}>
+          <div style={{ flex: 1 }}>
+            <Field label="Expected result">
+              <textarea
+                value={bug.expectedResult || ""}
+                onChange={(e) => update({ expectedResult: e.target.value })}
+                style={{ ...inputStyle, height: 60, resize: "vertical" }}
+              />
+            </Field>
+          </div>
+          <div style={{ flex: 1 }}>
+            <Field label="Actual result">
+              <textarea
+                value={bug.actualResult || ""}
+                onChange={(e) => update({ actualResult: e.target.value })}
+                style={{ ...inputStyle, height: 60, resize: "vertical" }}
+              />
+            </Field>
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 10 }}>
+          <div style={{ flex: 1 }}>
+            <Field label="Severity">
+              <select
+                value={bug.severity || ""}
+                onChange={(e) => update({ severity: (e.target.value || undefined) as BugSeverity | undefined })}
+                style={inputStyle}
+              >
+                <option value="">—</option>
+                {BUG_SEVERITIES.map((s) => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </Field>
+          </div>
+          <div style={{ flex: 1 }}>
+            <Field label="Priority">
+              <select
+                value={bug.priority || ""}
+                onChange={(e) => update({ priority: (e.target.value || undefined) as BugPriority | undefined })}
+                style={inputStyle}
+              >
+                <option value="">—</option>
+                {BUG_PRIORITIES.map((p) => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </Field>
+          </div>
+          <div style={{ flex: 2 }}>
+            <Field label="Component">
+              <input value={bug.component || ""} onChange={(e) => update({ component: e.target.value })} style={inputStyle} />
+            </Field>
+          </div>
+        </div>
+
+        <Field label="Labels (comma separated)">
+          <input value={labelsText} onChange={(e) => setLabelsText(e.target.value)} placeholder="checkout, regression" style={inputStyle} />
+        </Field>
+
+        <Field label="Environment">
+          {bug.environmentInfo ? (
+            <div style={{ background: "#252525", border: "1px solid #333", borderRadius: 6, padding: "6px 8px", marginBottom: 6, fontSize: 12 }}>
+              {environmentFields(bug.environmentInfo).filter(([, value]) => value).map(([label, value]) => (
+                <div key={label} style={{ display: "flex", gap: 8 }}>
+                  <span style={{ width: 110, flexShrink: 0, color: "#888" }}>{label}</span>
+                  <span style={{ color: "#ddd", wordBreak: "break-all" }}>{value}</span>
+                </div>
+              ))}
+              <div style={{ marginTop: 4, color: "#888", display: "flex", justifyContent: "space-between" }}>
+                <span>Captured {new Date(bug.environmentInfo.capturedAt).toLocaleString()}</span>
+                <button onClick={recaptureEnvironment} disabled={!!busy} style={{ ...iconButton, color: "#3a7dff" }}>↻ Recapture</button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={recaptureEnvironment} disabled={!!busy} style={{ ...iconButton, color: "#3a7dff", padding: 0, marginBottom: 6 }}>
+              + Capture environment
+            </button>
+          )}
+          <textarea
+            value={bug.environment || ""}
+            onChange={(e) => update({ environment: e.target.value })}
+            placeholder="Notes: account, feature flags, test data..."
+            style={{ ...inputStyle, height: 48, resize: "vertical" }}
+          />
+        </Field>
+
+        <Field label="Attachments">
+          {bug.screenshots.length > 0 && (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 6 }}>
+              {bug.screenshots.map((s) => (
+                <div key={s.mediaId} style={{ position: "relative" }}>
+                  {thumbs[s.mediaId] ? (
+                    <img src={thumbs[s.mediaId]} alt="Screenshot" style={{ height: 70, borderRadius: 4, border: "1px solid #555", display: "block" }} />
+                  ) : (
+                    <div style={{ height: 70, width: 100, background: "#333", borderRadius: 4 }} />
+                  )}
+                  <button
+                    onClick={() => update({ screenshots: bug.screenshots.filter((x) => x.mediaId !== s.mediaId) })}
+                    title="Remove screenshot"
+                    style={{ ...iconButton, position: "absolute", top: 2, right: 2, background: "rgba(0,0,0,0.6)", borderRadius: 4, color: "#fff" }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {bug.recording && (
+            <AttachmentRow label={`🎥 Tab recording (${Math.round(bug.recording.size / 1024)} KB)`} onRemove={() => update({ recording: null })}>
+              <button onClick={() => bug.recording && openMedia(bug.recording)} style={{ ...iconButton, color: "#3a7dff" }}>Open</button>
+            </AttachmentRow>
+          )}
+          {bug.domRecording && (
+            <AttachmentRow label={`🎞️ DOM recording (${Math.round(bug.domRecording.size / 1024)} KB)`} onRemove={() => update({ domRecording: null })} />
+          )}
+          {bug.replayActions?.length ? (
+            <AttachmentRow
+              label={`🔁 ${bug.replayActions.length} recorded action(s)${bug.testScript ? " + Playwright test" : ""}`}
+              onRemove={() => update({ replayActions: [], testScript: null, replayRun: undefined })}
+            />
+          ) : null}
+          {bug.errorGroup && bug.errorGroup.count > 1 && (
+            <AttachmentRow
+              label={`🔂 ${bug.errorGroup.count} occurrence(s) on ${bug.errorGroup.urls.length || 1} page(s)`}
+              onRemove={() => update({ errorGroup: null })}
+            />
+          )}
+          {bug.occurrenceNotes?.length ? (
+            <AttachmentRow
+              label={`📝 Seen again ${bug.occurrenceNotes.length} time(s) since filing${bug.occurrenceNotes.some((n) => n.regression) ? " (regression)" : ""}`}
+              onRemove={() => update({ occurrenceNotes: [] })}
+            />
+          ) : null}
+          {bug.symbolicatedStack && (
+            <AttachmentRow
+              label={`🧭 Resolved stack (${bug.symbolicatedStack.resolved}/${bug.symbolicatedStack.frames.length} frame(s) mapped)`}
+              onRemove={() => update({ symbolicatedStack: null })}
+            />
+          )}
+          {bug.appData && (
+            <AttachmentRow
+              label={`🧩 App data (${bug.appData.breadcrumbs.length} breadcrumb(s), ${Object.keys(bug.appData.state).length} state snapshot(s)${bug.appData.user ? ", user" : ""})`}
+              onRemove={() => update({ appData: null })}
+            />
+          )}
+          {bug.har && (
+            <AttachmentRow label={`📎 HAR (${bug.har.log.entries.length} request(s))`} onRemove={() => update({ har: null })} />
+          )}
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginTop: 6 }}>
+            <button onClick={attachScreenshot} disabled={!!busy} style={buttonStyle("#555")}>+ Screenshot</button>
+            <button onClick={() => fileInput.current?.click()} disabled={!!busy} style={buttonStyle("#555")}>+ Image file</button>
+            {!bug.recording && <button onClick={attachRecording} disabled={!!busy} style={buttonStyle("#555")}>+ Tab recording</button>}
+            {!bug.domRecording && <button onClick={attachDomRecording} disabled={!!busy} style={buttonStyle("#555")}>+ DOM recording</button>}
+            {!bug.replayActions?.length && <button onClick={attachReplay} disabled={!!busy} style={buttonStyle("#555")}>+ Replay actions</button>}
+            {busy && <span style={{ fontSize: 12, color: "#a0a0a0", alignSelf: "center" }}>Attaching {busy}...</span>}
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            multiple
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const files = Array.from(e.target.files || []);
+              e.target.value = "";
+              if (files.length) withBusy("image", () => addImages(files));
+            }}
+          />
+        </Field>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginTop: 10 }}>
+          <button onClick={cancel} style={buttonStyle("#555")}>{isNew ? "Discard" : "Cancel"}</button>
+          <button onClick={save} disabled={!bug.title.trim()} style={{ ...buttonStyle("#3a7dff"), opacity: bug.title.trim() ? 1 : 0.5 }}>
+            {isNew ? "Save bug" : "Save changes"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+// extension/devtools/components/BugLibrary.tsx
+// "Bug library" section of the DevTools panel: every bug created so far (utils/bugLibrary.ts),
+// with search, a source filter, open / duplicate / delete and bulk export of the ticked entries.
+import React, { useEffect, useState } from "react";
+import {
+  BUG_LIBRARY_KEY,
+  BUG_SOURCE_LABELS,
+  BUG_STATUS_LABELS,
+  BugEntry,
+  BugSourceType,
+  BugStatus,
+  deleteBugs,
+  duplicateBug,
+  exportBugs,
+  filterBugs,
+  listBugs,
+} from "../../utils/bugLibrary";
+
+const STATUS_COLOR: Record<BugStatus, string> = {
+  draft: "#888",
+  filed: "#1a911a",
+  exported: "#3a7dff",
+  fixed: "#b57bff",
+};
+
+const smallButton = (background: string): React.CSSProperties => ({
+  background,
+  color: "white",
+  padding: "3px 8px",
+  borderRadius: 6,
+  border: "none",
+  cursor: "pointer",
+  fontSize: 11,
+});
+
+export default function BugLibrary({
+  openId,
+  onOpen,
+  onStatus,
+}: {
+  openId: string | null;
+  onOpen: (bug: BugEntry) => void;
+  onStatus: (message: string) => void;
+}) {
+  const [bugs, setBugs] = useState<BugEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [sourceType, setSourceType] = useState<BugSourceType | "all">("all");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    listBugs().then(setBugs);
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === "local" && changes[BUG_LIBRARY_KEY]) {
+        const next: BugEntry[] = Array.isArray(changes[BUG_LIBRARY_KEY].newValue) ? changes[BUG_LIBRARY_KEY].newValue : [];
+        setBugs(next);
+        setSelected((prev) => new Set([...prev].filter((id) => next.some((b) => b.id === id))));
+      }
+    };
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, []);
+
+  const visible = filterBugs(bugs, { query, sourceType });
+  const picked = bugs.filter((b) => selected.has(b.id));
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const remove = async (ids: string[]) => {
+    if (!confirm(`Delete ${ids.length} bug(s) from the library?`)) return;
+    await deleteBugs(ids);
+    onStatus(`Deleted ${ids.length} bug(s)`);
+  };
+
+  const duplicate = async (id: string) => {
+    const copy = await duplicateBug(id);
+    if (copy) onStatus(`Duplicated as "${copy.title}"`);
+  };
+
+  const exportPicked = async () => {
+    try {
+      await exportBugs(picked);
+      onStatus(`Exported ${picked.length} bug(s) ✅`);
+    } catch (err) {
+      onStatus("Export failed: " + String(err));
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+        <div style={{ fontSize: 13, fontWeight: 600, color: "#f0f0f0" }}>
+          Bug library <span style={{ color: "#888", fontWeight: 400 }}>({bugs.length})</span>
+        </div>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button onClick={exportPicked} disabled={!picked.length} style={{ ...smallButton("#3a7dff"), opacity: picked.length ? 1 : 0.5 }}>
+            Export selected ({picked.length})
+          </button>
+          <button onClick={() => remove(picked.map((b) => b.id))} disabled={!picked.length} style={{ ...smallButton("#555"), opacity: picked.length ? 1 : 0.5 }}>
+            Delete selected
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 6, marginBottom: 6 }}>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search title, description, steps..."
+          style={{ flex: 1, background: "#1b1f2b", color: "#eee", border: "1px solid #444", borderRadius: 6, padding: "4px 8px", fontSize: 12 }}
+        />
+        <select
+          value={sourceType}
+          onChange={(e) => setSourceType(e.target.value as BugSourceType | "all")}
+          style={{ background: "#1b1f2b", color: "#eee", border: "1px solid #444", borderRadius: 6, fontSize: 12 }}
+        >
+          <option value="all">All sources</option>
+          {(Object.keys(BUG_SOURCE_LABELS) as BugSourceType[]).map((type) => (
+            <option key={type} value={type}>{BUG_SOURCE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{
+        maxHeight: 260,
+        overflow: "auto",
+        border: "1px solid #444",
+        padding: 6,
+        borderRadius: 6,
+        background: "#252525"
+      }}>
+        {visible.length === 0 && (
+          <div style={{ color: "#888", fontSize: 12 }}>{bugs.length ? "No bugs match the filter" : "No bugs created yet"}</div>
+        )}
+        {visible.map((b) => (
+          <div
+            key={b.id}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+              padding: "4px 6px",
+              borderRadius: 4,
+              fontSize: 12,
+              background: b.id === openId ? "#2f3b55" : "transparent",
+            }}
+          >
+            <input type="checkbox" checked={selected.has(b.id)} onChange={() => toggle(b.id)} />
+            <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", color: "#ddd" }} title={b.title}>
+              {b.title}
+            </span>
+            <span style={{ color: "#b0b0b0" }}>{BUG_SOURCE_LABELS[b.source?.type] || b.source?.type}</span>
+            <span style={{ color: STATUS_COLOR[b.status], fontWeight: 600 }}>{BUG_STATUS_LABELS[b.status]}</span>
+            <span style={{ color: "#888" }} title={`Updated ${new Date(b.updatedAt).toLocaleString()}`}>
+              {new Date(b.createdAt).toLocaleString()}
+            </span>
+            <button onClick={() => onOpen(b)} style={smallButton("#3a7dff")}>Open</button>
+            <button onClick={() => duplicate(b.id)} style={smallButton("#555")}>Duplicate</button>
+            <button onClick={() => remove([b.id])} style={smallButton("#555")}>Delete</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+// extension/devtools/components/BugTimeline.tsx
+// "Timeline" section of the DevTools panel: the inspected tab's replay actions, navigations,
+// app breadcrumbs, console errors, captured requests and Instant Replay frames on one axis. Wheel zooms around
+// the pointer (shift+wheel pans), hovering scrubs through the frames, and dragging selects the
+// evidence window that the next bug is built from (see utils/bugTimeline.ts).
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { TabScope, readScoped, scopedKey } from "../../utils/tabScope";
+import { normalizeActions } from "../../utils/replayBuffer";
+import { NetworkEntry } from "../../utils/network";
+import { ReplayFrameRef, getMediaObjectUrl } from "../../utils/mediaStore";
+import { SdkBreadcrumb } from "../../utils/pageSdk";
+import {
+  EvidenceWindow,
+  TIMELINE_LANES,
+  TimelineConsoleEntry,
+  TimelineItem,
+  TimelineSources,
+  buildTimelineItems,
+  describeEvidenceWindow,
+  inEvidenceWindow,
+} from "../../utils/bugTimeline";
+
+const SOURCE_KEYS = ["recentActions", "recentConsoleErrors", "recentNetworkRequests", "recentScreenshots", "recentBreadcrumbs"] as const;
+const LABEL_WIDTH = 80;
+const LANE_HEIGHT = 22;
+const MIN_SPAN_MS = 500;
+const PAD_MS = 1000;
+const TICKS = 5;
+const DRAG_THRESHOLD_PX = 4;
+
+const EMPTY: TimelineSources = { actions: [], consoleErrors: [], network: [], screenshots: [], breadcrumbs: [] };
+
+function itemColor(item: TimelineItem) {
+  if (item.severity === "error") return "#ff6b6b";
+  if (item.severity === "warn") return "#e0b341";
+  switch (item.lane) {
+    case "action":
+      return "#3a7dff";
+    case "navigation":
+      return "#b57bff";
+    case "app":
+      return "#26c6da";
+    case "network":
+      return "#4caf50";
+    default:
+      return "#888";
+  }
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: "#555",
+  color: "#f0f0f0",
+  padding: "2px 8px",
+  borderRadius: 4,
+  border: "1px solid #666",
+  cursor: "pointer",
+  fontSize: 11,
+};
+
+type Props = {
+  scope: TabScope | null;
+  selection: EvidenceWindow | null;
+  onSelectionChange: (win: EvidenceWindow | null) => void;
+};
+
+export default function BugTimeline({ scope, selection, onSelectionChange }: Props) {
+  const [sources, setSources] = useState<TimelineSources>(EMPTY);
+  const [view, setView] = useState<EvidenceWindow | null>(null); // null: fit everything
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [drag, setDrag] = useState<{ startX: number; from: number; to: number } | null>(null);
+  const [picked, setPicked] = useState<TimelineItem | null>(null);
+  const [thumb, setThumb] = useState<string | null>(null);
+  const trackRef = useRef<HTMLDivElement | null>(null);
+
+  // ── sources ────────────────────────────────────────────────
+  useEffect(() => {
+    if (!scope) return;
+    const load = async () => {
+      const [actions, consoleErrors, network, screenshots, breadcrumbs] = await Promise.all([
+        readScoped("recentActions", scope),
+        readScoped<TimelineConsoleEntry>("recentConsoleErrors", scope),
+        readScoped<NetworkEntry>("recentNetworkRequests", scope),
+        readScoped<ReplayFrameRef>("recentScreenshots", scope),
+        readScoped<SdkBreadcrumb>("recentBreadcrumbs", scope),
+      ]);
+      setSources({ actions: normalizeActions(actions), consoleErrors, network, screenshots, breadcrumbs });
+    };
+    load();
+    const keys = SOURCE_KEYS.map((base) => scopedKey(base, scope));
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === "local" && keys.some((k) => changes[k])) load();
+    };
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, [scope]);
+
+  const items = useMemo(() => buildTimelineItems(sources), [sources]);
+
+  const extent = useMemo<EvidenceWindow | null>(() => {
+    if (!items.length) return null;
+    const from = items[0].ts;
+    const to = Math.max(...items.map((i) => i.end ?? i.ts));
+    return { from: from - PAD_MS, to: Math.max(to, from + MIN_SPAN_MS) + PAD_MS };
+  }, [items]);
+
+  const shown = view || extent;
+
+  // ── coordinates ────────────────────────────────────────────
+  const pct = (ts: number) => (shown ? ((ts - shown.from) / (shown.to - shown.from)) * 100 : 0);
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || !shown) return 0;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return shown.from + ratio * (shown.to - shown.from);
+  };
+
+  const zoom = (factor: number, around?: number) => {
+    if (!shown || !extent) return;
+    const center = around ?? (shown.from + shown.to) / 2;
+    const span = Math.max(MIN_SPAN_MS, (shown.to - shown.from) * factor);
+    if (span >= extent.to - extent.from) {
+      setView(null);
+      return;
+    }
+    const ratio = (center - shown.from) / (shown.to - shown.from);
+    setView(clampView(center - ratio * span, span));
+  };
+
+  const pan = (fraction: number) => {
+    if (!shown || !view) return;
+    const span = shown.to - shown.from;
+    setView(clampView(shown.from + span * fraction, span));
+  };
+
+  const clampView = (from: number, span: number): EvidenceWindow => {
+    const lo = extent!.from;
+    const hi = extent!.to - span;
+    const start = Math.min(Math.max(from, lo), Math.max(lo, hi));
+    return { from: start, to: start + span };
+  };
+
+  const hasTrack = Boolean(shown);
+  // wheel needs a non-passive listener to keep the panel from scrolling
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => undefined);
+  wheelRef.current = (e: WheelEvent) => {
+    if (!shown) return;
+    e.preventDefault();
+    if (e.shiftKey) pan(Math.sign(e.deltaY || e.deltaX) * 0.1);
+    else zoom(e.deltaY > 0 ? 1.25 : 0.8, timeAt(e.clientX));
+  };
+  useEffect(() => {
+    const el = trackRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => wheelRef.current(e);
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [hasTrack]);
+
+  // ── scrubbing + range selection ────────────────────────────
+  const onMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const t = timeAt(e.clientX);
+    setDrag({ startX: e.clientX, from: t, to: t });
+  };
+
+  const onMouseMove = (e: React.MouseEvent) => {
+    const t = timeAt(e.clientX);
+    setCursor(t);
+    if (drag) setDrag({ ...drag, to: t });
+  };
+
+  const onMouseUp = (e: React.MouseEvent) => {
+    if (!drag) return;
+    if (Math.abs(e.clientX - drag.startX) >= DRAG_THRESHOLD_PX) {
+      onSelectionChange({ from: Math.min(drag.from, drag.to), to: Math.max(drag.from, drag.to) });
+    } else {
+      // a click picks the nearest event on the clicked lane
+      const rect = trackRef.current!.getBoundingClientRect();
+      const laneIdx = Math.floor((e.clientY - rect.top) / LANE_HEIGHT);
+      const lane = TIMELINE_LANES[laneIdx]?.lane;
+      const t = timeAt(e.clientX);
+      const near = items
+        .filter((i) => i.lane === lane)
+        .sort((a, b) => Math.abs(a.ts - t) - Math.abs(b.ts - t))[0];
+      setPicked(near || null);
+    }
+    setDrag(null);
+  };
+
+  // frame under the cursor (the last one captured before it)
+  const frame = useMemo(() => {
+    if (cursor == null) return null;
+    const frames = items.filter((i) => i.lane === "screenshot" && i.ts <= cursor);
+    return frames[frames.length - 1] || null;
+  }, [items, cursor]);
+
+  useEffect(() => {
+    if (!frame?.mediaId) {
+      setThumb(null);
+      return;
+    }
+    let url: string | null = null;
+    let cancelled = false;
+    getMediaObjectUrl(frame.mediaId)
+      .then((u) => {
+        url = u;
+        if (!cancelled) setThumb(u);
+      })
+      .catch(() => setThumb(null));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [frame?.mediaId]);
+
+  const selected = useMemo(() => {
+    if (!selection) return null;
+    const inside = items.filter((i) => inEvidenceWindow(i.ts, selection, i.end ?? i.ts));
+    const count = (lane: string) => inside.filter((i) => i.lane === lane).length;
+    return `${count("action")} action(s), ${count("app")} breadcrumb(s), ${count("console")} console message(s), ${count("network")} request(s), ${count("screenshot")} frame(s)`;
+  }, [items, selection]);
+
+  const band = drag && Math.abs(drag.to - drag.from) > 0 ? { from: Math.min(drag.from, drag.to), to: Math.max(drag.from, drag.to) } : selection;
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+        <div style={{ fontSize: 13, fontWeight: 600, color: "#f0f0f0" }}>
+          Timeline <span style={{ color: "#888", fontWeight: 400 }}>(drag to choose the evidence window)</span>
+        </div>
+        <div style={{ display: "flex", gap: 4 }}>
+          <button style={buttonStyle} onClick={() => pan(-0.25)} disabled={!view} title="Pan left">◀</button>
+          <button style={buttonStyle} onClick={() => zoom(0.5)} disabled={!items.length} title="Zoom in">+</button>
+          <button style={buttonStyle} onClick={() => zoom(2)} disabled={!view} title="Zoom out">−</button>
+          <button style={buttonStyle} onClick={() => pan(0.25)} disabled={!view} title="Pan right">▶</button>
+          <button style={buttonStyle} onClick={() => setView(null)} disabled={!view} title="Show everything">Fit</button>
+        </div>
+      </div>
+
+      <div style={{ border: "1px solid #444", borderRadius: 6, background: "#252525", padding: 6 }}>
+        {!shown && <div style={{ color: "#888", fontSize: 12 }}>Nothing recorded in this tab yet</div>}
+        {shown && (
+          <>
+            <div style={{ display: "flex" }}>
+              <div style={{ width: LABEL_WIDTH, flexShrink: 0 }}>
+                {TIMELINE_LANES.map((l) => (
+                  <div key={l.lane} style={{ height: LANE_HEIGHT, lineHeight: `${LANE_HEIGHT}px`, fontSize: 11, color: "#b0b0b0" }}>
+                    {l.label}
+                  </div>
+                ))}
+              </div>
+              <div
+                ref={trackRef}
+                onMouseDown={onMouseDown}
+                onMouseMove={onMouseMove}
+                onMouseUp={onMouseUp}
+                onMouseLeave={() => {
+                  setCursor(null);
+                  setDrag(null);
+                }}
+                style={{ position: "relative", flex: 1, height: LANE_HEIGHT * TIMELINE_LANES.length, overflow: "hidden", cursor: "crosshair", userSelect: "none" }}
+              >
+                {TIMELINE_LANES.map((l, i) => (
+                  <div key={l.lane} style={{ position: "absolute", left: 0, right: 0, top: i * LANE_HEIGHT, height: LANE_HEIGHT, background: i % 2 ? "#2b2b2b" : "#303030" }} />
+                ))}
+                {band && (
+                  <div style={{ position: "absolute", top: 0, bottom: 0, left: `${pct(band.from)}%`, width: `${pct(band.to) - pct(band.from)}%`, background: "rgba(58,125,255,0.2)", borderLeft: "1px solid #3a7dff", borderRight: "1px solid #3a7dff" }} />
+                )}
+                {items.map((item) => {
+                  const laneIdx = TIMELINE_LANES.findIndex((l) => l.lane === item.lane);
+                  const left = pct(item.ts);
+                  const width = item.end ? Math.max(0, pct(item.end) - left) : 0;
+                  if (left > 100 || left + width < 0) return null;
+                  return (
+                    <div
+                      key={item.id}
+                      title={`${new Date(item.ts).toLocaleTimeString()} — ${item.label}`}
+                      style={{
+                        position: "absolute",
+                        top: laneIdx * LANE_HEIGHT + 6,
+                        left: `${left}%`,
+                        width: width ? `max(${width}%, 6px)` : 6,
+                        height: LANE_HEIGHT - 12,
+                        marginLeft: width ? 0 : -3,
+                        borderRadius: 3,
+                        background: itemColor(item),
+                        outline: picked?.id === item.id ? "2px solid #fff" : "none",
+                        opacity: selection && !inEvidenceWindow(item.ts, selection, item.end ?? item.ts) ? 0.35 : 1,
+                      }}
+                    />
+                  );
+                })}
+                {cursor != null && (
+                  <div style={{ position: "absolute", top: 0, bottom: 0, left: `${pct(cursor)}%`, width: 1, background: "#f0f0f0", pointerEvents: "none" }} />
+                )}
+              </div>
+            </div>
+
+            <div style={{ display: "flex", marginLeft: LABEL_WIDTH, justifyContent: "space-between", fontSize: 10, color: "#888", marginTop: 2 }}>
+              {Array.from({ length: TICKS }, (_, i) => (
+                <span key={i}>{new Date(shown.from + ((shown.to - shown.from) * i) / (TICKS - 1)).toLocaleTimeString()}</span>
+              ))}
+            </div>
+
+            <div style={{ display: "flex", gap: 8, marginTop: 6, alignItems: "flex-start", fontSize: 12 }}>
+              {thumb && (
+                <img src={thumb} alt="Frame at cursor" style={{ width: 160, borderRadius: 4, border: "1px solid #555", flexShrink: 0 }} />
+              )}
+              <div style={{ flex: 1, minWidth: 0, color: "#ccc" }}>
+                {cursor != null && <div style={{ color: "#888" }}>{new Date(cursor).toLocaleTimeString()}</div>}
+                {picked && (
+                  <div style={{ wordBreak: "break-all" }}>
+                    <strong style={{ color: itemColor(picked) }}>{TIMELINE_LANES.find((l) => l.lane === picked.lane)?.label}</strong>{" "}
+                    {new Date(picked.ts).toLocaleTimeString()} — {picked.label}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {selection && (
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: 6, fontSize: 12, color: "#b0b0b0" }}>
+          <span>
+            Evidence window {describeEvidenceWindow(selection)} — {selected}
+          </span>
+          <button
+            onClick={() => onSelectionChange(null)}
+            style={{ background: "none", border: "none", color: "#3a7dff", cursor: "pointer", fontSize: 11 }}
+          >
+            Clear range
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+// extension/devtools/components/ConsoleToolbar.tsx
+// Search / filter bar above the DevTools console list (utils/consoleFilter.ts), with "Clear" to
+// empty the tab's captured messages.
+import React from "react";
+import {
+  CONSOLE_KINDS,
+  CONSOLE_TIME_RANGES,
+  ConsoleFilter,
+  ConsoleKind,
+  DEFAULT_CONSOLE_FILTER,
+  isFilterActive,
+} from "../../utils/consoleFilter";
+
+const inputStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderRadius: 4,
+  border: "1px solid #444",
+  background: "#1b1f2b",
+  color: "#eee",
+  fontSize: 12,
+};
+
+const linkButton: React.CSSProperties = { background: "none", border: "none", color: "#3a7dff", cursor: "pointer", fontSize: 11 };
+
+export default function ConsoleToolbar({
+  filter,
+  onChange,
+  shown,
+  total,
+  hasWindow,
+  onClear,
+  searchRef,
+}: {
+  filter: ConsoleFilter;
+  onChange: (filter: ConsoleFilter) => void;
+  shown: number; // messages left after filtering
+  total: number;
+  hasWindow: boolean; // a range is selected on the timeline
+  onClear: () => void;
+  searchRef?: React.Ref<HTMLInputElement>;
+}) {
+  const set = (patch: Partial<ConsoleFilter>) => onChange({ ...filter, ...patch });
+
+  const toggleKind = (kind: ConsoleKind) =>
+    set({ kinds: filter.kinds.includes(kind) ? filter.kinds.filter((k) => k !== kind) : [...filter.kinds, kind] });
+
+  return (
+    <div style={{ marginBottom: 8, fontSize: 12, color: "#b0b0b0" }}>
+      <div style={{ display: "flex", gap: 6, marginBottom: 6 }}>
+        <input
+          ref={searchRef}
+          value={filter.query}
+          onChange={(e) => set({ query: e.target.value })}
+          placeholder="Search message and stack  ( / )"
+          style={{ ...inputStyle, flex: 2 }}
+        />
+        <input
+          value={filter.url}
+          onChange={(e) => set({ url: e.target.value })}
+          placeholder="URL or file"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <select value={filter.range} onChange={(e) => set({ range: e.target.value as ConsoleFilter["range"] })} style={inputStyle}>
+          {CONSOLE_TIME_RANGES.filter((r) => r.range !== "window" || hasWindow || filter.range === "window").map((r) => (
+            <option key={r.range} value={r.range}>
+              {r.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        {CONSOLE_KINDS.map(({ kind, label }) => (
+          <label key={kind} style={{ cursor: "pointer" }}>
+            <input type="checkbox" checked={filter.kinds.includes(kind)} onChange={() => toggleKind(kind)} /> {label}
+          </label>
+        ))}
+        <span style={{ flex: 1 }} />
+        <span style={{ color: "#888" }}>
+          {shown === total ? `${total} message(s)` : `${shown} of ${total} message(s)`}
+        </span>
+        {isFilterActive(filter) && (
+          <button onClick={() => onChange(DEFAULT_CONSOLE_FILTER)} style={linkButton}>
+            Reset filters
+          </button>
+        )}
+        <button onClick={onClear} disabled={total === 0} style={{ ...linkButton, color: total ? "#ff6b6b" : "#666" }}>
+          Clear
+        </button>
+      </div>
+      <div style={{ marginTop: 4, fontSize: 11, color: "#777" }}>
+        ↑/↓ move between entries · Ctrl/⌘+Enter creates a bug from the focused entry
+      </div>
+    </div>
+  );
+}
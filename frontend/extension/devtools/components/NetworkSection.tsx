@@ -0,0 +1,153 @@
+// extension/devtools/components/NetworkSection.tsx
+// "Network" section of the DevTools panel: lists failed and slow requests of the inspected tab
+// (chrome.devtools.network) and lets the user tick the ones to attach to the next bug as HAR.
+import React, { useEffect, useRef, useState } from "react";
+import { HarEntry, SLOW_REQUEST_MS, harEntryKey, isFailedEntry, isSlowEntry, trimHarEntry } from "../../utils/har";
+import { getMaskingPolicy } from "../../utils/maskingPolicy";
+
+type Row = {
+  key: string;
+  entry: HarEntry;
+  request?: chrome.devtools.network.Request; // only live requests can return their body
+};
+
+const MAX_ROWS = 300;
+
+function readContent(request?: chrome.devtools.network.Request): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!request?.getContent) return resolve(null);
+    try {
+      request.getContent((content, encoding) => resolve(encoding ? null : content || null));
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+export default function NetworkSection({ onSelectionChange }: { onSelectionChange: (entries: HarEntry[]) => void }) {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showFailed, setShowFailed] = useState(true);
+  const [showSlow, setShowSlow] = useState(true);
+  const rowsRef = useRef<Row[]>([]);
+  rowsRef.current = rows;
+
+  useEffect(() => {
+    const network = chrome.devtools?.network;
+    if (!network) return;
+
+    const interesting = (e: HarEntry) => isFailedEntry(e) || isSlowEntry(e);
+
+    network.getHAR((harLog: any) => {
+      const entries: HarEntry[] = Array.isArray(harLog?.entries) ? harLog.entries : [];
+      const initial = entries.filter(interesting).map((entry) => ({ key: harEntryKey(entry), entry }));
+      setRows((prev) => {
+        const known = new Set(prev.map((r) => r.key));
+        return [...initial.filter((r) => !known.has(r.key)), ...prev].slice(-MAX_ROWS);
+      });
+    });
+
+    const onFinished = (request: chrome.devtools.network.Request) => {
+      const entry = request as unknown as HarEntry;
+      if (!interesting(entry)) return;
+      const key = harEntryKey(entry);
+      setRows((prev) => (prev.some((r) => r.key === key) ? prev : [...prev, { key, entry, request }].slice(-MAX_ROWS)));
+    };
+
+    network.onRequestFinished.addListener(onFinished);
+    return () => network.onRequestFinished.removeListener(onFinished);
+  }, []);
+
+  // Push trimmed + redacted entries (with bodies where DevTools still has them) to the parent
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const picked = rowsRef.current.filter((r) => selected.has(r.key));
+      const policy = await getMaskingPolicy();
+      const trimmed = await Promise.all(picked.map(async (r) => trimHarEntry(r.entry, await readContent(r.request), policy)));
+      if (!cancelled) onSelectionChange(trimmed);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, onSelectionChange]);
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const visible = rows
+    .filter((r) => (showFailed && isFailedEntry(r.entry)) || (showSlow && isSlowEntry(r.entry)))
+    .slice()
+    .reverse();
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+        <div style={{ fontSize: 13, fontWeight: 600, color: "#f0f0f0" }}>
+          Network <span style={{ color: "#888", fontWeight: 400 }}>({selected.size} selected for bug)</span>
+        </div>
+        <div style={{ display: "flex", gap: 10, fontSize: 11, color: "#b0b0b0" }}>
+          <label>
+            <input type="checkbox" checked={showFailed} onChange={(e) => setShowFailed(e.target.checked)} /> Failed
+          </label>
+          <label>
+            <input type="checkbox" checked={showSlow} onChange={(e) => setShowSlow(e.target.checked)} /> Slow (&gt;{SLOW_REQUEST_MS}ms)
+          </label>
+          {selected.size > 0 && (
+            <button
+              onClick={() => setSelected(new Set())}
+              style={{ background: "none", border: "none", color: "#3a7dff", cursor: "pointer", fontSize: 11 }}
+            >
+              Clear selection
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div style={{
+        maxHeight: 220,
+        overflow: "auto",
+        border: "1px solid #444",
+        padding: 6,
+        borderRadius: 6,
+        background: "#252525"
+      }}>
+        {visible.length === 0 && <div style={{ color: "#888", fontSize: 12 }}>No failed or slow requests in this tab yet</div>}
+        {visible.map((r) => {
+          const failed = isFailedEntry(r.entry);
+          return (
+            <label
+              key={r.key}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 8,
+                padding: "4px 6px",
+                borderRadius: 4,
+                fontSize: 12,
+                cursor: "pointer",
+                background: selected.has(r.key) ? "#2f3b55" : "transparent",
+              }}
+            >
+              <input type="checkbox" checked={selected.has(r.key)} onChange={() => toggle(r.key)} />
+              <span style={{ width: 36, color: failed ? "#ff6b6b" : "#e0b341", fontWeight: 600 }}>
+                {r.entry.response?.status || "ERR"}
+              </span>
+              <span style={{ width: 44, color: "#b0b0b0" }}>{r.entry.request?.method}</span>
+              <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", color: "#ddd" }} title={r.entry.request?.url}>
+                {r.entry.request?.url}
+              </span>
+              <span style={{ color: isSlowEntry(r.entry) ? "#e0b341" : "#888" }}>{Math.round(r.entry.time || 0)}ms</span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
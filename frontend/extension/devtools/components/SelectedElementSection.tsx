@@ -0,0 +1,109 @@
+// extension/devtools/components/SelectedElementSection.tsx
+// "Selected element" section of the DevTools panel: follows the Elements panel selection ($0)
+// and reports it as a bug (element screenshot + selector, outerHTML and computed styles).
+import React, { useCallback, useEffect, useState } from "react";
+import { DESCRIBE_ELEMENT_FN, ELEMENT_TARGET_ATTR, ElementInfo } from "../../utils/elementInfo";
+
+// Runs in selectionOverlay's content-script world, which registers DESCRIBE_ELEMENT_FN
+const DESCRIBE_SELECTED = `${DESCRIBE_ELEMENT_FN}($0)`;
+const MARK_SELECTED = `(() => { if (!($0 instanceof Element)) return false; $0.setAttribute(${JSON.stringify(ELEMENT_TARGET_ATTR)}, ""); return true; })()`;
+
+function evalInPage<T>(expression: string, options: { useContentScriptContext?: boolean } = {}): Promise<T | null> {
+  return new Promise((resolve) => {
+    chrome.devtools.inspectedWindow.eval(expression, options, (result: any, exceptionInfo: any) => {
+      if (exceptionInfo) {
+        console.warn("[BugSense] inspectedWindow.eval failed:", exceptionInfo);
+        resolve(null);
+        return;
+      }
+      resolve(result as T);
+    });
+  });
+}
+
+export default function SelectedElementSection({ onStatus }: { onStatus: (msg: string) => void }) {
+  const [selected, setSelected] = useState<ElementInfo | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(() => {
+    evalInPage<ElementInfo>(DESCRIBE_SELECTED, { useContentScriptContext: true }).then(setSelected);
+  }, []);
+
+  useEffect(() => {
+    const elements = chrome.devtools?.panels?.elements;
+    refresh();
+    if (!elements) return;
+    elements.onSelectionChanged.addListener(refresh);
+    return () => elements.onSelectionChanged.removeListener(refresh);
+  }, [refresh]);
+
+  const reportSelected = async () => {
+    setBusy(true);
+    try {
+      // describe again: the element may have changed since it was selected
+      const element = await evalInPage<ElementInfo>(DESCRIBE_SELECTED, { useContentScriptContext: true });
+      if (!element || !(await evalInPage<boolean>(MARK_SELECTED))) {
+        onStatus("Select an element in the Elements panel first");
+        return;
+      }
+      onStatus("Capturing selected element...");
+      // The background answers by broadcasting TRIGGER_BUG_CREATION_FROM_CONTEXT (mode "element")
+      const resp = await chrome.runtime.sendMessage({
+        action: "CAPTURE_ELEMENT",
+        tabId: chrome.devtools.inspectedWindow.tabId,
+        element,
+      });
+      if (!resp?.success) onStatus("Element capture failed: " + (resp?.error || "unknown error"));
+    } catch (err) {
+      onStatus("Element capture failed: " + String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div style={{ fontSize: 13, fontWeight: 600, color: "#f0f0f0", marginBottom: 6 }}>Selected element</div>
+      <div style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+        border: "1px solid #444",
+        padding: 8,
+        borderRadius: 6,
+        background: "#252525",
+        fontSize: 12
+      }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          {selected ? (
+            <>
+              <div style={{ color: "#ddd", fontFamily: "monospace", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={selected.selector}>
+                {selected.selector}
+              </div>
+              <div style={{ color: "#888", marginTop: 2 }}>
+                &lt;{selected.tagName}&gt; · {selected.rect.width}×{selected.rect.height}
+              </div>
+            </>
+          ) : (
+            <div style={{ color: "#888" }}>Pick an element in the Elements panel</div>
+          )}
+        </div>
+        <button
+          onClick={reportSelected}
+          disabled={!selected || busy}
+          style={{
+            background: "#3a7dff",
+            color: "white",
+            padding: "6px 10px",
+            borderRadius: 6,
+            border: "none",
+            cursor: selected && !busy ? "pointer" : "not-allowed",
+            opacity: selected && !busy ? 1 : 0.5
+          }}
+        >
+          {busy ? "Capturing..." : "Report selected element"}
+        </button>
+      </div>
+    </div>
+  );
+}
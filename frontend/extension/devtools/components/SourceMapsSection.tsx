@@ -0,0 +1,78 @@
+// extension/devtools/components/SourceMapsSection.tsx
+// "Source maps" section of the DevTools panel: .map files uploaded here are used before the
+// maps linked from the scripts (utils/symbolication.ts) — for builds that do not publish them.
+import React, { useEffect, useRef, useState } from "react";
+import { UploadedSourceMap, deleteSourceMap, listSourceMaps, uploadSourceMaps } from "../../utils/symbolication";
+
+export default function SourceMapsSection() {
+  const [maps, setMaps] = useState<UploadedSourceMap[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listSourceMaps().then(setMaps).catch(() => setMaps([]));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const onFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+    try {
+      await uploadSourceMaps(Array.from(files));
+    } catch (err) {
+      setError(`Not a usable source map: ${String(err)}`);
+    }
+    if (fileInput.current) fileInput.current.value = "";
+    refresh();
+  };
+
+  const remove = async (id: string) => {
+    await deleteSourceMap(id);
+    refresh();
+  };
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+        <div style={{ fontSize: 13, fontWeight: 600, color: "#f0f0f0" }}>
+          Source maps <span style={{ color: "#888", fontWeight: 400 }}>({maps.length} uploaded)</span>
+        </div>
+        <button
+          onClick={() => fileInput.current?.click()}
+          style={{ background: "#555", color: "white", padding: "4px 8px", borderRadius: 6, border: "none", cursor: "pointer", fontSize: 11 }}
+        >
+          Upload .map files
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".map,.json,application/json"
+          multiple
+          style={{ display: "none" }}
+          onChange={(e) => onFiles(e.target.files)}
+        />
+      </div>
+
+      <div style={{ border: "1px solid #444", padding: 6, borderRadius: 6, background: "#252525", fontSize: 12 }}>
+        {error && <div style={{ color: "#ff6b6b", marginBottom: 4 }}>{error}</div>}
+        {maps.length === 0 && (
+          <div style={{ color: "#888" }}>None — stacks are resolved with the maps the scripts link to (sourceMappingURL)</div>
+        )}
+        {maps.map((m) => (
+          <div key={m.id} style={{ display: "flex", alignItems: "center", gap: 8, padding: "2px 4px" }}>
+            <span style={{ flex: 1, fontFamily: "monospace", color: "#ddd" }}>{m.file}</span>
+            <span style={{ color: "#888" }}>{Math.round(m.size / 1024)} KB</span>
+            <button
+              onClick={() => remove(m.id)}
+              title="Remove"
+              style={{ background: "none", border: "none", color: "#888", cursor: "pointer" }}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+// extension/devtools/components/SymbolicatedStackView.tsx
+// A stack resolved through source maps (utils/symbolication.ts): original file / line / function
+// per frame, with the surrounding source lines and the frame's line highlighted. Frames without
+// a map keep their minified location.
+import React from "react";
+import { SymbolicatedStack, displaySource } from "../../utils/symbolication";
+
+export default function SymbolicatedStackView({ stack }: { stack: SymbolicatedStack }) {
+  return (
+    <div style={{ fontSize: 12, color: "#cccccc" }}>
+      <div style={{ color: "#888", marginBottom: 4 }}>
+        {stack.resolved} of {stack.frames.length} frame(s) resolved through source maps
+      </div>
+      {stack.frames.map((frame, i) => {
+        const original = frame.original;
+        return (
+          <div key={i} style={{ marginBottom: 6 }}>
+            <div style={{ fontFamily: "monospace", color: original ? "#f0f0f0" : "#888" }}>
+              {original ? (
+                <>
+                  <span style={{ color: "#7fb3ff" }}>{original.name || frame.fn || "<anonymous>"}</span>{" "}
+                  {displaySource(original.source)}:{original.line}:{original.column}
+                  {frame.mapFrom === "upload" && <span style={{ color: "#888" }}> (uploaded map)</span>}
+                </>
+              ) : (
+                frame.raw
+              )}
+            </div>
+            {frame.context && (
+              <pre
+                style={{
+                  margin: "4px 0 0",
+                  padding: 6,
+                  background: "#1b1f2b",
+                  border: "1px solid #333",
+                  borderRadius: 4,
+                  fontSize: 11,
+                  overflowX: "auto",
+                }}
+              >
+                {frame.context.lines.map((line, j) => {
+                  const lineNo = frame.context!.startLine + j;
+                  const current = lineNo === original?.line;
+                  return (
+                    <div key={j} style={{ background: current ? "#3a2a2a" : undefined, color: current ? "#ffb3b3" : "#bbb" }}>
+                      <span style={{ color: "#666", display: "inline-block", width: 40, textAlign: "right", marginRight: 8 }}>{lineNo}</span>
+                      {line}
+                    </div>
+                  );
+                })}
+              </pre>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
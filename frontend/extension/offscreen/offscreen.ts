@@ -0,0 +1,118 @@
+// extension/offscreen/offscreen.ts
+// Offscreen document that owns the tab-capture MediaRecorder. The MV3 service worker has no
+// getUserMedia/MediaRecorder, so the background hands us a tabCapture stream id and drives
+// us with OFFSCREEN_* messages. Offscreen documents only get chrome.runtime, so results go
+// back to the background as messages; the finished WebM is written straight to the media store.
+import { putMedia } from "../utils/mediaStore";
+
+let recorder: MediaRecorder | null = null;
+let stream: MediaStream | null = null;
+let chunks: Blob[] = [];
+let recordingTabId: number | null = null;
+
+const CHUNK_MS = 1000; // flush regularly so a stop never loses more than a second
+
+function report(action: string, extra: Record<string, any> = {}) {
+  chrome.runtime.sendMessage({ action, tabId: recordingTabId, ...extra }, () => {
+    void chrome.runtime.lastError;
+  });
+}
+
+function pickMimeType() {
+  const candidates = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+  return candidates.find((t) => MediaRecorder.isTypeSupported(t)) || "";
+}
+
+async function startRecording(streamId: string, tabId: number) {
+  if (recorder && recorder.state !== "inactive") throw new Error("Already recording");
+
+  // Chrome-specific constraints for a tabCapture stream id
+  stream = await navigator.mediaDevices.getUserMedia({
+    audio: false,
+    video: {
+      mandatory: { chromeMediaSource: "tab", chromeMediaSourceId: streamId },
+    } as any,
+  });
+
+  chunks = [];
+  recordingTabId = tabId;
+  const mimeType = pickMimeType();
+  recorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
+
+  recorder.ondataavailable = (e) => {
+    if (e.data && e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.onstop = () => {
+    finalize().catch((err) => report("RECORDING_FAILED", { error: String(err?.message || err) }));
+  };
+  recorder.onerror = (e: any) => {
+    console.error("[BugSense] MediaRecorder error:", e?.error || e);
+    if (recorder?.state !== "inactive") recorder?.stop();
+  };
+
+  // Tab closed / navigated to a page that can't be captured → finish what we have
+  stream.getVideoTracks().forEach((t) =>
+    t.addEventListener("ended", () => {
+      if (recorder && recorder.state !== "inactive") recorder.stop();
+    })
+  );
+
+  recorder.start(CHUNK_MS);
+}
+
+async function finalize() {
+  const type = recorder?.mimeType || "video/webm";
+  const blob = new Blob(chunks, { type: type.split(";")[0] });
+  stream?.getTracks().forEach((t) => t.stop());
+  const tabId = recordingTabId;
+
+  recorder = null;
+  stream = null;
+  chunks = [];
+
+  if (blob.size === 0) {
+    report("RECORDING_FAILED", { error: "Recording was empty" });
+  } else {
+    const ref = await putMedia({ kind: "recording", blob, tabId, meta: { source: "tabCapture" } });
+    report("RECORDING_SAVED", { ref });
+  }
+  recordingTabId = null;
+}
+
+chrome.runtime.onMessage.addListener((msg: any, _sender, sendResponse) => {
+  if (!msg || msg.target !== "offscreen") return;
+
+  (async () => {
+    try {
+      switch (msg.action) {
+        case "OFFSCREEN_START_RECORDING":
+          await startRecording(msg.streamId, msg.tabId);
+          break;
+        case "OFFSCREEN_PAUSE_RECORDING":
+          if (recorder?.state === "recording") recorder.pause();
+          break;
+        case "OFFSCREEN_RESUME_RECORDING":
+          if (recorder?.state === "paused") recorder.resume();
+          break;
+        case "OFFSCREEN_STOP_RECORDING":
+          // onstop → finalize() reports RECORDING_SAVED once the file is in the media store
+          if (recorder && recorder.state !== "inactive") recorder.stop();
+          break;
+        case "OFFSCREEN_PING":
+          break;
+        default:
+          sendResponse({ success: false, error: "Unknown offscreen action" });
+          return;
+      }
+      sendResponse({ success: true, state: recorder?.state ?? "inactive" });
+    } catch (err: any) {
+      console.error("[BugSense] Offscreen recorder:", err);
+      stream?.getTracks().forEach((t) => t.stop());
+      recorder = null;
+      stream = null;
+      sendResponse({ success: false, error: String(err?.message || err) });
+    }
+  })();
+
+  return true; // async response
+});
@@ -0,0 +1,46 @@
+// extension/player/player.ts
+// DOM replay player page: loads a recording from content/domRecorder.ts (media store,
+// ?media=<id>) and hands it to viewer.html, a manifest sandbox page that rebuilds and plays it.
+// The viewer has no extension APIs, so downloads come back here (PlayerMessage in domSnapshot.ts).
+import { getMediaBlob } from "../utils/mediaStore";
+import { PlayerMessage } from "../utils/domSnapshot";
+
+const viewer = document.getElementById("viewer") as HTMLIFrameElement;
+
+// The sandboxed viewer has an opaque origin, so messages can only be addressed with "*"
+function send(message: PlayerMessage) {
+    viewer.contentWindow?.postMessage(message, "*");
+}
+
+async function load(): Promise<any> {
+    const mediaId = new URLSearchParams(location.search).get("media");
+    if (!mediaId) throw new Error("No recording given");
+    const blob = await getMediaBlob(mediaId);
+    if (!blob) throw new Error("Recording not found — it may have been evicted from storage");
+    return JSON.parse(await blob.text());
+}
+
+function download(html: string, filename: string) {
+    const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+window.addEventListener("message", async (ev: MessageEvent) => {
+    if (ev.source !== viewer.contentWindow) return;
+    const data = ev.data as PlayerMessage;
+    if (data?.source !== "bugsense-viewer") return;
+
+    if (data.type === "ready") {
+        try {
+            send({ source: "bugsense-player", type: "recording", recording: await load() });
+        } catch (err) {
+            send({ source: "bugsense-player", type: "error", message: String((err as Error)?.message || err) });
+        }
+    } else if (data.type === "download") {
+        download(String(data.html), String(data.filename).replace(/[^\w.-]/g, "_"));
+    }
+});
@@ -0,0 +1,410 @@
+// extension/player/viewer.ts
+// DOM replay viewer: gets a recording from content/domRecorder.ts from the player page
+// (player.ts, which reads the media store) and rebuilds it in an iframe (no scripts run; the
+// recording has none anyway).
+// Seeking rebuilds from the last snapshot before the target time and applies the events after
+// it; playback applies events as the clock passes them. "Inspect" picks elements of the rebuilt
+// page and shows their markup; "Download HTML" saves the page as it is at the current time.
+// This is a manifest sandbox page: remote images, fonts and cross-origin stylesheets load through
+// its own CSP (content_security_policy.sandbox) instead of the extension pages' one.
+import {
+    DOCUMENT_NODE_ID,
+    DomEvent,
+    DomEventOfKind,
+    DomRecording,
+    PlayerMessage,
+    SerializedNode,
+    formatDuration,
+    isDomRecording,
+} from "../utils/domSnapshot";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XLINK_NS = "http://www.w3.org/1999/xlink";
+const CLICK_FLASH_MS = 300;
+const MAX_INSPECT_HTML = 4000;
+
+const $ = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+const frame = $<HTMLIFrameElement>("frame");
+const viewport = $<HTMLDivElement>("viewport");
+const stage = $<HTMLDivElement>("stage");
+const cursor = $<HTMLDivElement>("cursor");
+const highlight = $<HTMLDivElement>("highlight");
+const inspectLayer = $<HTMLDivElement>("inspectLayer");
+const playBtn = $<HTMLButtonElement>("play");
+const seekBar = $<HTMLInputElement>("seek");
+const timeLabel = $<HTMLSpanElement>("time");
+const speedSelect = $<HTMLSelectElement>("speed");
+const inspectBtn = $<HTMLButtonElement>("inspect");
+const downloadBtn = $<HTMLButtonElement>("download");
+const status = $<HTMLDivElement>("status");
+
+let recording: DomRecording;
+let nodes = new Map<number, Node>();
+let cursorIndex = 0; // next event to apply
+let appliedUntil = -1; // absolute timestamp the iframe reflects
+let playing = false;
+let lastTick = 0;
+let current = 0; // ms since recording start
+let size = { width: 0, height: 0 };
+let scale = 1;
+let inspecting = false;
+let clickTimer = 0;
+
+const duration = () => recording.endedAt - recording.startedAt;
+const frameDoc = () => frame.contentDocument!;
+
+// ─────────────────────────────────────────────────────────────
+//  Rebuilding
+// ─────────────────────────────────────────────────────────────
+function setAttr(el: Element, name: string, value: string) {
+    try {
+        if (name.startsWith("xlink:")) el.setAttributeNS(XLINK_NS, name, value);
+        else el.setAttribute(name, value);
+    } catch {
+        // attribute name the DOM API refuses (e.g. framework syntax like "@click")
+    }
+}
+
+function createElement(doc: Document, node: Extract<SerializedNode, { type: "element" }>): Element {
+    try {
+        return node.svg ? doc.createElementNS(SVG_NS, node.tag) : doc.createElement(node.tag);
+    } catch {
+        return doc.createElement("div");
+    }
+}
+
+/** Live state that attributes don't carry */
+function restoreState(el: Element, attrs: Record<string, string>) {
+    if (el instanceof HTMLInputElement) {
+        if ("value" in attrs) el.value = attrs.value;
+        el.checked = "checked" in attrs;
+    } else if (el instanceof HTMLCanvasElement && attrs["data-bugsense-canvas"]) {
+        const img = new Image();
+        img.onload = () => el.getContext("2d")?.drawImage(img, 0, 0);
+        img.src = attrs["data-bugsense-canvas"];
+    } else if (el instanceof HTMLIFrameElement) {
+        el.style.background = "repeating-linear-gradient(45deg, #eee, #eee 10px, #ddd 10px, #ddd 20px)";
+    }
+}
+
+function build(node: SerializedNode, doc: Document): Node {
+    let out: Node;
+    if (node.type === "doctype") {
+        out = doc.implementation.createDocumentType(node.name, node.publicId, node.systemId);
+    } else if (node.type === "text") {
+        out = doc.createTextNode(node.text);
+    } else {
+        const el = createElement(doc, node);
+        Object.entries(node.attrs).forEach(([name, value]) => setAttr(el, name, value));
+        node.children.forEach((child) => el.appendChild(build(child, doc)));
+        if (node.shadow) {
+            try {
+                const root = el.attachShadow({ mode: "open" });
+                node.shadow.forEach((child) => root.appendChild(build(child, doc)));
+            } catch {
+                // element that can't host a shadow root in this document
+            }
+        }
+        restoreState(el, node.attrs);
+        out = el;
+    }
+    nodes.set(node.id, out);
+    return out;
+}
+
+function applySnapshot(e: DomEventOfKind<"snapshot">) {
+    nodes = new Map();
+    const doc = frameDoc();
+    // the doctype decides standards vs quirks mode, and only the parser can set it
+    const doctype = e.nodes.find((n) => n.type === "doctype");
+    doc.open();
+    doc.write(doctype ? `<!DOCTYPE ${doctype.name}>` : "");
+    doc.close();
+    if (doc.documentElement) doc.removeChild(doc.documentElement);
+    for (const node of e.nodes) {
+        if (node.type === "doctype") {
+            if (doc.doctype) nodes.set(node.id, doc.doctype);
+            continue;
+        }
+        if (node.type !== "element") continue; // a document has no text children
+        doc.appendChild(build(node, doc));
+    }
+    nodes.set(DOCUMENT_NODE_ID, doc);
+    setViewport(e.width, e.height);
+    frame.contentWindow?.scrollTo(e.scrollX, e.scrollY);
+    $("title").textContent = `🎞️ ${e.title || "Untitled page"}`;
+}
+
+function applyMutation(e: DomEventOfKind<"mutation">) {
+    const doc = frameDoc();
+    for (const r of e.removes) {
+        const node = nodes.get(r.id);
+        node?.parentNode?.removeChild(node);
+    }
+    for (const a of e.adds) {
+        const parent = a.parentId === DOCUMENT_NODE_ID ? doc : nodes.get(a.parentId);
+        if (!parent) continue;
+        let target: Node = parent;
+        if (a.shadow && parent instanceof Element) {
+            try {
+                target = parent.shadowRoot ?? parent.attachShadow({ mode: "open" });
+            } catch {
+                continue;
+            }
+        }
+        const built = build(a.node, doc);
+        if (target === doc && built.nodeType !== Node.ELEMENT_NODE) continue;
+        if (target === doc && doc.documentElement) doc.removeChild(doc.documentElement);
+        const next = a.nextId != null ? nodes.get(a.nextId) : null;
+        target.insertBefore(built, next && next.parentNode === target ? next : null);
+    }
+    for (const { id, name, value } of e.attrs) {
+        const el = nodes.get(id);
+        if (!(el instanceof Element)) continue;
+        if (value == null) el.removeAttribute(name);
+        else setAttr(el, name, value);
+        if (name === "value" && el instanceof HTMLInputElement && value != null) el.value = value;
+    }
+    for (const { id, text } of e.texts) {
+        const node = nodes.get(id);
+        if (node) node.textContent = text;
+    }
+}
+
+function applyEvent(e: DomEvent) {
+    switch (e.kind) {
+        case "snapshot":
+            applySnapshot(e);
+            break;
+        case "mutation":
+            applyMutation(e);
+            break;
+        case "scroll": {
+            if (e.id === DOCUMENT_NODE_ID) {
+                frame.contentWindow?.scrollTo(e.x, e.y);
+                break;
+            }
+            const el = nodes.get(e.id);
+            if (el instanceof Element) {
+                el.scrollLeft = e.x;
+                el.scrollTop = e.y;
+            }
+            break;
+        }
+        case "input": {
+            const el = nodes.get(e.id);
+            if (e.checked != null && el instanceof HTMLInputElement) el.checked = e.checked;
+            else if (e.value != null && (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement)) {
+                el.value = e.value;
+            }
+            break;
+        }
+        case "viewport":
+            setViewport(e.width, e.height);
+            break;
+        case "pointer":
+            moveCursor(e.x, e.y, Boolean(e.click));
+            break;
+    }
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Clock
+// ─────────────────────────────────────────────────────────────
+function seek(ms: number) {
+    current = Math.max(0, Math.min(ms, duration()));
+    const until = recording.startedAt + current;
+    const events = recording.events;
+    if (until < appliedUntil || cursorIndex === 0) {
+        // going back: start over from the last snapshot at or before the target
+        let snap = 0;
+        for (let i = 0; i < events.length && events[i].t <= until; i++) {
+            if (events[i].kind === "snapshot") snap = i;
+        }
+        cursorIndex = snap;
+        cursor.style.display = "none";
+    }
+    while (cursorIndex < events.length && (events[cursorIndex].t <= until || cursorIndex === 0)) {
+        try {
+            applyEvent(events[cursorIndex]);
+        } catch (err) {
+            console.warn("[BugSense] Replay event failed:", err);
+        }
+        cursorIndex++;
+    }
+    appliedUntil = until;
+    updateTime();
+}
+
+function tick(at: number) {
+    if (!playing) return;
+    const speed = Number(speedSelect.value) || 1;
+    seek(current + (at - lastTick) * speed);
+    lastTick = at;
+    if (current >= duration()) {
+        setPlaying(false);
+        return;
+    }
+    requestAnimationFrame(tick);
+}
+
+function setPlaying(next: boolean) {
+    playing = next;
+    playBtn.textContent = playing ? "⏸ Pause" : "▶ Play";
+    if (!playing) return;
+    if (inspecting) setInspecting(false);
+    if (current >= duration()) seek(0);
+    lastTick = performance.now();
+    requestAnimationFrame(tick);
+}
+
+function updateTime() {
+    seekBar.value = String(Math.round(current));
+    timeLabel.textContent = `${formatDuration(current)} / ${formatDuration(duration())}`;
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Layout, cursor, inspector
+// ─────────────────────────────────────────────────────────────
+function setViewport(width: number, height: number) {
+    size = { width, height };
+    frame.style.width = `${width}px`;
+    frame.style.height = `${height}px`;
+    fitToStage();
+}
+
+function fitToStage() {
+    if (!size.width || !size.height) return;
+    scale = Math.min(1, stage.clientWidth / size.width, stage.clientHeight / size.height);
+    viewport.style.transform = `scale(${scale})`;
+    viewport.style.left = `${Math.max(0, (stage.clientWidth - size.width * scale) / 2)}px`;
+}
+
+function moveCursor(x: number, y: number, click: boolean) {
+    cursor.style.display = "block";
+    cursor.style.left = `${x}px`;
+    cursor.style.top = `${y}px`;
+    if (!click) return;
+    cursor.classList.add("click");
+    clearTimeout(clickTimer);
+    clickTimer = window.setTimeout(() => cursor.classList.remove("click"), CLICK_FLASH_MS);
+}
+
+/** Element of the rebuilt page under a point of the stage */
+function elementAt(e: MouseEvent): Element | null {
+    const box = viewport.getBoundingClientRect();
+    let found = frameDoc().elementFromPoint((e.clientX - box.left) / scale, (e.clientY - box.top) / scale);
+    while (found?.shadowRoot) {
+        const inner = found.shadowRoot.elementFromPoint((e.clientX - box.left) / scale, (e.clientY - box.top) / scale);
+        if (!inner || inner === found) break;
+        found = inner;
+    }
+    return found;
+}
+
+function showHighlight(el: Element | null) {
+    if (!el) {
+        highlight.style.display = "none";
+        return;
+    }
+    const r = el.getBoundingClientRect();
+    Object.assign(highlight.style, {
+        display: "block",
+        left: `${r.left}px`,
+        top: `${r.top}px`,
+        width: `${r.width}px`,
+        height: `${r.height}px`,
+    });
+}
+
+function describe(el: Element) {
+    const id = el.id ? `#${el.id}` : "";
+    const classes = Array.from(el.classList).slice(0, 3).map((c) => `.${c}`).join("");
+    return `${el.tagName.toLowerCase()}${id}${classes}`;
+}
+
+function showInspector(el: Element) {
+    const path: string[] = [];
+    for (let cur: Element | null = el; cur; cur = cur.parentElement ?? ((cur.getRootNode() as ShadowRoot).host || null)) {
+        path.unshift(describe(cur));
+    }
+    const html = el.outerHTML;
+    $("inspectTag").textContent = describe(el);
+    $("inspectPath").textContent = path.join(" › ");
+    $("inspectHtml").textContent = html.length > MAX_INSPECT_HTML ? `${html.slice(0, MAX_INSPECT_HTML)}\n…` : html;
+}
+
+function setInspecting(next: boolean) {
+    inspecting = next;
+    if (inspecting) setPlaying(false);
+    inspectBtn.classList.toggle("active", inspecting);
+    inspectLayer.style.display = inspecting ? "block" : "none";
+    $("inspector").style.display = inspecting ? "block" : "none";
+    if (!inspecting) showHighlight(null);
+    fitToStage();
+}
+
+// Opaque-origin parent messages can only be addressed with "*"
+function sendToPlayer(message: PlayerMessage) {
+    window.parent.postMessage(message, "*");
+}
+
+/** Sandboxed pages can't download; the player page saves the file */
+function downloadHtml() {
+    const doc = frameDoc();
+    const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : "";
+    sendToPlayer({
+        source: "bugsense-viewer",
+        type: "download",
+        html: doctype + (doc.documentElement?.outerHTML || ""),
+        filename: `bug-sense-dom-${Math.round(current / 1000)}s-${Date.now()}.html`,
+    });
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Startup
+// ─────────────────────────────────────────────────────────────
+function load(): Promise<DomRecording> {
+    return new Promise((resolve, reject) => {
+        const onMessage = (ev: MessageEvent) => {
+            if (ev.source !== window.parent) return;
+            const data = ev.data as PlayerMessage;
+            if (data?.source !== "bugsense-player") return;
+            window.removeEventListener("message", onMessage);
+            if (data.type === "error") reject(new Error(data.message));
+            else if (data.type === "recording" && isDomRecording(data.recording)) resolve(data.recording);
+            else reject(new Error("Not a DOM recording"));
+        };
+        window.addEventListener("message", onMessage);
+        sendToPlayer({ source: "bugsense-viewer", type: "ready" });
+    });
+}
+
+async function main() {
+    try {
+        recording = await load();
+    } catch (err) {
+        status.textContent = `❌ ${String((err as Error)?.message || err)}`;
+        return;
+    }
+
+    $("meta").textContent = `${recording.url} — recorded ${new Date(recording.startedAt).toLocaleString()}`;
+    seekBar.max = String(duration());
+    [playBtn, seekBar, inspectBtn, downloadBtn].forEach((el) => (el.disabled = false));
+    status.textContent = `${recording.events.length} events, ${formatDuration(duration())}. Scripts are not replayed; inputs are masked as recorded.`;
+
+    playBtn.addEventListener("click", () => setPlaying(!playing));
+    seekBar.addEventListener("input", () => seek(Number(seekBar.value)));
+    inspectBtn.addEventListener("click", () => setInspecting(!inspecting));
+    downloadBtn.addEventListener("click", downloadHtml);
+    inspectLayer.addEventListener("mousemove", (e) => showHighlight(elementAt(e)));
+    inspectLayer.addEventListener("click", (e) => {
+        const el = elementAt(e);
+        if (el) showInspector(el);
+    });
+    window.addEventListener("resize", fitToStage);
+
+    seek(recording.evidenceFrom ? recording.evidenceFrom - recording.startedAt : 0);
+}
+
+main();
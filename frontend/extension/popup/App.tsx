@@ -4,6 +4,11 @@ import RecorderTool from "./components/RecorderTool";
 import MarkerTool from "./components/MarkerTool";
 import GifMaker from "./components/GifMaker";
 import InstantReplay from "./components/InstantReplay";
+import RedactionToggle from "./components/RedactionToggle";
+import BugLibrary from "./components/BugLibrary";
+import EnvironmentOptions from "./components/EnvironmentOptions";
+import PageSdkToggle from "./components/PageSdkToggle";
+import DomRecorderToggle from "./components/DomRecorderToggle";
 
 export default function App() {
   const [activeTool, setActiveTool] = useState<"home" | "marker">("home");
@@ -58,6 +63,14 @@ export default function App() {
       <Header />
 
       <div className="mt-3 space-y-3">
+        <RedactionToggle />
+
+        <EnvironmentOptions />
+
+        <PageSdkToggle />
+
+        <DomRecorderToggle />
+
         <ScreenshotTool onAnnotate={handleAnnotate} />
 
         <RecorderTool />
@@ -65,6 +78,8 @@ export default function App() {
         <GifMaker />
 
         <InstantReplay />
+
+        <BugLibrary />
       </div>
     </div>
   );
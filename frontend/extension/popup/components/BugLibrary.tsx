@@ -0,0 +1,199 @@
+// extension/popup/components/BugLibrary.tsx
+import React, { useEffect, useState } from "react";
+import {
+  BUG_LIBRARY_KEY,
+  BUG_SOURCE_LABELS,
+  BUG_STATUS_LABELS,
+  BugEntry,
+  BugSourceType,
+  BugStatus,
+  deleteBugs,
+  duplicateBug,
+  exportBugs,
+  filterBugs,
+  listBugs,
+  setBugStatus,
+} from "../../utils/bugLibrary";
+import { getMediaObjectUrl } from "../../utils/mediaStore";
+
+const STATUS_CLASS: Record<BugStatus, string> = {
+  draft: "text-gray-400",
+  filed: "text-green-400",
+  exported: "text-blue-400",
+  fixed: "text-purple-400",
+};
+
+/**
+ * BugLibrary — the bugs created from the DevTools panel (utils/bugLibrary.ts): search, filter by
+ * source, open one for a quick look, duplicate, delete, and export the ticked ones as JSON.
+ */
+export default function BugLibrary() {
+  const [bugs, setBugs] = useState<BugEntry[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [query, setQuery] = useState("");
+  const [sourceType, setSourceType] = useState<BugSourceType | "all">("all");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [thumbUrl, setThumbUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listBugs().then(setBugs);
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+      if (changes[BUG_LIBRARY_KEY]) {
+        const next: BugEntry[] = Array.isArray(changes[BUG_LIBRARY_KEY].newValue) ? changes[BUG_LIBRARY_KEY].newValue : [];
+        setBugs(next);
+        setSelected((prev) => new Set([...prev].filter((id) => next.some((b) => b.id === id))));
+      }
+    };
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, []);
+
+  const openBug = bugs.find((b) => b.id === openId) || null;
+
+  // First screenshot of the open bug, from the media store
+  useEffect(() => {
+    const ref = openBug?.screenshots[0];
+    if (!ref) return;
+    let url: string | null = null;
+    let cancelled = false;
+    getMediaObjectUrl(ref.mediaId).then((u) => {
+      url = u;
+      if (cancelled && u) URL.revokeObjectURL(u);
+      else setThumbUrl(u);
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setThumbUrl(null);
+    };
+  }, [openBug?.screenshots[0]?.mediaId]);
+
+  const visible = filterBugs(bugs, { query, sourceType });
+  const picked = bugs.filter((b) => selected.has(b.id));
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const remove = async (ids: string[]) => {
+    if (!confirm(`Delete ${ids.length} bug(s) from the library?`)) return;
+    await deleteBugs(ids);
+  };
+
+  const exportPicked = async () => {
+    setError(null);
+    try {
+      await exportBugs(picked);
+    } catch (err) {
+      setError("Export failed: " + String(err));
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-2 text-xs text-gray-300">
+      <div className="flex items-center justify-between">
+        <span>🗂️ Bug library ({bugs.length})</span>
+        <button className="text-gray-400 hover:text-gray-200" onClick={() => setExpanded((v) => !v)}>
+          {expanded ? "Hide" : "Show"}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          <div className="flex gap-1">
+            <input
+              className="flex-1 min-w-0 rounded bg-gray-900 border border-gray-700 px-1 py-0.5 text-gray-200"
+              placeholder="Search..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <select
+              className="rounded bg-gray-900 border border-gray-700 text-gray-200"
+              value={sourceType}
+              onChange={(e) => setSourceType(e.target.value as BugSourceType | "all")}
+            >
+              <option value="all">All</option>
+              {(Object.keys(BUG_SOURCE_LABELS) as BugSourceType[]).map((type) => (
+                <option key={type} value={type}>{BUG_SOURCE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="max-h-56 overflow-auto space-y-1">
+            {visible.length === 0 && (
+              <div className="text-gray-500">{bugs.length ? "No bugs match the filter" : "No bugs yet — create one from the DevTools panel"}</div>
+            )}
+            {visible.map((b) => (
+              <div key={b.id} className={`rounded px-1 py-0.5 ${b.id === openId ? "bg-gray-800" : ""}`}>
+                <div className="flex items-center gap-1">
+                  <input type="checkbox" checked={selected.has(b.id)} onChange={() => toggle(b.id)} />
+                  <button
+                    className="flex-1 min-w-0 truncate text-left text-gray-200 hover:underline"
+                    title={b.title}
+                    onClick={() => setOpenId((id) => (id === b.id ? null : b.id))}
+                  >
+                    {b.title}
+                  </button>
+                  <span className={STATUS_CLASS[b.status]}>{BUG_STATUS_LABELS[b.status]}</span>
+                </div>
+                <div className="pl-5 text-gray-500">
+                  {BUG_SOURCE_LABELS[b.source?.type] || b.source?.type} · {new Date(b.createdAt).toLocaleString()}
+                </div>
+
+                {b.id === openId && (
+                  <div className="mt-1 pl-5 space-y-1">
+                    {thumbUrl && <img src={thumbUrl} alt="Bug screenshot" className="w-full rounded border border-gray-700" />}
+                    <div className="whitespace-pre-wrap text-gray-300">{b.description}</div>
+                    {b.steps?.length > 0 && (
+                      <ol className="list-decimal pl-4 text-gray-400">
+                        {b.steps.map((step, i) => <li key={i}>{step.replace(/^\d+\.\s*/, "")}</li>)}
+                      </ol>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <select
+                        className="rounded bg-gray-900 border border-gray-700 text-gray-200"
+                        value={b.status}
+                        onChange={(e) => setBugStatus([b.id], e.target.value as BugStatus)}
+                      >
+                        {(Object.keys(BUG_STATUS_LABELS) as BugStatus[]).map((status) => (
+                          <option key={status} value={status}>{BUG_STATUS_LABELS[status]}</option>
+                        ))}
+                      </select>
+                      <button className="text-blue-400 hover:underline" onClick={() => duplicateBug(b.id)}>Duplicate</button>
+                      <button className="text-red-400 hover:underline" onClick={() => remove([b.id])}>Delete</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              className="flex-1 rounded bg-blue-600 py-1 text-white disabled:opacity-50"
+              disabled={!picked.length}
+              onClick={exportPicked}
+            >
+              Export selected ({picked.length})
+            </button>
+            <button
+              className="rounded bg-gray-700 px-2 py-1 text-white disabled:opacity-50"
+              disabled={!picked.length}
+              onClick={() => remove(picked.map((b) => b.id))}
+            >
+              Delete
+            </button>
+          </div>
+          {error && <div className="text-red-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+// extension/popup/components/DomRecorderToggle.tsx
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_DOM_RECORDER_SETTINGS,
+  DOM_RECORDER_SETTINGS_KEY,
+  DomRecorderSettings,
+  getDomRecorderSettings,
+  isDomRecordingEnabled,
+  setDomRecordingEnabled,
+} from "../../utils/domRecorderSettings";
+import { resolveActiveTabScope } from "../../utils/tabScope";
+
+/**
+ * DomRecorderToggle — per-site opt-in for the DOM recorder behind "Open DOM replay"
+ * (utils/domRecorderSettings.ts). Other sites are not observed at all.
+ */
+export default function DomRecorderToggle() {
+  const [settings, setSettings] = useState<DomRecorderSettings>(DEFAULT_DOM_RECORDER_SETTINGS);
+  const [origin, setOrigin] = useState("");
+  const [showOptions, setShowOptions] = useState(false);
+
+  useEffect(() => {
+    getDomRecorderSettings().then(setSettings);
+    resolveActiveTabScope().then((scope) => setOrigin(scope?.origin || ""));
+
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+      if (changes[DOM_RECORDER_SETTINGS_KEY]) {
+        setSettings({ ...DEFAULT_DOM_RECORDER_SETTINGS, ...(changes[DOM_RECORDER_SETTINGS_KEY].newValue || {}) });
+      }
+    };
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, []);
+
+  const enabled = isDomRecordingEnabled(settings, origin);
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-2 text-xs text-gray-300">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 cursor-pointer" title={origin || "No site"}>
+          <input type="checkbox" checked={enabled} disabled={!origin} onChange={() => setDomRecordingEnabled(origin, !enabled)} />
+          <span>🎞️ Record DOM for replay{origin ? ` on ${origin.replace(/^[a-z-]+:\/\//, "")}` : ""}</span>
+        </label>
+        <button className="text-gray-400 hover:text-gray-200" onClick={() => setShowOptions((v) => !v)}>
+          {showOptions ? "Hide" : "Options"}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="mt-2 space-y-2">
+          <div className="text-gray-500">
+            Keeps the last minute of page changes for the DOM replay player. Starts right away on enabled sites;
+            field values and masked text are replaced before they are recorded.
+          </div>
+          {settings.enabledOrigins.length === 0 ? (
+            <div className="text-gray-500">No sites enabled.</div>
+          ) : (
+            settings.enabledOrigins.map((o) => (
+              <div key={o} className="flex items-center justify-between">
+                <span className="truncate font-mono text-[11px]">{o}</span>
+                <button className="text-gray-400 hover:text-red-400" onClick={() => setDomRecordingEnabled(o, false)}>
+                  Remove
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
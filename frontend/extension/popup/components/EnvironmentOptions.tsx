@@ -0,0 +1,76 @@
+// extension/popup/components/EnvironmentOptions.tsx
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_ENVIRONMENT_SETTINGS,
+  ENVIRONMENT_SETTINGS_KEY,
+  EnvironmentSettings,
+  getEnvironmentSettings,
+  saveEnvironmentSettings,
+} from "../../utils/environment";
+
+const FIELDS: { key: keyof EnvironmentSettings; label: string; placeholder: string }[] = [
+  { key: "metaNames", label: "Meta tags (name)", placeholder: "build-hash\napp-version" },
+  { key: "globals", label: "Page globals", placeholder: "__APP_VERSION__\n__APP__.release" },
+  { key: "cookies", label: "Cookies", placeholder: "ab_group\nregion" },
+];
+
+const toText = (settings: EnvironmentSettings) =>
+  Object.fromEntries(FIELDS.map(({ key }) => [key, settings[key].join("\n")])) as Record<keyof EnvironmentSettings, string>;
+
+/**
+ * EnvironmentOptions — app-specific values captured with every bug next to the browser / page
+ * metadata (utils/environment.ts): build meta tags, page globals and selected cookies.
+ */
+export default function EnvironmentOptions() {
+  const [showOptions, setShowOptions] = useState(false);
+  const [text, setText] = useState(() => toText(DEFAULT_ENVIRONMENT_SETTINGS));
+
+  useEffect(() => {
+    getEnvironmentSettings().then((s) => setText(toText(s)));
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+      if (changes[ENVIRONMENT_SETTINGS_KEY]) {
+        setText(toText({ ...DEFAULT_ENVIRONMENT_SETTINGS, ...(changes[ENVIRONMENT_SETTINGS_KEY].newValue || {}) }));
+      }
+    };
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, []);
+
+  const save = (key: keyof EnvironmentSettings) => {
+    const values = text[key].split(/[\n,]/).map((s) => s.trim()).filter(Boolean);
+    saveEnvironmentSettings({ [key]: values });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-2 text-xs text-gray-300">
+      <div className="flex items-center justify-between">
+        <span>🧭 Environment captured with bugs</span>
+        <button className="text-gray-400 hover:text-gray-200" onClick={() => setShowOptions((v) => !v)}>
+          {showOptions ? "Hide" : "Options"}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="mt-2 space-y-2">
+          <div className="text-gray-500">
+            Always captured: page URL and title, browser, OS, viewport, language, timezone, color scheme, connection,
+            referrer and extension version. App-specific values (one per line):
+          </div>
+          {FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key}>
+              <div className="mb-1 text-gray-400">{label}</div>
+              <textarea
+                className="w-full h-12 rounded bg-gray-900 border border-gray-700 p-1 font-mono text-[11px] text-gray-200"
+                placeholder={placeholder}
+                value={text[key]}
+                onChange={(e) => setText((prev) => ({ ...prev, [key]: e.target.value }))}
+                onBlur={() => save(key)}
+              />
+            </div>
+          ))}
+          <div className="text-gray-500">Only cookies readable by the page (not HttpOnly) can be captured.</div>
+        </div>
+      )}
+    </div>
+  );
+}
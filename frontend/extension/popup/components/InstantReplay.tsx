@@ -1,8 +1,15 @@
 import React, { useEffect, useRef, useState } from "react";
-import { FaChevronLeft, FaChevronRight, FaDownload, FaPause, FaPlay } from "react-icons/fa";
+import { FaChevronLeft, FaChevronRight, FaDownload, FaFilm, FaPause, FaPlay } from "react-icons/fa";
 import DisplayButton from "../../components/DisplayButton";
 import { LuStepBack, LuStepForward } from "react-icons/lu";
 import { FaBackwardStep, FaForwardStep } from "react-icons/fa6";
+import { readScoped, resolveActiveTabScope, scopedKey } from "../../utils/tabScope";
+import { getMediaObjectUrl } from "../../utils/mediaStore";
+import { ActionEvent, normalizeActions } from "../../utils/replayBuffer";
+import { describeAction } from "../../utils/replaySteps";
+import { downloadTestScript, generateTestScript } from "../../utils/testExport";
+import { getFormattedDate } from "../../utils/formattedDate";
+import { ReplayExportJob } from "../../utils/replayTimeline";
 
 /**
  * extension/popup/components/InstantReplay.tsx
@@ -16,9 +23,10 @@ import { FaBackwardStep, FaForwardStep } from "react-icons/fa6";
  * - Provides a preview player after building.
  */
 
-type ScreenshotItem = { screenshot: string; timestamp: number };
+// `screenshot` is a displayable URL: a blob: URL for media-store frames (mediaId set),
+// or the inline data URL of frames recorded before the media store existed.
+type ScreenshotItem = { screenshot: string; timestamp: number; mediaId?: string; viewportWidth?: number };
 
-type ActionEvent = { type: string; timestamp: number; details: any };
 
 const DEFAULT_FRAME_INTERVAL_MS = 800; // used if timestamps not available or identical
 const MIN_FRAME_MS = 40; // ~25fps max
@@ -37,37 +45,75 @@ export default function InstantReplay(): JSX.Element {
     const [error, setError] = useState<string | null>(null);
     const [showReplay, setShowReplay] = useState(false);
     const intervalRef = useRef<number | null>(null);
+    const frameUrlsRef = useRef<Map<string, string>>(new Map()); // mediaId -> blob: URL
+
+    // Resolve stored frame refs into displayable URLs (reusing URLs already created)
+    async function resolveFrames(raw: any[]): Promise<ScreenshotItem[]> {
+        const cache = frameUrlsRef.current;
+        const items = await Promise.all(
+            raw.map(async (s: any): Promise<ScreenshotItem | null> => {
+                const timestamp = Number(s?.timestamp) || Date.now();
+                if (s?.mediaId) {
+                    let url = cache.get(s.mediaId) || null;
+                    if (!url) {
+                        url = await getMediaObjectUrl(s.mediaId).catch(() => null);
+                        if (url) cache.set(s.mediaId, url);
+                    }
+                    return url ? { screenshot: url, timestamp, mediaId: s.mediaId, viewportWidth: s.viewportWidth } : null;
+                }
+                return s?.screenshot ? { screenshot: s.screenshot, timestamp } : null;
+            })
+        );
+        const live = new Set(raw.map((s: any) => s?.mediaId).filter(Boolean));
+        cache.forEach((url, id) => {
+            if (!live.has(id)) {
+                URL.revokeObjectURL(url);
+                cache.delete(id);
+            }
+        });
+        return items.filter((x): x is ScreenshotItem => Boolean(x)).sort((a, b) => a.timestamp - b.timestamp);
+    }
 
     useEffect(() => {
-        chrome.storage.local.get(["recentScreenshots", "recentActions"], (res) => {
-            if (chrome.runtime.lastError) {
-                console.warn("InstantReplay storage.get error:", chrome.runtime.lastError);
-            }
-            const ss: ScreenshotItem[] = Array.isArray(res?.recentScreenshots) ? res.recentScreenshots : [];
-            const ac: ActionEvent[] = Array.isArray(res?.recentActions) ? res.recentActions : [];
-            // Normalize timestamps & sort
-            const normalized = ss
-                .map((s) => ({ screenshot: s.screenshot, timestamp: Number(s.timestamp) || Date.now() }))
-                .sort((a, b) => a.timestamp - b.timestamp);
-            setScreenshots(normalized);
-            setActions(ac);
-            setIndex(0);
+        let screenshotsKey = "";
+        let actionsKey = "";
+
+        // Only the active tab's buffers (see utils/tabScope.ts)
+        resolveActiveTabScope().then((scope) => {
+            if (!scope) return;
+            screenshotsKey = scopedKey("recentScreenshots", scope);
+            actionsKey = scopedKey("recentActions", scope);
+            chrome.storage.local.get([screenshotsKey, actionsKey], (res) => {
+                if (chrome.runtime.lastError) {
+                    console.warn("InstantReplay storage.get error:", chrome.runtime.lastError);
+                }
+                const ss: any[] = Array.isArray(res?.[screenshotsKey]) ? res[screenshotsKey] : [];
+                setActions(normalizeActions(res?.[actionsKey]));
+                // Normalize timestamps & sort
+                resolveFrames(ss).then((normalized) => {
+                    setScreenshots(normalized);
+                    setIndex(0);
+                });
+            });
         });
 
         const onChange = (changes: Record<string, chrome.storage.StorageChange>) => {
-            if (changes.recentScreenshots) {
-                const newVal = changes.recentScreenshots.newValue || [];
-                const normalized = Array.isArray(newVal)
-                    ? newVal.map((s: any) => ({ screenshot: s.screenshot, timestamp: Number(s.timestamp) || Date.now() })).sort((a: ScreenshotItem, b: ScreenshotItem) => a.timestamp - b.timestamp)
-                    : [];
-                setScreenshots(normalized);
-                setIndex(0);
+            if (screenshotsKey && changes[screenshotsKey]) {
+                const newVal = changes[screenshotsKey].newValue || [];
+                resolveFrames(Array.isArray(newVal) ? newVal : []).then((normalized) => {
+                    setScreenshots(normalized);
+                    setIndex(0);
+                });
             }
-            if (changes.recentActions) setActions(changes.recentActions.newValue || []);
+            if (actionsKey && changes[actionsKey]) setActions(normalizeActions(changes[actionsKey].newValue));
         };
 
         chrome.storage.onChanged.addListener(onChange);
-        return () => chrome.storage.onChanged.removeListener(onChange);
+        return () => {
+            chrome.storage.onChanged.removeListener(onChange);
+            frameUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+            frameUrlsRef.current.clear();
+        };
     }, []);
 
     useEffect(() => {
@@ -115,6 +161,46 @@ export default function InstantReplay(): JSX.Element {
         setIndex((i) => (i + 1) % Math.max(1, screenshots.length));
     }
 
+    // ---------- TEST EXPORT ----------
+
+    /** Playwright reproduction of the buffered actions, asserting the tab's latest console error */
+    async function exportPlaywrightTest() {
+        setError(null);
+        try {
+            const scope = await resolveActiveTabScope();
+            const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+            const errors = await readScoped<{ message?: string }>("recentConsoleErrors", scope);
+            const pageUrl = tab?.url || scope?.origin || "";
+            const test = generateTestScript(actions, {
+                title: `Reproduce bug on ${pageUrl.replace(/^[a-z-]+:\/\//, "").split("/")[0] || "page"}`,
+                pageUrl,
+                consoleError: errors[errors.length - 1]?.message || null,
+                recordedAt: getFormattedDate(),
+            });
+            downloadTestScript(test);
+        } catch (err) {
+            console.error("[BugSense] Playwright export failed:", err);
+            setError(String(err));
+        }
+    }
+
+    // ---------- DOM REPLAY ----------
+
+    /** Stores the tab's DOM recording (last ~60s) and opens it in the player page */
+    async function openDomReplay() {
+        setError(null);
+        try {
+            const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+            if (typeof tab?.id !== "number") throw new Error("No active tab");
+            const resp = await chrome.runtime.sendMessage({ action: "CAPTURE_DOM_RECORDING", tabId: tab.id });
+            if (!resp?.success) throw new Error(resp?.error || "No DOM recording for this tab — reload the page first");
+            chrome.runtime.sendMessage({ action: "OPEN_DOM_PLAYER", mediaId: resp.ref.mediaId });
+        } catch (err) {
+            console.error("[BugSense] DOM replay failed:", err);
+            setError(String(err));
+        }
+    }
+
     // ---------- VIDEO BUILDING ----------
 
     async function buildVideoAndDownload() {
@@ -126,8 +212,19 @@ export default function InstantReplay(): JSX.Element {
         }
 
         try {
-            // save current screenshots in storage (so background can access)
-            await chrome.storage.local.set({ replayExportQueue: screenshots });
+            // save frame refs in storage (the export page reads the blobs from the media store;
+            // our blob: URLs die with the popup), plus what the overlays are drawn from
+            const scope = await resolveActiveTabScope();
+            const job: ReplayExportJob = {
+                frames: screenshots.map((s) =>
+                    s.mediaId
+                        ? { mediaId: s.mediaId, timestamp: s.timestamp, viewportWidth: s.viewportWidth }
+                        : { screenshot: s.screenshot, timestamp: s.timestamp }
+                ),
+                actions,
+                consoleErrors: await readScoped("recentConsoleErrors", scope),
+            };
+            await chrome.storage.local.set({ replayExportQueue: job });
 
             // open export page via background (keeps popup lightweight)
             chrome.runtime.sendMessage({ action: "OPEN_REPLAY_EXPORT_PAGE" });
@@ -245,13 +342,34 @@ export default function InstantReplay(): JSX.Element {
                             <div key={idx} className="py-1 border-b border-gray-100">
                                 <div className="text-xs text-gray-400">{new Date(a.timestamp).toLocaleTimeString()}</div>
                                 <div className="text-sm">
-                                    <strong>{String(a.type).toUpperCase()}</strong> — <span className="text-gray-400">{JSON.stringify(a.details)}</span>
+                                    <strong>{a.type.toUpperCase()}</strong> — <span className="text-gray-400">{describeAction(a)}</span>
                                 </div>
                             </div>
                         ))}
                     </div>
                 )}
 
+                {actions.length > 0 && (
+                    <button
+                        onClick={exportPlaywrightTest}
+                        title="Download the recorded actions as a Playwright test"
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md text-xs font-semibold text-white bg-gray-700 hover:bg-gray-600 transition"
+                    >
+                        <FaDownload size={12} />
+                        Playwright test ({actions.length} actions)
+                    </button>
+                )}
+
+                <button
+                    onClick={openDomReplay}
+                    title="Replay the page's DOM (last ~60s) in the player, with an element inspector"
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md text-xs font-semibold text-white bg-gray-700 hover:bg-gray-600 transition"
+                >
+                    <FaFilm size={12} />
+                    Open DOM replay
+                </button>
+                {screenshots.length === 0 && error && <div className="text-xs text-red-600">{error}</div>}
+
                 <div className="text-xs text-gray-400 text-center">Shows visual replay (latest ~30-60s snapshots). Export to WebM video.</div>
             </>}
         </div>
@@ -0,0 +1,71 @@
+// extension/popup/components/PageSdkToggle.tsx
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_PAGE_SDK_SETTINGS,
+  PAGE_SDK_SETTINGS_KEY,
+  PageSdkSettings,
+  getPageSdkSettings,
+  isPageSdkEnabled,
+  setPageSdkEnabled,
+} from "../../utils/pageSdk";
+import { resolveActiveTabScope } from "../../utils/tabScope";
+
+/**
+ * PageSdkToggle — per-site opt-in for the window.BugSense page API (utils/pageSdk.ts). Until the
+ * site is enabled, breadcrumbs, context, user, errors and state pushed by the app are dropped.
+ */
+export default function PageSdkToggle() {
+  const [settings, setSettings] = useState<PageSdkSettings>(DEFAULT_PAGE_SDK_SETTINGS);
+  const [origin, setOrigin] = useState("");
+  const [showOptions, setShowOptions] = useState(false);
+
+  useEffect(() => {
+    getPageSdkSettings().then(setSettings);
+    resolveActiveTabScope().then((scope) => setOrigin(scope?.origin || ""));
+
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+      if (changes[PAGE_SDK_SETTINGS_KEY]) {
+        setSettings({ ...DEFAULT_PAGE_SDK_SETTINGS, ...(changes[PAGE_SDK_SETTINGS_KEY].newValue || {}) });
+      }
+    };
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, []);
+
+  const enabled = isPageSdkEnabled(settings, origin);
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-2 text-xs text-gray-300">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 cursor-pointer" title={origin || "No site"}>
+          <input type="checkbox" checked={enabled} disabled={!origin} onChange={() => setPageSdkEnabled(origin, !enabled)} />
+          <span>🧩 Accept app data (window.BugSense){origin ? ` on ${origin.replace(/^[a-z-]+:\/\//, "")}` : ""}</span>
+        </label>
+        <button className="text-gray-400 hover:text-gray-200" onClick={() => setShowOptions((v) => !v)}>
+          {showOptions ? "Hide" : "Options"}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="mt-2 space-y-2">
+          <div className="text-gray-500">
+            Apps call BugSense.addBreadcrumb, setContext, setUser (the id is hashed), captureError and attachState(fn).
+            The data joins the timeline and the next bug. Reload the page after enabling it.
+          </div>
+          {settings.enabledOrigins.length === 0 ? (
+            <div className="text-gray-500">No sites enabled.</div>
+          ) : (
+            settings.enabledOrigins.map((o) => (
+              <div key={o} className="flex items-center justify-between">
+                <span className="truncate font-mono text-[11px]">{o}</span>
+                <button className="text-gray-400 hover:text-red-400" onClick={() => setPageSdkEnabled(o, false)}>
+                  Remove
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
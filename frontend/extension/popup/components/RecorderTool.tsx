@@ -1,30 +1,44 @@
 // RecorderTool.tsx
 import React, { useEffect, useState } from "react";
 import DisplayButton from "../../components/DisplayButton";
+import {
+  IDLE_RECORDING_STATE,
+  RECORDING_STATE_KEY,
+  RecordingState,
+  formatDuration,
+  recordingElapsed,
+} from "../../utils/recording";
 
 /**
- * RecorderTool — simplified popup controller.
- * The recording runs fully inside a separate persistent window (recorder.html).
- * The popup only launches that window — no stop logic or preview here.
+ * RecorderTool — popup controls for tab recording.
+ * The recording itself runs in the offscreen document (driven by the background), so the popup
+ * can be closed and reopened at any time: it only renders "recordingState" from storage and
+ * sends START/PAUSE/RESUME/STOP_RECORDING.
  *
- * Change requested:
- *  - When recording is active, show "Processing..." on the Start button (green),
- *    instead of a long red status line. Disable the button while processing.
+ * If the tab can't be captured (chrome:// pages, missing permission) the background answers
+ * { requireRecorderWindow } and we fall back to the separate getDisplayMedia recorder window.
  */
 
 export default function RecorderTool() {
-  const [isRecording, setIsRecording] = useState(false);
+  const [state, setState] = useState<RecordingState>(IDLE_RECORDING_STATE);
+  const [windowRecording, setWindowRecording] = useState(false); // recorder.html fallback
+  const [busy, setBusy] = useState(false);
+  const [, setTick] = useState(0);
 
   useEffect(() => {
-    // Load recording flag on mount
-    chrome.storage.local.get(["isRecording"], (data) => {
-      setIsRecording(Boolean(data?.isRecording));
+    // Load recording state on mount
+    chrome.storage.local.get([RECORDING_STATE_KEY, "isRecording"], (data) => {
+      setState({ ...IDLE_RECORDING_STATE, ...(data?.[RECORDING_STATE_KEY] || {}) });
+      setWindowRecording(Boolean(data?.isRecording) && !data?.[RECORDING_STATE_KEY]?.startedAt);
     });
 
     // Watch for recording state updates
     const handleChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+      if (changes[RECORDING_STATE_KEY]) {
+        setState({ ...IDLE_RECORDING_STATE, ...(changes[RECORDING_STATE_KEY].newValue || {}) });
+      }
       if (changes.isRecording) {
-        setIsRecording(Boolean(changes.isRecording.newValue));
+        setWindowRecording((prev) => (changes.isRecording.newValue ? prev : false));
       }
     };
 
@@ -32,41 +46,86 @@ export default function RecorderTool() {
     return () => chrome.storage.onChanged.removeListener(handleChange);
   }, []);
 
-  const startRecording = () => {
-    // Ask background to start recording. Background may reply:
-    //  - { success: true }         => background started recording
-    //  - { requireRecorderWindow }  => popup should open recorder window (getDisplayMedia there)
-    //  - { success: false, error }  => failure
-    chrome.runtime.sendMessage({ action: "START_RECORDING" }, (resp) => {
-      if (chrome.runtime.lastError) {
-        console.error("Error starting recording:", chrome.runtime.lastError);
-        alert("Failed to start recording.");
-        return;
-      }
-
-      if (resp?.requireRecorderWindow) {
-        // Background asked us to open the separate recorder window (fallback flow)
-        // Background handler should implement OPEN_RECORDER_WINDOW
-        chrome.runtime.sendMessage({ action: "OPEN_RECORDER_WINDOW" });
-        return;
-      }
+  // Re-render every second while recording so the timer moves
+  useEffect(() => {
+    if (state.status !== "recording") return;
+    const id = window.setInterval(() => setTick((t) => t + 1), 1000);
+    return () => window.clearInterval(id);
+  }, [state.status]);
 
-      if (resp?.success) {
-        // background-based recording started; set flag so main UI shows "Processing..."
-        setIsRecording(true);
-        try {
-          chrome.storage.local.set({ isRecording: true });
-        } catch { }
-      } else {
-        console.error("Could not start recording:", resp);
-        alert("Could not start recording. Please retry.");
-      }
+  const send = (action: string): Promise<any> =>
+    new Promise((resolve) => {
+      setBusy(true);
+      chrome.runtime.sendMessage({ action }, (resp) => {
+        setBusy(false);
+        if (chrome.runtime.lastError) {
+          console.error(`Error sending ${action}:`, chrome.runtime.lastError);
+          resolve(null);
+          return;
+        }
+        resolve(resp);
+      });
     });
+
+  const startRecording = async () => {
+    const resp = await send("START_RECORDING");
+    if (!resp) {
+      alert("Failed to start recording.");
+      return;
+    }
+
+    if (resp.requireRecorderWindow) {
+      // Background couldn't capture this tab → separate recorder window (getDisplayMedia)
+      chrome.runtime.sendMessage({ action: "OPEN_RECORDER_WINDOW" });
+      setWindowRecording(true);
+      return;
+    }
+
+    if (!resp.success) {
+      console.error("Could not start recording:", resp);
+      alert("Could not start recording. Please retry.");
+    }
   };
 
+  const pauseOrResume = () => send(state.status === "paused" ? "RESUME_RECORDING" : "PAUSE_RECORDING");
+  const stopRecording = () => send("STOP_RECORDING");
+
+  if (windowRecording && state.status === "idle") {
+    return (
+      <div className="space-y-3 ">
+        <DisplayButton name="Processing..." color="dark" disable={true} />
+        <p className="text-xs text-gray-500 text-center">Recording in the Bug Sense recorder window</p>
+      </div>
+    );
+  }
+
+  if (state.status === "idle") {
+    return (
+      <div className="space-y-3 ">
+        <DisplayButton name="🎥 Start Recording" onClick={() => startRecording()} color="dark" disable={busy} />
+        {state.error && <p className="text-xs text-red-500 text-center">Last recording: {state.error}</p>}
+      </div>
+    );
+  }
+
+  const transitional = state.status === "starting" || state.status === "stopping";
+
   return (
     <div className="space-y-3 ">
-      <DisplayButton name={isRecording ? "Processing..." : "🎥 Start Recording"} onClick={() => startRecording()} color="dark" disable={isRecording} />
+      <div className="flex items-center justify-center gap-2 text-sm text-gray-700">
+        <span>{state.status === "paused" ? "⏸️ Paused" : transitional ? "⏳" : "🔴 Recording"}</span>
+        <span className="font-mono">{formatDuration(recordingElapsed(state))}</span>
+        {state.status === "stopping" && <span>Saving...</span>}
+      </div>
+      <div className="flex gap-2">
+        <DisplayButton
+          name={state.status === "paused" ? "▶️ Resume" : "⏸️ Pause"}
+          onClick={() => pauseOrResume()}
+          color="slate"
+          disable={busy || transitional}
+        />
+        <DisplayButton name="⏹️ Stop" onClick={() => stopRecording()} color="red" disable={busy || transitional} />
+      </div>
     </div>
   );
 }
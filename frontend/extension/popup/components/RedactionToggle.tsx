@@ -0,0 +1,133 @@
+// extension/popup/components/RedactionToggle.tsx
+import React, { useEffect, useState } from "react";
+import {
+  BUILTIN_REDACTION_SELECTORS,
+  DEFAULT_REDACTION_SETTINGS,
+  REDACTION_SETTINGS_KEY,
+  RedactionSettings,
+  getRedactionSettings,
+  isRedactionEnabled,
+  saveRedactionSettings,
+} from "../../utils/redactionSettings";
+import { resolveActiveTabScope } from "../../utils/tabScope";
+import {
+  DEFAULT_MASKING_POLICY,
+  MASKING_POLICY_KEY,
+  MaskingPolicy,
+  getMaskingPolicy,
+  saveMaskingPolicy,
+} from "../../utils/maskingPolicy";
+
+/**
+ * RedactionToggle — per-site switch for screenshot redaction, plus the masking style and
+ * extra selectors. Built-in selectors (password, e-mail, card fields, data-bugsense-mask)
+ * always apply while redaction is on. The options also hold the replay typing policy
+ * (utils/maskingPolicy.ts).
+ */
+export default function RedactionToggle() {
+  const [settings, setSettings] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+  const [origin, setOrigin] = useState("");
+  const [showOptions, setShowOptions] = useState(false);
+  const [selectorText, setSelectorText] = useState("");
+  const [policy, setPolicy] = useState<MaskingPolicy>(DEFAULT_MASKING_POLICY);
+
+  useEffect(() => {
+    getRedactionSettings().then((s) => {
+      setSettings(s);
+      setSelectorText(s.selectors.join("\n"));
+    });
+    getMaskingPolicy().then(setPolicy);
+    resolveActiveTabScope().then((scope) => setOrigin(scope?.origin || ""));
+
+    const onChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+      if (changes[REDACTION_SETTINGS_KEY]) {
+        setSettings({ ...DEFAULT_REDACTION_SETTINGS, ...(changes[REDACTION_SETTINGS_KEY].newValue || {}) });
+      }
+      if (changes[MASKING_POLICY_KEY]) {
+        setPolicy({ ...DEFAULT_MASKING_POLICY, ...(changes[MASKING_POLICY_KEY].newValue || {}) });
+      }
+    };
+    chrome.storage.onChanged.addListener(onChange);
+    return () => chrome.storage.onChanged.removeListener(onChange);
+  }, []);
+
+  const enabled = isRedactionEnabled(settings, origin);
+
+  const toggleSite = () => {
+    if (!origin) return;
+    saveRedactionSettings({ siteOverrides: { ...settings.siteOverrides, [origin]: !enabled } });
+  };
+
+  const saveSelectors = () => {
+    const selectors = selectorText.split(/[\n,]/).map((s) => s.trim()).filter(Boolean);
+    saveRedactionSettings({ selectors });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-2 text-xs text-gray-300">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 cursor-pointer" title={origin || "No site"}>
+          <input type="checkbox" checked={enabled} disabled={!origin} onChange={toggleSite} />
+          <span>🛡️ Redact sensitive fields{origin ? ` on ${origin.replace(/^[a-z-]+:\/\//, "")}` : ""}</span>
+        </label>
+        <button className="text-gray-400 hover:text-gray-200" onClick={() => setShowOptions((v) => !v)}>
+          {showOptions ? "Hide" : "Options"}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-3">
+            <span>Style:</span>
+            {(["blur", "black"] as const).map((mode) => (
+              <label key={mode} className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="redaction-mode"
+                  checked={settings.mode === mode}
+                  onChange={() => saveRedactionSettings({ mode })}
+                />
+                {mode === "blur" ? "Blur" : "Black box"}
+              </label>
+            ))}
+          </div>
+          <div>
+            <div className="mb-1 text-gray-400">Extra selectors (one per line)</div>
+            <textarea
+              className="w-full h-16 rounded bg-gray-900 border border-gray-700 p-1 font-mono text-[11px] text-gray-200"
+              placeholder=".account-number&#10;#ssn"
+              value={selectorText}
+              onChange={(e) => setSelectorText(e.target.value)}
+              onBlur={saveSelectors}
+            />
+            <div className="text-gray-500" title={BUILTIN_REDACTION_SELECTORS.join("\n")}>
+              Always masked: passwords, e-mail and card fields, [data-bugsense-mask]
+            </div>
+          </div>
+          <div className="border-t border-gray-700 pt-2 space-y-1">
+            <div className="text-gray-400">Replay typing</div>
+            {(["placeholder", "suppress"] as const).map((mode) => (
+              <label key={mode} className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="masking-sensitive"
+                  checked={policy.sensitiveFields === mode}
+                  onChange={() => saveMaskingPolicy({ sensitiveFields: mode })}
+                />
+                {mode === "placeholder" ? "Sensitive fields: count characters only" : "Sensitive fields: don't record"}
+              </label>
+            ))}
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={policy.recordTypedText}
+                onChange={(e) => saveMaskingPolicy({ recordTypedText: e.target.checked })}
+              />
+              Keep typed text in other fields (e-mails and numbers scrubbed)
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
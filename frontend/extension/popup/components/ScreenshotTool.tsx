@@ -11,8 +11,10 @@ export default function ScreenshotTool({
 }) {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [capturing, setCapturing] = useState(false);
-  const [fullKey, setFullKey] = useState<string | null>(null);
+  const [fullKeys, setFullKeys] = useState<string[]>([]);
   const [filename, setFilename] = useState<string | null>(null);
+  const [mode, setMode] = useState<"visible" | "fullpage">("visible");
+  const [truncated, setTruncated] = useState(false);
 
   useEffect(() => {
     return () => {
@@ -24,7 +26,8 @@ export default function ScreenshotTool({
     if (capturing) return;
     setCapturing(true);
 
-    chrome.runtime.sendMessage({ action: "TAKE_SCREENSHOT" }, (resp) => {
+    // Full page scrolls the tab and stitches several captures, so it takes a few seconds
+    chrome.runtime.sendMessage({ action: "TAKE_SCREENSHOT", mode }, (resp) => {
       if (chrome.runtime.lastError) {
         console.error("Screenshot message failed:", chrome.runtime.lastError);
         setCapturing(false);
@@ -33,8 +36,9 @@ export default function ScreenshotTool({
 
       if (resp?.success) {
         setImageUrl(resp.preview);
-        setFullKey(resp.fullKey);
+        setFullKeys(resp.fullKeys || (resp.fullKey ? [resp.fullKey] : []));
         setFilename(resp.filename || null);
+        setTruncated(Boolean(resp.truncated));
         console.log("[BugSense] Screenshot preview ready ✅");
       } else {
         console.error("Screenshot failed:", resp?.error);
@@ -45,23 +49,38 @@ export default function ScreenshotTool({
   };
 
   const downloadScreenshot = () => {
-    if (!fullKey) return;
-    chrome.runtime.sendMessage(
-      { action: "DOWNLOAD_FULL_SCREENSHOT", fullKey },
-      (resp) => {
-        if (chrome.runtime.lastError) {
-          console.error("Download message failed:", chrome.runtime.lastError);
-          return;
+    // very tall pages come back as several tiles — one file each
+    fullKeys.forEach((fullKey) => {
+      chrome.runtime.sendMessage(
+        { action: "DOWNLOAD_FULL_SCREENSHOT", fullKey },
+        (resp) => {
+          if (chrome.runtime.lastError) {
+            console.error("Download message failed:", chrome.runtime.lastError);
+            return;
+          }
+          if (!resp?.success) console.error("Download failed:", resp?.error);
+          else console.log("Download started:", resp.downloadId);
         }
-        if (!resp?.success) console.error("Download failed:", resp?.error);
-        else console.log("Download started:", resp.downloadId);
-      }
-    );
+      );
+    });
   };
 
   return (
     <div className="space-y-3">
-      <DisplayButton name={capturing ? "Capturing..." : "📸 Take Screenshot"} onClick={() => captureScreenshot()} color="dark" disable={capturing} />
+      <div className="flex rounded-lg overflow-hidden border border-gray-200 text-xs">
+        {(["visible", "fullpage"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            disabled={capturing}
+            className={`flex-1 py-1 transition ${mode === m ? "bg-gray-800 text-white" : "bg-white text-gray-600 hover:bg-gray-100"}`}
+          >
+            {m === "visible" ? "Visible area" : "Full page"}
+          </button>
+        ))}
+      </div>
+
+      <DisplayButton name={capturing ? (mode === "fullpage" ? "Scrolling & capturing..." : "Capturing...") : "📸 Take Screenshot"} onClick={() => captureScreenshot()} color="dark" disable={capturing} />
 
       {imageUrl && (
         <div className="mt-3 text-center">
@@ -95,6 +114,8 @@ export default function ScreenshotTool({
             </button>
           </div>
           {filename && <div className="text-xs text-gray-500 mt-1">{filename}</div>}
+          {fullKeys.length > 1 && <div className="text-xs text-gray-500">Page split into {fullKeys.length} images</div>}
+          {truncated && <div className="text-xs text-amber-600">Page too long — capture stopped early</div>}
         </div>
       )}
     </div>
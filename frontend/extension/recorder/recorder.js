@@ -1,5 +1,6 @@
 // extension/recorder.js
 // Final version — no extra popup window, just inline preview in same recorder tab.
+import { putMedia } from "../utils/mediaStore";
 
 let stream = null;
 let mediaRecorder = null;
@@ -46,7 +47,9 @@ async function startRecording() {
                 preview.autoplay = true;
                 previewSection.classList.remove("hidden");
 
-                await chrome.storage.local.set({ recordedVideo: url, isRecording: false });
+                // The blob: URL above only lives as long as this page — persist the video itself
+                const ref = await putMedia({ kind: "recording", blob, meta: { source: "recorder" } });
+                await chrome.storage.local.set({ recordedVideo: ref, isRecording: false });
                 setUI(false);
                 stream?.getTracks().forEach((t) => t.stop());
 
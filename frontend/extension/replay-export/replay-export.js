@@ -1,34 +1,189 @@
-async function main() {
-    const prog = document.getElementById("prog");
-    const status = document.getElementById("status");
+import GIF from "gif.js.optimized";
+import { getMediaBlob } from "../utils/mediaStore";
+import { normalizeActions } from "../utils/replayBuffer";
+import {
+    DEFAULT_REPLAY_EXPORT_OPTIONS,
+    buildTimeline,
+    overlaysAt,
+    recordingTimeAt,
+} from "../utils/replayTimeline";
 
-    const res = await chrome.storage.local.get("replayExportQueue");
-    const frames = res.replayExportQueue || [];
-    if (!frames.length) {
-        status.textContent = "❌ No frames found. Please capture again.";
-        return;
+// Builds the Instant Replay video (WebM, or GIF) from the frames queued by the popup.
+// Frames keep their real capture gaps with long idle stretches sped up, and clicks, typing
+// and console errors from the replay buffer are drawn over them (see utils/replayTimeline.ts).
+
+const FPS = 25;
+const GIF_FPS = 5;
+const MAX_W = 1280;
+const GIF_MAX_W = 640;
+const OPTIONS_KEY = "replayExportOptions";
+
+const el = (id) => document.getElementById(id);
+const prog = el("prog");
+const status = el("status");
+const startBtn = el("start");
+const cancelBtn = el("cancel");
+
+let cancelled = false;
+let abortGif = null;
+
+// Frames are { mediaId, timestamp } refs into the media store (older queues: inline data URLs)
+async function loadFrameBlob(frame) {
+    if (frame.mediaId) {
+        const blob = await getMediaBlob(frame.mediaId);
+        if (!blob) throw new Error(`Frame ${frame.mediaId} missing from media store`);
+        return blob;
     }
+    return await (await fetch(frame.screenshot)).blob();
+}
+
+/** Older popups queued a bare frame array */
+function readJob(raw) {
+    if (Array.isArray(raw)) return { frames: raw, actions: [], consoleErrors: [] };
+    return {
+        frames: Array.isArray(raw?.frames) ? raw.frames : [],
+        actions: normalizeActions(raw?.actions),
+        consoleErrors: Array.isArray(raw?.consoleErrors) ? raw.consoleErrors : [],
+    };
+}
 
-    status.textContent = `Preparing ${frames.length} frames...`;
+// ─────────────────────────────────────────────────────────────
+//  Options form
+// ─────────────────────────────────────────────────────────────
+async function loadOptions() {
+    const res = await chrome.storage.local.get(OPTIONS_KEY);
+    const opts = { ...DEFAULT_REPLAY_EXPORT_OPTIONS, ...(res?.[OPTIONS_KEY] || {}) };
+    el("idleThreshold").value = String(opts.idleThresholdMs / 1000);
+    el("idleSpeedup").value = String(opts.idleSpeedup);
+    el("overlays").checked = opts.overlays;
+    el("format").value = opts.format;
+}
 
-    // Determine target resolution
-    const firstBlob = await (await fetch(frames[0].screenshot)).blob();
-    const firstBitmap = await createImageBitmap(firstBlob);
-    let w = firstBitmap.width, h = firstBitmap.height;
-    const MAX_W = 1280;
-    if (w > MAX_W) {
-        const ratio = MAX_W / w;
-        w = Math.round(w * ratio);
-        h = Math.round(h * ratio);
+function readOptions() {
+    const seconds = Number(el("idleThreshold").value);
+    const speedup = Number(el("idleSpeedup").value);
+    return {
+        idleThresholdMs: seconds > 0 ? seconds * 1000 : DEFAULT_REPLAY_EXPORT_OPTIONS.idleThresholdMs,
+        idleSpeedup: speedup >= 1 ? speedup : DEFAULT_REPLAY_EXPORT_OPTIONS.idleSpeedup,
+        overlays: el("overlays").checked,
+        format: el("format").value === "gif" ? "gif" : "webm",
+    };
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Frames and overlays
+// ─────────────────────────────────────────────────────────────
+/** Decodes frames on demand at the output size, one ahead, closing the ones left behind */
+function frameSource(frames, w, h) {
+    const cache = new Map();
+    const decode = (i) => {
+        if (!cache.has(i)) {
+            cache.set(
+                i,
+                loadFrameBlob(frames[i])
+                    .then((blob) => createImageBitmap(blob, { resizeWidth: w, resizeHeight: h, resizeQuality: "high" }))
+                    .catch((e) => {
+                        console.warn("Frame failed:", e);
+                        return null;
+                    })
+            );
+        }
+        return cache.get(i);
+    };
+    return {
+        async get(i) {
+            for (const [k, p] of cache) {
+                if (k < i) {
+                    p.then((bmp) => bmp?.close());
+                    cache.delete(k);
+                }
+            }
+            if (i + 1 < frames.length) decode(i + 1);
+            return decode(i);
+        },
+        close() {
+            cache.forEach((p) => p.then((bmp) => bmp?.close()));
+            cache.clear();
+        },
+    };
+}
+
+function frameIndexAt(frames, t) {
+    let idx = 0;
+    while (idx + 1 < frames.length && frames[idx + 1].timestamp <= t) idx++;
+    return idx;
+}
+
+function fitText(ctx, text, maxWidth) {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let out = text;
+    while (out.length > 1 && ctx.measureText(`${out}…`).width > maxWidth) out = out.slice(0, -1);
+    return `${out}…`;
+}
+
+function drawOverlays(ctx, overlays, clickScale, w, h) {
+    const unit = w / MAX_W; // overlay sizes follow the output resolution
+
+    for (const r of overlays.ripples) {
+        const x = r.x * clickScale;
+        const y = r.y * clickScale;
+        const alpha = 1 - r.progress;
+        ctx.beginPath();
+        ctx.arc(x, y, (10 + 30 * r.progress) * Math.max(unit, 0.5), 0, Math.PI * 2);
+        ctx.strokeStyle = `rgba(58, 125, 255, ${alpha})`;
+        ctx.lineWidth = Math.max(2, 4 * unit);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(x, y, Math.max(3, 6 * unit), 0, Math.PI * 2);
+        ctx.fillStyle = `rgba(58, 125, 255, ${Math.max(0.3, alpha)})`;
+        ctx.fill();
     }
 
-    const canvas = document.createElement("canvas");
-    canvas.width = w;
-    canvas.height = h;
-    const ctx = canvas.getContext("2d");
-    document.body.appendChild(canvas);
+    const fontSize = Math.max(12, Math.round(22 * unit));
+    const pad = Math.round(fontSize * 0.5);
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    ctx.textBaseline = "middle";
+
+    if (overlays.banner) {
+        const barH = fontSize + pad * 2;
+        ctx.fillStyle = "rgba(220, 38, 38, 0.92)";
+        ctx.fillRect(0, 0, w, barH);
+        ctx.fillStyle = "#fff";
+        ctx.fillText(fitText(ctx, `⚠ ${overlays.banner}`, w - pad * 2), pad, barH / 2);
+    }
+
+    if (overlays.caption) {
+        const text = fitText(ctx, overlays.caption, w - pad * 6);
+        const boxW = ctx.measureText(text).width + pad * 2;
+        const boxH = fontSize + pad * 2;
+        const x = (w - boxW) / 2;
+        const y = h - boxH - pad * 2;
+        ctx.fillStyle = "rgba(0, 0, 0, 0.75)";
+        ctx.fillRect(x, y, boxW, boxH);
+        ctx.fillStyle = "#fff";
+        ctx.fillText(text, x + pad, y + boxH / 2);
+    }
+}
+
+/** Draws the video at `videoMs` and returns a key that only changes when the picture does */
+async function renderAt(videoMs, { ctx, job, frames, source, timeline, opts, w, h, clickScaleOf }) {
+    const t = recordingTimeAt(timeline, videoMs);
+    const idx = frameIndexAt(frames, t);
+    const bmp = await source.get(idx);
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, w, h);
+    if (bmp) ctx.drawImage(bmp, 0, 0, w, h);
+    if (!opts.overlays) return `${idx}`;
+    const overlays = overlaysAt(t, job);
+    drawOverlays(ctx, overlays, clickScaleOf(frames[idx]), w, h);
+    return `${idx}|${JSON.stringify(overlays)}`;
+}
 
-    const stream = canvas.captureStream(25);
+// ─────────────────────────────────────────────────────────────
+//  Encoders
+// ─────────────────────────────────────────────────────────────
+async function encodeWebm(canvas, render, duration) {
+    const stream = canvas.captureStream(FPS);
     const mimeType = MediaRecorder.isTypeSupported("video/webm;codecs=vp9")
         ? "video/webm;codecs=vp9"
         : "video/webm";
@@ -39,44 +194,174 @@ async function main() {
 
     const chunks = [];
     recorder.ondataavailable = (e) => e.data && chunks.push(e.data);
-
     const stopPromise = new Promise((res) => {
         recorder.onstop = () => res(new Blob(chunks, { type: mimeType }));
     });
 
+    // MediaRecorder timestamps by wall clock, so frames are drawn in real time
+    const step = 1000 / FPS;
     recorder.start(100);
+    const startedAt = performance.now();
+    for (let vt = 0; vt <= duration && !cancelled; vt += step) {
+        await render(vt);
+        prog.value = (vt / duration) * 100;
+        status.textContent = `Recording ${Math.round(vt / 1000)}s / ${Math.round(duration / 1000)}s`;
+        const wait = startedAt + vt + step - performance.now();
+        if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+    }
+    recorder.stop();
+    const blob = await stopPromise;
+    return cancelled ? null : blob;
+}
 
-    for (let i = 0; i < frames.length; i++) {
-        const f = frames[i];
-        try {
-            const blob = await (await fetch(f.screenshot)).blob();
-            const bmp = await createImageBitmap(blob, {
-                resizeWidth: w,
-                resizeHeight: h,
-                resizeQuality: "high",
-            });
-            ctx.fillStyle = "#000";
-            ctx.fillRect(0, 0, w, h);
-            ctx.drawImage(bmp, 0, 0, w, h);
-            bmp.close();
-            prog.value = ((i + 1) / frames.length) * 100;
-            status.textContent = `Frame ${i + 1}/${frames.length}`;
-            await new Promise((r) => setTimeout(r, 750)); // Wait 750 ms between frames
-        } catch (e) {
-            console.warn("Frame failed:", e);
+async function encodeGif(canvas, ctx, render, duration) {
+    const gif = new GIF({
+        workers: 2,
+        quality: 10,
+        width: canvas.width,
+        height: canvas.height,
+        workerScript: chrome.runtime.getURL("extension/assets/gif.worker.js"),
+        background: "#000",
+        repeat: 0,
+    });
+    abortGif = () => gif.abort();
+
+    // consecutive identical pictures become one GIF frame with a longer delay
+    const step = 1000 / GIF_FPS;
+    let pending = null;
+    const flush = async () => {
+        if (!pending) return;
+        await render(pending.vt);
+        gif.addFrame(ctx, { copy: true, delay: Math.round(pending.delay) });
+    };
+    for (let vt = 0; vt <= duration && !cancelled; vt += step) {
+        const key = await render(vt);
+        if (pending && pending.key === key) {
+            pending.delay += step;
+        } else {
+            await flush();
+            pending = { vt, key, delay: step };
         }
+        prog.value = (vt / duration) * 50;
+        status.textContent = `Drawing ${Math.round(vt / 1000)}s / ${Math.round(duration / 1000)}s`;
     }
+    await flush();
+    if (cancelled) return null;
 
-    recorder.stop();
-    const blob = await stopPromise;
+    status.textContent = "Encoding GIF (please wait)...";
+    return await new Promise((resolve) => {
+        gif.on("progress", (p) => (prog.value = 50 + p * 50));
+        gif.on("finished", (blob) => resolve(blob));
+        gif.on("abort", () => resolve(null));
+        gif.render();
+    });
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Export
+// ─────────────────────────────────────────────────────────────
+async function exportReplay(job, opts) {
+    const frames = [...job.frames].sort((a, b) => a.timestamp - b.timestamp);
+
+    // Determine target resolution
+    const firstBitmap = await createImageBitmap(await loadFrameBlob(frames[0]));
+    const maxW = opts.format === "gif" ? GIF_MAX_W : MAX_W;
+    let w = firstBitmap.width, h = firstBitmap.height;
+    if (w > maxW) {
+        const ratio = maxW / w;
+        w = Math.round(w * ratio);
+        h = Math.round(h * ratio);
+    }
+    const sourceWidth = firstBitmap.width;
+    firstBitmap.close();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext("2d", { willReadFrequently: opts.format === "gif" });
+    el("preview").before(canvas);
+
+    const marks = [
+        ...job.actions.filter((a) => a.type !== "focus" && a.type !== "blur").map((a) => a.timestamp),
+        ...job.consoleErrors.map((e) => e.ts),
+    ];
+    const timeline = buildTimeline(frames.map((f) => f.timestamp), marks, opts);
+    const source = frameSource(frames, w, h);
+    // click positions are CSS px of the page; frames are device px scaled to the output
+    const clickScaleOf = (frame) => w / (frame.viewportWidth || sourceWidth / (window.devicePixelRatio || 1));
+    const render = (vt) => renderAt(vt, { ctx, job, frames, source, timeline, opts, w, h, clickScaleOf });
+
+    try {
+        return opts.format === "gif"
+            ? await encodeGif(canvas, ctx, render, timeline.duration)
+            : await encodeWebm(canvas, render, timeline.duration);
+    } finally {
+        source.close();
+        canvas.remove();
+    }
+}
+
+function showResult(blob, format) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `bug-sense-replay-${Date.now()}.webm`;
+    a.download = `bug-sense-replay-${Date.now()}.${format}`;
     a.click();
 
-    status.textContent = "✅ Export complete!";
-    chrome.storage.local.remove("replayExportQueue");
+    const preview = el("preview");
+    preview.innerHTML = "";
+    const media = document.createElement(format === "gif" ? "img" : "video");
+    media.src = url;
+    if (format !== "gif") media.controls = true;
+    preview.appendChild(media);
+}
+
+async function main() {
+    const res = await chrome.storage.local.get("replayExportQueue");
+    const job = readJob(res.replayExportQueue);
+    if (!job.frames.length) {
+        status.textContent = "❌ No frames found. Please capture again.";
+        return;
+    }
+
+    await loadOptions();
+    startBtn.disabled = false;
+    status.textContent = `${job.frames.length} frames, ${job.actions.length} actions, ${job.consoleErrors.length} console messages. Choose options and export.`;
+
+    startBtn.addEventListener("click", async () => {
+        const opts = readOptions();
+        chrome.storage.local.set({ [OPTIONS_KEY]: opts });
+        cancelled = false;
+        startBtn.disabled = true;
+        cancelBtn.disabled = false;
+        el("options").disabled = true;
+        prog.value = 0;
+        try {
+            const blob = await exportReplay(job, opts);
+            if (!blob) {
+                status.textContent = "Export cancelled.";
+                return;
+            }
+            showResult(blob, opts.format);
+            status.textContent = "✅ Export complete!";
+            chrome.storage.local.remove("replayExportQueue");
+        } catch (e) {
+            console.error("[BugSense] Replay export failed:", e);
+            status.textContent = `❌ Export failed: ${e?.message || e}`;
+        } finally {
+            abortGif = null;
+            cancelBtn.disabled = true;
+            startBtn.disabled = false;
+            el("options").disabled = false;
+        }
+    });
+
+    cancelBtn.addEventListener("click", () => {
+        cancelled = true;
+        abortGif?.();
+        cancelBtn.disabled = true;
+        status.textContent = "Cancelling...";
+    });
 }
 
 main();
@@ -2,6 +2,7 @@
 // Final version: GIF never appears in main popup, safe & clean processing.
 
 import GIF from "gif.js.optimized";
+import { putMedia } from "../utils/mediaStore";
 window.GIF = GIF;
 
 (async function () {
@@ -157,13 +158,14 @@ window.GIF = GIF;
         // controls.appendChild(copyBtn);
         controls.appendChild(manualCloseBtn);
 
-        // --- Store privately (popup won't detect this key) ---
-        chrome.storage.local.set({ generatedGif_temp_private: blobUrl }, () => {
-          console.log("[BugSense Uploader] Stored privately (not visible to popup).");
-          setTimeout(() => {
-            chrome.storage.local.remove("generatedGif_temp_private");
-          }, 1000);
-        });
+        // --- Keep the GIF in the media store (popup doesn't watch lastGeneratedGif) ---
+        try {
+          const ref = await putMedia({ kind: "gif", blob, meta: { source: "uploader", fileName: file.name } });
+          await chrome.storage.local.set({ lastGeneratedGif: ref });
+          console.log("[BugSense Uploader] Stored GIF in media store:", ref.mediaId);
+        } catch (err) {
+          console.warn("[BugSense Uploader] Could not store GIF:", err);
+        }
 
         // 🚫 No message to popup anymore
         // chrome.runtime.sendMessage({ action: "GIF_READY", url: blobUrl });
@@ -0,0 +1,478 @@
+// extension/utils/bugLibrary.ts
+// Persistent history of created bugs under "bugLibrary" in chrome.storage.local. It replaces the
+// single-slot bugClipboard / bugsense_clipboard keys, which are imported once and removed.
+// Entries stay lightweight: screenshots live in the media store (kind "bug") and are deleted
+// together with their entry; so do the DOM / tab recordings, copied into kind "bug" on save. HAR, replay actions and requests stay inline, which is what the
+// unlimitedStorage permission is for. Every write runs in the background (BUG_LIBRARY_WRITE):
+// the popup and DevTools only read the key and send their changes there.
+import { ElementInfo } from "./elementInfo";
+import { ActionEvent } from "./replayBuffer";
+import { NetworkEntry } from "./network";
+import { HarLog } from "./har";
+import { GeneratedTest } from "./testExport";
+import { ReplayRunResult } from "./replayRun";
+import { EvidenceWindow } from "./bugTimeline";
+import { BugEnvironment } from "./environment";
+import { AppData } from "./pageSdk";
+import { SymbolicatedStack } from "./symbolication";
+import { ErrorGroup } from "./errorFingerprint";
+import { MediaRef, blobToDataUrl, dataUrlToBlob, deleteMedia, getMedia, getMediaBlob, putMedia } from "./mediaStore";
+
+export type BugStatus = "draft" | "filed" | "exported" | "fixed";
+
+export const BUG_STATUS_LABELS: Record<BugStatus, string> = {
+  draft: "Draft",
+  filed: "Filed to sheet",
+  exported: "Exported",
+  fixed: "Fixed", // its error coming back is flagged as a regression (utils/errorIndex.ts)
+};
+
+export type BugSourceType = "console" | "selection" | "fullpage" | "element" | "image" | "link";
+
+export const BUG_SOURCE_LABELS: Record<BugSourceType, string> = {
+  console: "Console error",
+  selection: "Selection",
+  fullpage: "Full page",
+  element: "Element",
+  image: "Image",
+  link: "Link",
+};
+
+export type BugSeverity = "blocker" | "critical" | "major" | "minor" | "trivial";
+export const BUG_SEVERITIES: BugSeverity[] = ["blocker", "critical", "major", "minor", "trivial"];
+
+export type BugPriority = "P0" | "P1" | "P2" | "P3";
+export const BUG_PRIORITIES: BugPriority[] = ["P0", "P1", "P2", "P3"];
+
+/** A console error folded by fingerprint (utils/errorFingerprint.ts), with its occurrences */
+export type BugErrorGroup = {
+  fingerprint: string;
+  type: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  urls: string[];
+  occurrences: { ts: number; message: string; url?: string | null; stack?: string | null }[]; // stack only when it differs from the report's
+};
+
+/** Appended from the DevTools panel when a known error shows up again instead of filing a new bug */
+export type BugOccurrenceNote = {
+  ts: number;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  urls: string[];
+  regression: boolean; // the bug was marked fixed
+};
+
+/** Fields the AI backend can fill; they stay marked until a human edits them */
+export type BugAiField = "title" | "description" | "steps";
+
+/** The bug itself, as built by the capture flows and edited in the DevTools bug editor */
+export type BugReport = {
+  title: string;
+  description: string;
+  steps: string[];
+  expectedResult?: string;
+  actualResult?: string;
+  severity?: BugSeverity;
+  priority?: BugPriority;
+  labels?: string[];
+  component?: string;
+  environment?: string; // free-text notes from the editor
+  environmentInfo?: BugEnvironment | null; // captured automatically with the bug (utils/environment.ts)
+  aiGenerated?: BugAiField[];
+  source: { type: BugSourceType; raw: any };
+  element?: ElementInfo;
+  replayActions?: ActionEvent[]; // versioned, with ranked locators (utils/replayBuffer.ts)
+  networkRequests?: NetworkEntry[];
+  har?: HarLog | null;
+  testScript?: GeneratedTest | null; // Playwright reproduction built from replayActions
+  replayRun?: ReplayRunResult; // last "Replay steps" verdict
+  domRecording?: MediaRef | null; // DOM snapshot + mutations of the last ~60s, opened in the player page
+  recording?: MediaRef | null; // tab recording (popup recorder) attached in the editor
+  evidenceWindow?: EvidenceWindow | null; // range picked on the timeline; actions / requests are clipped to it
+  consoleErrors?: { ts: number; message: string; level?: string }[]; // console messages inside the evidence window
+  appData?: AppData | null; // breadcrumbs, context, user and state pushed through window.BugSense
+  symbolicatedStack?: SymbolicatedStack | null; // console stack resolved through source maps
+  errorGroup?: BugErrorGroup | null; // every occurrence of the console error the bug was created from
+  occurrenceNotes?: BugOccurrenceNote[]; // later sightings of the same error
+};
+
+/** A new bug before it is saved — screenshots as data: URLs and/or already stored images */
+export type BugDraft = BugReport & {
+  screenshots?: MediaRef[];
+  screenshotDataUrl?: string | null;
+  screenshotTiles?: string[]; // full-page captures taller than one canvas tile
+};
+
+export type BugEntry = BugReport & {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: BugStatus;
+  fixedAt?: number | null; // set while status is "fixed"
+  screenshots: MediaRef[]; // one image, or the tiles of a full-page capture
+};
+
+export type BugFilter = { query?: string; sourceType?: BugSourceType | "all"; status?: BugStatus | "all" };
+
+export const BUG_LIBRARY_KEY = "bugLibrary";
+const LEGACY_KEYS = ["bugClipboard", "bugsense_clipboard"];
+const MAX_ENTRIES = 200;
+
+function newBugId() {
+  return `bug_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function readLibrary(): Promise<BugEntry[]> {
+  const res = await chrome.storage.local.get([BUG_LIBRARY_KEY]);
+  return Array.isArray(res?.[BUG_LIBRARY_KEY]) ? res[BUG_LIBRARY_KEY] : [];
+}
+
+// Serialize read-modify-write of the library. Only covers this context — hence background-only writes.
+let libraryChain: Promise<unknown> = Promise.resolve();
+
+function updateLibrary<T>(fn: (entries: BugEntry[]) => Promise<{ entries: BugEntry[]; result: T }>): Promise<T> {
+  const next = libraryChain.then(async () => {
+    const { entries, result } = await fn(await readLibrary());
+    try {
+      await chrome.storage.local.set({ [BUG_LIBRARY_KEY]: entries });
+    } catch (err) {
+      // unlimitedStorage lifts the 10 MB cap, but the disk can still run out
+      if (/quota/i.test(String((err as Error)?.message || err))) {
+        throw new Error("Bug library storage is full — export and delete old bugs, then try again");
+      }
+      throw err;
+    }
+    return result;
+  });
+  libraryChain = next.catch(() => undefined);
+  return next;
+}
+
+/** Applies a status, stamping fixedAt when the bug becomes fixed */
+function withStatus(bug: BugEntry, status: BugStatus): BugEntry {
+  if (status !== "fixed") return { ...bug, status, fixedAt: null };
+  return { ...bug, status, fixedAt: bug.status === "fixed" && bug.fixedAt ? bug.fixedAt : bug.updatedAt };
+}
+
+function draftImages(draft: BugDraft): string[] {
+  return draft.screenshotTiles?.length ? draft.screenshotTiles : draft.screenshotDataUrl ? [draft.screenshotDataUrl] : [];
+}
+
+function toEntry(draft: BugDraft, stored: MediaRef[], createdAt = Date.now()): BugEntry {
+  const { screenshotDataUrl, screenshotTiles, screenshots, ...report } = draft;
+  return {
+    ...report,
+    id: newBugId(),
+    createdAt,
+    updatedAt: createdAt,
+    status: "draft",
+    screenshots: [...(screenshots || []), ...stored],
+  };
+}
+
+/** Media deleted with the entry: screenshots and the recordings copied in by adoptMedia */
+function ownedMedia(bug: BugEntry): string[] {
+  const recordings = [bug.domRecording, bug.recording].filter((r): r is MediaRef => r?.kind === "bug");
+  return [...bug.screenshots, ...recordings].map((r) => r.mediaId);
+}
+
+/** Deletes the media of `removed` that none of `kept` references (duplicates share recordings) */
+async function releaseMedia(removed: BugEntry[], kept: BugEntry[]) {
+  const inUse = new Set(kept.flatMap(ownedMedia));
+  await deleteMedia(removed.flatMap(ownedMedia).filter((id) => !inUse.has(id))).catch(() => undefined);
+}
+
+/** Copies a capture-kind recording into kind "bug", which the media store's per-kind caps never evict */
+async function adoptMedia(ref: MediaRef | null | undefined): Promise<MediaRef | null | undefined> {
+  if (!ref || ref.kind === "bug") return ref;
+  const record = await getMedia(ref.mediaId);
+  if (!record) return ref; // already evicted — the player reports it
+  return putMedia({ kind: "bug", blob: record.blob, origin: record.origin, meta: record.meta });
+}
+
+/** The report with its recordings adopted, plus the copies made (to delete if the write fails) */
+async function adoptRecordings<T extends Partial<BugReport>>(report: T): Promise<{ report: T; copies: MediaRef[] }> {
+  const out = { ...report };
+  if (report.domRecording) out.domRecording = await adoptMedia(report.domRecording);
+  if (report.recording) out.recording = await adoptMedia(report.recording);
+  const copies = [
+    out.domRecording !== report.domRecording ? out.domRecording : null,
+    out.recording !== report.recording ? out.recording : null,
+  ].filter((r): r is MediaRef => Boolean(r));
+  return { report: out, copies };
+}
+
+/** Drops the oldest entries past the cap; returns the ones to keep */
+async function capEntries(entries: BugEntry[]) {
+  if (entries.length <= MAX_ENTRIES) return entries;
+  await releaseMedia(entries.slice(MAX_ENTRIES), entries.slice(0, MAX_ENTRIES));
+  return entries.slice(0, MAX_ENTRIES);
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Legacy single-slot clipboard
+// ─────────────────────────────────────────────────────────────
+function legacyToDraft(key: string, raw: any): BugDraft | null {
+  if (!raw || typeof raw !== "object") return null;
+  if (key === "bugsense_clipboard") {
+    return {
+      title: String(raw.title || "Bug"),
+      description: String(raw.description || ""),
+      steps: Array.isArray(raw.steps) ? raw.steps : raw.steps ? [String(raw.steps)] : [],
+      screenshotDataUrl: raw.screenshot || null,
+      source: {
+        type: "console",
+        raw: { message: raw.description, filename: raw.file, lineno: raw.line, colno: raw.column, ts: raw.time },
+      },
+    };
+  }
+  const { createdAt, ...rest } = raw;
+  return { ...rest, steps: Array.isArray(raw.steps) ? raw.steps : [], source: raw.source || { type: "selection", raw: {} } };
+}
+
+let migration: Promise<void> | null = null;
+
+/** Moves bugs left in the old single-slot keys into the library (once per context) */
+function migrateLegacyClipboard(): Promise<void> {
+  if (!migration) {
+    migration = writeLibrary("migrate").catch((err) => console.warn("[BugSense] Bug clipboard migration failed:", err));
+  }
+  return migration;
+}
+
+function importLegacyClipboard(): Promise<void> {
+  return updateLibrary(async (entries) => {
+    const res = await chrome.storage.local.get(LEGACY_KEYS);
+    const imported: BugEntry[] = [];
+    for (const key of LEGACY_KEYS) {
+      const draft = legacyToDraft(key, res?.[key]);
+      if (!draft) continue;
+      const createdAt = Date.parse(res[key].createdAt) || Date.now();
+      imported.push(toEntry(draft, await storeBugImages(draftImages(draft)), createdAt));
+    }
+    if (imported.length) await chrome.storage.local.remove(LEGACY_KEYS);
+    const merged = [...entries, ...imported].sort((a, b) => b.createdAt - a.createdAt);
+    return { entries: merged, result: undefined };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Writes (background only)
+// ─────────────────────────────────────────────────────────────
+export const BUG_LIBRARY_WRITE = "BUG_LIBRARY_WRITE";
+
+const libraryWrites = {
+  migrate: importLegacyClipboard,
+
+  /** `draft` images are already in the media store (addBug) */
+  add: async (draft: BugDraft): Promise<BugEntry> => {
+    const { report, copies } = await adoptRecordings(draft);
+    const entry = toEntry(report, []);
+    try {
+      return await updateLibrary(async (entries) => ({ entries: await capEntries([entry, ...entries]), result: entry }));
+    } catch (err) {
+      await discardBugImages(copies);
+      throw err;
+    }
+  },
+
+  update: async (id: string, patch: Partial<BugReport> & { status?: BugStatus; screenshots?: MediaRef[] }): Promise<BugEntry | null> => {
+    const { report: adopted, copies } = await adoptRecordings(patch);
+    return updateLibrary(async (entries) => {
+      const current = entries.find((b) => b.id === id);
+      if (!current) {
+        await discardBugImages(copies);
+        return { entries, result: null };
+      }
+      const updated: BugEntry = withStatus({ ...current, ...adopted, updatedAt: Date.now() }, adopted.status ?? current.status);
+      const next = entries.map((b) => (b.id === id ? updated : b));
+      // screenshots / recordings removed in the editor are no longer referenced by anything
+      await releaseMedia([current], next);
+      return { entries: next, result: updated };
+    });
+  },
+
+  status: (ids: string[], status: BugStatus): Promise<void> => {
+    const set = new Set(ids);
+    return updateLibrary(async (entries) => ({
+      entries: entries.map((b) => (set.has(b.id) ? withStatus({ ...b, updatedAt: Date.now() }, status) : b)),
+      result: undefined,
+    }));
+  },
+
+  duplicate: (id: string): Promise<BugEntry | null> =>
+    updateLibrary(async (entries) => {
+      const original = entries.find((b) => b.id === id);
+      if (!original) return { entries, result: null };
+      const screenshots: MediaRef[] = [];
+      for (const ref of original.screenshots) {
+        const blob = await getMediaBlob(ref.mediaId);
+        if (blob) screenshots.push(await putMedia({ kind: "bug", blob }));
+      }
+      const now = Date.now();
+      const copy: BugEntry = {
+        ...original,
+        id: newBugId(),
+        title: `${original.title} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+        status: "draft",
+        screenshots,
+      };
+      return { entries: await capEntries([copy, ...entries]), result: copy };
+    }),
+
+  delete: (ids: string[]): Promise<void> => {
+    const set = new Set(ids);
+    return updateLibrary(async (entries) => {
+      const kept = entries.filter((b) => !set.has(b.id));
+      await releaseMedia(entries.filter((b) => set.has(b.id)), kept);
+      return { entries: kept, result: undefined };
+    });
+  },
+};
+
+type LibraryWrites = typeof libraryWrites;
+export type BugLibraryWriteOp = keyof LibraryWrites;
+
+/** True in the service worker, which owns the library (and error index) writes */
+export function isBackground() {
+  const Scope = (globalThis as any).ServiceWorkerGlobalScope;
+  return typeof Scope === "function" && globalThis instanceof Scope;
+}
+
+/** Runs the write here in the background, everywhere else asks the background to */
+async function writeLibrary<K extends BugLibraryWriteOp>(
+  op: K,
+  ...args: Parameters<LibraryWrites[K]>
+): Promise<Awaited<ReturnType<LibraryWrites[K]>>> {
+  if (isBackground()) return (libraryWrites[op] as (...a: any[]) => any)(...args);
+  const resp = await chrome.runtime.sendMessage({ action: BUG_LIBRARY_WRITE, op, args });
+  if (!resp?.success) throw new Error(resp?.error || "Bug library update failed");
+  return resp.result;
+}
+
+/** Background side of BUG_LIBRARY_WRITE */
+export function applyLibraryWrite(op: BugLibraryWriteOp, args: any[]): Promise<unknown> {
+  const write = libraryWrites[op] as ((...a: any[]) => Promise<unknown>) | undefined;
+  if (typeof write !== "function") return Promise.reject(new Error(`Unknown bug library write: ${op}`));
+  return write(...args);
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Public API
+// ─────────────────────────────────────────────────────────────
+/** Newest first */
+export async function listBugs(): Promise<BugEntry[]> {
+  await migrateLegacyClipboard();
+  return readLibrary();
+}
+
+export async function getBug(id: string): Promise<BugEntry | null> {
+  return (await listBugs()).find((b) => b.id === id) || null;
+}
+
+/** Stores screenshots (data: URLs or uploaded files) for an entry that is being created or edited */
+export async function storeBugImages(images: Array<string | Blob>): Promise<MediaRef[]> {
+  const refs: MediaRef[] = [];
+  for (const image of images) {
+    try {
+      const blob = typeof image === "string" ? await dataUrlToBlob(image) : image;
+      refs.push(await putMedia({ kind: "bug", blob }));
+    } catch (err) {
+      console.warn("[BugSense] Bug screenshot could not be stored:", err);
+    }
+  }
+  return refs;
+}
+
+/** Drops stored screenshots that never made it into a saved entry */
+export async function discardBugImages(refs: MediaRef[]) {
+  await deleteMedia(refs.map((r) => r.mediaId)).catch(() => undefined);
+}
+
+export async function addBug(draft: BugDraft): Promise<BugEntry> {
+  await migrateLegacyClipboard();
+  // images go to the media store from here, so the message to the background stays small
+  const stored = await storeBugImages(draftImages(draft));
+  const { screenshotDataUrl, screenshotTiles, ...report } = draft;
+  try {
+    return await writeLibrary("add", { ...report, screenshots: [...(draft.screenshots || []), ...stored] });
+  } catch (err) {
+    await discardBugImages(stored);
+    throw err;
+  }
+}
+
+export function updateBug(
+  id: string,
+  patch: Partial<BugReport> & { status?: BugStatus; screenshots?: MediaRef[] }
+): Promise<BugEntry | null> {
+  return writeLibrary("update", id, patch);
+}
+
+export function setBugStatus(ids: string[], status: BugStatus): Promise<void> {
+  return writeLibrary("status", ids, status);
+}
+
+/** Copies the entry (and its screenshots) as a new draft */
+export function duplicateBug(id: string): Promise<BugEntry | null> {
+  return writeLibrary("duplicate", id);
+}
+
+export function deleteBugs(ids: string[]): Promise<void> {
+  return writeLibrary("delete", ids);
+}
+
+/** What a bug keeps of a DevPanel error group; occurrence stacks only when they differ from the sample */
+export function toBugErrorGroup(group: ErrorGroup<{ ts: number; message?: string | null; url?: string | null; stack?: string | null }>): BugErrorGroup {
+  const { sample, occurrences, ...summary } = group;
+  return {
+    ...summary,
+    occurrences: occurrences.map((o) => ({
+      ts: o.ts,
+      message: String(o.message || "").slice(0, 500),
+      url: o.url || null,
+      ...(o.stack && o.stack !== sample.stack ? { stack: o.stack.slice(0, 1000) } : {}),
+    })),
+  };
+}
+
+export function filterBugs(entries: BugEntry[], filter: BugFilter): BugEntry[] {
+  const query = (filter.query || "").trim().toLowerCase();
+  return entries.filter((b) => {
+    if (filter.sourceType && filter.sourceType !== "all" && b.source?.type !== filter.sourceType) return false;
+    if (filter.status && filter.status !== "all" && b.status !== filter.status) return false;
+    if (!query) return true;
+    return [b.title, b.description, b.component, ...(b.steps || []), ...(b.labels || [])].some((text) => String(text || "").toLowerCase().includes(query));
+  });
+}
+
+/** Downloads the entries as one JSON file (screenshots inlined) and marks them exported */
+export async function exportBugs(entries: BugEntry[], filename = `bug-sense-bugs-${Date.now()}.json`) {
+  const bugs = [];
+  for (const { screenshots, ...bug } of entries) {
+    const images: string[] = [];
+    for (const ref of screenshots) {
+      const blob = await getMediaBlob(ref.mediaId);
+      if (blob) images.push(await blobToDataUrl(blob));
+    }
+    bugs.push({ ...bug, screenshots: images });
+  }
+  const blob = new Blob([JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), bugs }, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  // fixed stays fixed — exporting is not a step back in the bug's life
+  await setBugStatus(entries.filter((b) => b.status !== "fixed").map((b) => b.id), "exported");
+}
@@ -0,0 +1,109 @@
+// extension/utils/bugTimeline.ts
+// Evidence of one tab on a single time axis (DevTools "Timeline"): replay actions, SPA
+// navigations, app breadcrumbs (window.BugSense), console errors, captured requests and Instant
+// Replay frames. A selected range
+// becomes the evidence window — only what falls inside it is attached to the bug and sent to
+// /ai/analyze.
+import { ActionEvent } from "./replayBuffer";
+import { NetworkEntry, describeNetworkEntry } from "./network";
+import { ReplayFrameRef } from "./mediaStore";
+import { describeAction } from "./replaySteps";
+import { SdkBreadcrumb, describeBreadcrumb } from "./pageSdk";
+
+export type TimelineLane = "action" | "navigation" | "app" | "console" | "network" | "screenshot";
+
+export const TIMELINE_LANES: { lane: TimelineLane; label: string }[] = [
+  { lane: "action", label: "Actions" },
+  { lane: "navigation", label: "Navigation" },
+  { lane: "app", label: "App" },
+  { lane: "console", label: "Console" },
+  { lane: "network", label: "Network" },
+  { lane: "screenshot", label: "Frames" },
+];
+
+export type TimelineItem = {
+  id: string;
+  lane: TimelineLane;
+  ts: number;
+  end?: number; // requests span their duration
+  label: string;
+  severity?: "error" | "warn";
+  mediaId?: string; // screenshot frames
+};
+
+export type EvidenceWindow = { from: number; to: number };
+
+export type TimelineConsoleEntry = { ts: number; message: string; level?: "error" | "warn" };
+
+export type TimelineSources = {
+  actions: ActionEvent[];
+  consoleErrors: TimelineConsoleEntry[];
+  network: NetworkEntry[];
+  screenshots: ReplayFrameRef[];
+  breadcrumbs: SdkBreadcrumb[];
+};
+
+export function buildTimelineItems(src: TimelineSources): TimelineItem[] {
+  const items: TimelineItem[] = [];
+  src.actions.forEach((a, i) => {
+    if (a.type === "focus" || a.type === "blur") return; // noise on an axis
+    items.push({
+      id: `a${i}`,
+      lane: a.type === "navigation" ? "navigation" : "action",
+      ts: a.timestamp,
+      label: describeAction(a),
+    });
+  });
+  src.breadcrumbs.forEach((b, i) => {
+    items.push({
+      id: `b${i}`,
+      lane: "app",
+      ts: b.ts,
+      label: describeBreadcrumb(b).slice(0, 200),
+      severity: b.level === "error" ? "error" : b.level === "warning" ? "warn" : undefined,
+    });
+  });
+  src.consoleErrors.forEach((e, i) => {
+    items.push({
+      id: `c${i}`,
+      lane: "console",
+      ts: e.ts,
+      label: String(e.message || "").split("\n")[0].slice(0, 200),
+      severity: e.level === "warn" ? "warn" : "error",
+    });
+  });
+  src.network.forEach((r, i) => {
+    items.push({
+      id: `n${i}`,
+      lane: "network",
+      ts: r.startedAt || r.ts,
+      end: (r.startedAt || r.ts) + (r.duration || 0),
+      label: describeNetworkEntry(r),
+      severity: r.failed ? "error" : undefined,
+    });
+  });
+  src.screenshots.forEach((f, i) => {
+    items.push({ id: `s${i}`, lane: "screenshot", ts: f.timestamp, label: "Instant Replay frame", mediaId: f.mediaId });
+  });
+  return items.sort((a, b) => a.ts - b.ts);
+}
+
+export function inEvidenceWindow(ts: number, win: EvidenceWindow | null, end = ts): boolean {
+  if (!win) return true;
+  return end >= win.from && ts <= win.to;
+}
+
+/** Keeps what overlaps the window (everything when no window is selected) */
+export function clipToWindow<T>(list: T[], win: EvidenceWindow | null, span: (item: T) => [number, number?]): T[] {
+  if (!win) return list;
+  return list.filter((item) => {
+    const [ts, end] = span(item);
+    return inEvidenceWindow(ts, win, end ?? ts);
+  });
+}
+
+export function describeEvidenceWindow(win: EvidenceWindow): string {
+  const fmt = (ts: number) => new Date(ts).toLocaleTimeString();
+  const seconds = Math.max(0, Math.round((win.to - win.from) / 100) / 10);
+  return `${fmt(win.from)} – ${fmt(win.to)} (${seconds}s)`;
+}
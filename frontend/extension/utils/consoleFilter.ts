@@ -0,0 +1,107 @@
+// extension/utils/consoleFilter.ts
+// Toolbar filters of the DevTools console list: full-text search over message and stack, the
+// kind of capture, the page URL / script filename and a time range. Kept in sessionStorage, so
+// they last as long as the DevTools window.
+import { EvidenceWindow, inEvidenceWindow } from "./bugTimeline";
+
+// runtime = uncaught error (or BugSense.captureError), promise = unhandled rejection,
+// console = console.error / assert, warn = console.warn, network = failed resource load
+export type ConsoleKind = "runtime" | "promise" | "console" | "warn" | "network";
+
+export const CONSOLE_KINDS: { kind: ConsoleKind; label: string }[] = [
+  { kind: "runtime", label: "Runtime" },
+  { kind: "promise", label: "Promise" },
+  { kind: "console", label: "Console" },
+  { kind: "warn", label: "Warnings" },
+  { kind: "network", label: "Network" },
+];
+
+export type ConsoleTimeRange = "all" | "1m" | "5m" | "15m" | "1h" | "window";
+
+export const CONSOLE_TIME_RANGES: { range: ConsoleTimeRange; label: string; ms?: number }[] = [
+  { range: "all", label: "Any time" },
+  { range: "1m", label: "Last minute", ms: 60_000 },
+  { range: "5m", label: "Last 5 min", ms: 5 * 60_000 },
+  { range: "15m", label: "Last 15 min", ms: 15 * 60_000 },
+  { range: "1h", label: "Last hour", ms: 60 * 60_000 },
+  { range: "window", label: "Timeline selection" },
+];
+
+export type ConsoleFilter = {
+  query: string;
+  kinds: ConsoleKind[];
+  url: string; // substring of the page URL or the script filename
+  range: ConsoleTimeRange;
+};
+
+export const DEFAULT_CONSOLE_FILTER: ConsoleFilter = {
+  query: "",
+  kinds: CONSOLE_KINDS.map((k) => k.kind),
+  url: "",
+  range: "all",
+};
+
+export type FilterableConsoleEntry = {
+  ts: number;
+  type?: string;
+  level?: string;
+  message?: string | null;
+  stack?: string | null;
+  url?: string | null;
+  filename?: string | null;
+};
+
+const SESSION_KEY = "bugsense_console_filter";
+
+export function consoleKind(e: FilterableConsoleEntry): ConsoleKind {
+  if (e.type === "network") return "network";
+  if (e.level === "warn") return "warn";
+  if (e.type === "promise") return "promise";
+  if (e.type === "console") return "console";
+  return "runtime"; // "runtime" and "sdk.captureError"
+}
+
+export function isFilterActive(filter: ConsoleFilter) {
+  return (
+    Boolean(filter.query.trim() || filter.url.trim()) ||
+    filter.range !== "all" ||
+    filter.kinds.length !== DEFAULT_CONSOLE_FILTER.kinds.length
+  );
+}
+
+export function matchesConsoleFilter(
+  e: FilterableConsoleEntry,
+  filter: ConsoleFilter,
+  evidenceWindow: EvidenceWindow | null = null,
+  now = Date.now()
+) {
+  if (!filter.kinds.includes(consoleKind(e))) return false;
+
+  const ms = CONSOLE_TIME_RANGES.find((r) => r.range === filter.range)?.ms;
+  if (ms && e.ts < now - ms) return false;
+  if (filter.range === "window" && !inEvidenceWindow(e.ts, evidenceWindow)) return false;
+
+  const url = filter.url.trim().toLowerCase();
+  if (url && ![e.url, e.filename].some((u) => String(u || "").toLowerCase().includes(url))) return false;
+
+  const query = filter.query.trim().toLowerCase();
+  if (query && !`${e.message || ""}\n${e.stack || ""}`.toLowerCase().includes(query)) return false;
+  return true;
+}
+
+export function loadConsoleFilter(): ConsoleFilter {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(SESSION_KEY) || "null");
+    return saved ? { ...DEFAULT_CONSOLE_FILTER, ...saved } : DEFAULT_CONSOLE_FILTER;
+  } catch {
+    return DEFAULT_CONSOLE_FILTER;
+  }
+}
+
+export function saveConsoleFilter(filter: ConsoleFilter) {
+  try {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(filter));
+  } catch {
+    // storage disabled — the filter just won't survive a panel reload
+  }
+}
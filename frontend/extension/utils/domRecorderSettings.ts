@@ -0,0 +1,33 @@
+// extension/utils/domRecorderSettings.ts
+// Per-site opt-in for the DOM recorder (content/domRecorder.ts), stored under
+// "domRecorderSettings". Recording observes every mutation and re-snapshots the page every
+// DOM_CHECKPOINT_MS, so it only runs on the origins the user enabled.
+
+export type DomRecorderSettings = {
+  enabledOrigins: string[];
+};
+
+export const DOM_RECORDER_SETTINGS_KEY = "domRecorderSettings";
+
+export const DEFAULT_DOM_RECORDER_SETTINGS: DomRecorderSettings = { enabledOrigins: [] };
+
+export async function getDomRecorderSettings(): Promise<DomRecorderSettings> {
+  try {
+    const res = await chrome.storage.local.get([DOM_RECORDER_SETTINGS_KEY]);
+    return { ...DEFAULT_DOM_RECORDER_SETTINGS, ...(res?.[DOM_RECORDER_SETTINGS_KEY] || {}) };
+  } catch {
+    return DEFAULT_DOM_RECORDER_SETTINGS;
+  }
+}
+
+export async function setDomRecordingEnabled(origin: string, enabled: boolean) {
+  const current = await getDomRecorderSettings();
+  const others = current.enabledOrigins.filter((o) => o !== origin);
+  const next = { ...current, enabledOrigins: enabled ? [...others, origin] : others };
+  await chrome.storage.local.set({ [DOM_RECORDER_SETTINGS_KEY]: next });
+  return next;
+}
+
+export function isDomRecordingEnabled(settings: DomRecorderSettings, origin: string) {
+  return Boolean(origin) && settings.enabledOrigins.includes(origin);
+}
@@ -0,0 +1,97 @@
+// extension/utils/domSnapshot.ts
+// Format of a DOM recording: a full serialized snapshot of the page followed by incremental
+// events (mutations, scrolls, input values, viewport size, pointer), all addressed by node id.
+// Written by content/domRecorder.ts, stored in the media store (kind "dom") by the background
+// and rebuilt by the sandboxed viewer of the player page (extension/player). Scripts and inline handlers are never
+// serialized; input values and masked text are replaced before they leave the page.
+
+export const DOM_RECORDING_VERSION = 1;
+export const DOM_RECORDING_WINDOW_MS = 60000; // same window as the replay buffer
+export const DOM_CHECKPOINT_MS = 30000; // a fresh snapshot this often, so old events can be dropped
+
+/** id 0 is the document itself (scroll target, parent of the <html> element) */
+export const DOCUMENT_NODE_ID = 0;
+
+export type SerializedNode =
+  | { id: number; type: "doctype"; name: string; publicId: string; systemId: string }
+  | { id: number; type: "text"; text: string }
+  | {
+    id: number;
+    type: "element";
+    tag: string;
+    attrs: Record<string, string>;
+    children: SerializedNode[];
+    svg?: boolean;
+    shadow?: SerializedNode[]; // open shadow root content
+  };
+
+export type ElementNode = Extract<SerializedNode, { type: "element" }>;
+
+export type DomAdd = { parentId: number; nextId: number | null; node: SerializedNode; shadow?: boolean };
+export type DomRemove = { parentId: number; id: number };
+export type DomAttr = { id: number; name: string; value: string | null };
+export type DomText = { id: number; text: string };
+
+export type DomEvent =
+  | {
+    t: number;
+    kind: "snapshot";
+    nodes: SerializedNode[]; // children of the document
+    url: string;
+    title: string;
+    width: number;
+    height: number;
+    scrollX: number;
+    scrollY: number;
+  }
+  | { t: number; kind: "mutation"; removes: DomRemove[]; adds: DomAdd[]; attrs: DomAttr[]; texts: DomText[] }
+  | { t: number; kind: "scroll"; id: number; x: number; y: number }
+  | { t: number; kind: "input"; id: number; value?: string; checked?: boolean }
+  | { t: number; kind: "viewport"; width: number; height: number }
+  | { t: number; kind: "pointer"; x: number; y: number; click?: boolean };
+
+export type DomEventOfKind<K extends DomEvent["kind"]> = Extract<DomEvent, { kind: K }>;
+
+export type DomRecording = {
+  v: number;
+  url: string;
+  title: string;
+  startedAt: number;
+  endedAt: number;
+  events: DomEvent[]; // always starts with a snapshot
+  evidenceFrom?: number; // clipped to a DevTools evidence window that starts after the first snapshot
+};
+
+/**
+ * Drops everything before the newest snapshot that is still older than `since`, so the
+ * buffer always covers the window and always starts with a snapshot.
+ */
+export function trimDomEvents(events: DomEvent[], since: number): DomEvent[] {
+  let start = 0;
+  for (let i = 0; i < events.length; i++) {
+    if (events[i].t > since) break;
+    if (events[i].kind === "snapshot") start = i;
+  }
+  return start > 0 ? events.slice(start) : events;
+}
+
+/**
+ * postMessage protocol between the player page (extension origin, reads the media store) and
+ * the sandboxed viewer it embeds (own CSP, so the recorded page's remote styles, images and
+ * fonts load without opening the extension pages' CSP).
+ */
+export type PlayerMessage =
+  | { source: "bugsense-player"; type: "recording"; recording: DomRecording }
+  | { source: "bugsense-player"; type: "error"; message: string }
+  | { source: "bugsense-viewer"; type: "ready" }
+  | { source: "bugsense-viewer"; type: "download"; html: string; filename: string };
+
+export function isDomRecording(raw: any): raw is DomRecording {
+  return Boolean(raw && Array.isArray(raw.events) && raw.events[0]?.kind === "snapshot");
+}
+
+/** "1:05" */
+export function formatDuration(ms: number) {
+  const s = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,74 @@
+// extension/utils/elementInfo.ts
+// Describes a DOM element for a bug report: a stable CSS selector (the best CSS locator from
+// locators.ts), a trimmed outerHTML snippet, the computed styles that usually matter for layout
+// bugs and its box in document coordinates.
+//
+// The DevTools panel describes $0 through the content script (selectionOverlay.ts registers
+// DESCRIBE_ELEMENT_FN, called with inspectedWindow.eval's useContentScriptContext).
+import { buildLocators } from "./locators";
+
+export type ElementRect = { x: number; y: number; width: number; height: number };
+
+export type ElementInfo = {
+  selector: string;
+  tagName: string;
+  outerHTML: string;
+  styles: Record<string, string>;
+  rect: ElementRect; // CSS px, relative to the document (not the viewport)
+  pageUrl: string;
+};
+
+/** Marks the element the background should capture (see fullPageCapture region mode) */
+export const ELEMENT_TARGET_ATTR = "data-bugsense-target";
+
+/** Global set in the content script's world for the DevTools "Selected element" section */
+export const DESCRIBE_ELEMENT_FN = "__bugSenseDescribeElement";
+
+const MAX_HTML = 2000;
+const STYLE_PROPS = [
+  "display", "position", "top", "left", "right", "bottom", "z-index",
+  "width", "height", "min-width", "max-width", "min-height", "max-height",
+  "margin", "padding", "box-sizing", "border", "border-radius",
+  "overflow", "overflow-x", "overflow-y", "visibility", "opacity", "transform",
+  "flex", "flex-direction", "align-items", "justify-content", "gap",
+  "grid-template-columns", "grid-template-rows",
+  "color", "background-color", "font-family", "font-size", "font-weight", "line-height",
+  "text-align", "white-space", "text-overflow", "pointer-events", "cursor",
+];
+
+/** Unique test id, then a unique id, then the CSS path */
+function cssSelectorOf(el: Element) {
+  const ranked = buildLocators(el).ranked.filter((l) => l.kind === "testid" || l.kind === "id" || l.kind === "css");
+  return (ranked.find((l) => l.unique) || ranked.find((l) => l.kind === "css"))?.value || el.tagName.toLowerCase();
+}
+
+export function describeElement(el: Element): ElementInfo {
+  const computed = getComputedStyle(el);
+  const styles: Record<string, string> = {};
+  STYLE_PROPS.forEach((p) => {
+    const v = computed.getPropertyValue(p);
+    if (v) styles[p] = v;
+  });
+
+  const html = el.outerHTML || "";
+  const r = el.getBoundingClientRect();
+
+  return {
+    selector: cssSelectorOf(el),
+    tagName: el.tagName.toLowerCase(),
+    outerHTML: html.length > MAX_HTML ? html.slice(0, MAX_HTML) + "…" : html,
+    styles,
+    rect: {
+      x: Math.round(r.left + window.scrollX),
+      y: Math.round(r.top + window.scrollY),
+      width: Math.round(r.width),
+      height: Math.round(r.height),
+    },
+    pageUrl: location.href,
+  };
+}
+
+/** One-line summary for prompts and fallbacks */
+export function summarizeElement(info: ElementInfo) {
+  return `<${info.tagName}> ${info.selector} (${info.rect.width}×${info.rect.height} at ${info.rect.x},${info.rect.y})`;
+}
@@ -0,0 +1,181 @@
+// extension/utils/environment.ts
+// Environment metadata attached to every bug: page URL / title, browser and OS, viewport,
+// locale, color scheme, connection, extension version and app-specific values (build meta tags,
+// page globals such as window.__APP_VERSION__, selected cookies).
+// The app-specific sources are configurable through chrome.storage.local "environmentSettings".
+//
+// collectPageEnvironment is serialized into the inspected page (inspectedWindow.eval, or
+// executeScript in the MAIN world), so it must stay self-contained: no imports, no outer helpers.
+
+export type EnvironmentSettings = {
+  metaNames: string[]; // <meta name="..."> read from the page head
+  globals: string[]; // window properties, dotted paths allowed (e.g. "__APP__.version")
+  cookies: string[]; // cookie names (only those visible to document.cookie)
+};
+
+export const ENVIRONMENT_SETTINGS_KEY = "environmentSettings";
+
+export const DEFAULT_ENVIRONMENT_SETTINGS: EnvironmentSettings = {
+  metaNames: ["build-hash", "app-version"],
+  globals: ["__APP_VERSION__"],
+  cookies: [],
+};
+
+/** What the page itself can tell (DevTools device emulation shows up here) */
+export type PageEnvironment = {
+  url: string;
+  title: string;
+  referrer: string;
+  userAgent: string;
+  platform: string;
+  viewport: { width: number; height: number };
+  screen: { width: number; height: number };
+  devicePixelRatio: number;
+  language: string;
+  languages: string[];
+  timezone: string;
+  colorScheme: "dark" | "light";
+  online: boolean;
+  connection: { effectiveType?: string; downlink?: number; rtt?: number; saveData?: boolean } | null;
+  app: Record<string, string>; // "meta:build-hash", "window.__APP_VERSION__", "cookie:ab_group"
+};
+
+export type BugEnvironment = PageEnvironment & {
+  browser: string; // "Chrome 141.0.7390.65"
+  os: string; // "macOS 15.1.0"
+  extensionVersion: string;
+  capturedAt: number;
+};
+
+export async function getEnvironmentSettings(): Promise<EnvironmentSettings> {
+  try {
+    const res = await chrome.storage.local.get([ENVIRONMENT_SETTINGS_KEY]);
+    return { ...DEFAULT_ENVIRONMENT_SETTINGS, ...(res?.[ENVIRONMENT_SETTINGS_KEY] || {}) };
+  } catch {
+    return DEFAULT_ENVIRONMENT_SETTINGS;
+  }
+}
+
+export async function saveEnvironmentSettings(patch: Partial<EnvironmentSettings>) {
+  const next = { ...(await getEnvironmentSettings()), ...patch };
+  await chrome.storage.local.set({ [ENVIRONMENT_SETTINGS_KEY]: next });
+  return next;
+}
+
+export function collectPageEnvironment(settings: EnvironmentSettings): PageEnvironment {
+  const MAX_VALUE = 200;
+  const nav = navigator as any;
+  const app: Record<string, string> = {};
+  const put = (key: string, value: unknown) => {
+    if (value === undefined || value === null || value === "") return;
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    app[key] = (text || "").slice(0, MAX_VALUE);
+  };
+
+  (settings.metaNames || []).forEach((name) => {
+    const meta = document.querySelector(`meta[name="${CSS.escape(name)}"]`);
+    put(`meta:${name}`, meta?.getAttribute("content"));
+  });
+  (settings.globals || []).forEach((path) => {
+    try {
+      const value = path.split(".").reduce((obj: any, key) => (obj == null ? undefined : obj[key]), window as any);
+      if (typeof value !== "function") put(`window.${path}`, value);
+    } catch {
+      // getters may throw
+    }
+  });
+  if ((settings.cookies || []).length) {
+    const jar = new Map<string, string>();
+    document.cookie.split(";").forEach((pair) => {
+      const i = pair.indexOf("=");
+      if (i > 0) jar.set(pair.slice(0, i).trim(), pair.slice(i + 1).trim());
+    });
+    settings.cookies.forEach((name) => put(`cookie:${name}`, jar.get(name)));
+  }
+
+  const conn = nav.connection;
+  return {
+    url: location.href,
+    title: document.title,
+    referrer: document.referrer,
+    userAgent: navigator.userAgent,
+    platform: nav.userAgentData?.platform || navigator.platform,
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    screen: { width: screen.width, height: screen.height },
+    devicePixelRatio: window.devicePixelRatio,
+    language: navigator.language,
+    languages: Array.from(navigator.languages || []),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    colorScheme: matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light",
+    online: navigator.onLine,
+    connection: conn
+      ? { effectiveType: conn.effectiveType, downlink: conn.downlink, rtt: conn.rtt, saveData: conn.saveData }
+      : null,
+    app,
+  };
+}
+
+/** Expression for chrome.devtools.inspectedWindow.eval */
+export function pageEnvironmentExpression(settings: EnvironmentSettings) {
+  return `(${collectPageEnvironment.toString()})(${JSON.stringify(settings)})`;
+}
+
+/**
+ * Adds what only the extension knows: full browser / OS versions (high-entropy client hints of
+ * the extension context — same browser as the page) and the extension version.
+ */
+export async function completeEnvironment(page: PageEnvironment): Promise<BugEnvironment> {
+  let browser = "";
+  let os = page.platform;
+  try {
+    const hints = await (navigator as any).userAgentData?.getHighEntropyValues(["platformVersion", "fullVersionList"]);
+    const brand = (hints?.fullVersionList || []).find((b: any) => /Chrome|Chromium|Edge|Opera|Brave/.test(b.brand));
+    if (brand) browser = `${brand.brand.replace(/^Google /, "")} ${brand.version}`;
+    if (hints?.platform) os = [hints.platform, hints.platformVersion].filter(Boolean).join(" ");
+  } catch {
+    // client hints unavailable — fall back to the user agent below
+  }
+  if (!browser) {
+    const m = page.userAgent.match(/(Chrome|Edg|Firefox)\/([\d.]+)/);
+    browser = m ? `${m[1] === "Edg" ? "Edge" : m[1]} ${m[2]}` : "unknown";
+  }
+  return { ...page, browser, os, extensionVersion: chrome.runtime.getManifest().version, capturedAt: Date.now() };
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Presentation
+// ─────────────────────────────────────────────────────────────
+function describeConnection(env: BugEnvironment) {
+  if (!env.online) return "offline";
+  const c = env.connection;
+  if (!c) return "online";
+  const parts = [c.effectiveType, c.downlink != null ? `${c.downlink} Mbps` : "", c.rtt != null ? `${c.rtt}ms RTT` : "", c.saveData ? "save-data" : ""];
+  return parts.filter(Boolean).join(", ");
+}
+
+// Sheet columns, in order
+const FIELDS: [string, (env: BugEnvironment) => string][] = [
+  ["Page URL", (env) => env.url],
+  ["Page title", (env) => env.title],
+  ["Browser", (env) => env.browser],
+  ["OS", (env) => env.os],
+  ["Viewport", (env) => `${env.viewport.width}×${env.viewport.height} @${env.devicePixelRatio}x (screen ${env.screen.width}×${env.screen.height})`],
+  ["Language", (env) => (env.languages.length > 1 ? `${env.language} (${env.languages.join(", ")})` : env.language)],
+  ["Timezone", (env) => env.timezone],
+  ["Color scheme", (env) => env.colorScheme],
+  ["Connection", describeConnection],
+  ["Referrer", (env) => env.referrer],
+  ["Extension version", (env) => env.extensionVersion],
+  ["User agent", (env) => env.userAgent],
+  ["App info", (env) => Object.entries(env.app).map(([k, v]) => `${k}=${v}`).join("; ")],
+];
+
+/** Label / value pairs for the editor and the AI context */
+export function environmentFields(env: BugEnvironment): [string, string][] {
+  return FIELDS.map(([label, value]) => [label, value(env) || ""]);
+}
+
+/** Sheet cells, one per field (empty when nothing was captured) */
+export function environmentColumns(env?: BugEnvironment | null): string[] {
+  return env ? environmentFields(env).map(([, value]) => value) : FIELDS.map(() => "");
+}
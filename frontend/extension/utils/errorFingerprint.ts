@@ -0,0 +1,147 @@
+// extension/utils/errorFingerprint.ts
+// Stable identity for a console error, so "the same error" can be recognized across page
+// loads, builds and users: the error type, the message with volatile parts (numbers, ids, URLs,
+// quoted values) normalized away, plus the top in-app stack frames without line/column or
+// bundle hashes. foldRepeat() folds a repeat into the stored entry before the capture buffer is
+// persisted (render loops would otherwise flush it); groupErrors() folds what is left per fingerprint.
+
+export type ErrorLike = {
+  message?: string | null;
+  stack?: string | null;
+  filename?: string | null;
+};
+
+// A stored console entry that may stand for several occurrences (ts is the latest one)
+export type FoldedError = ErrorLike & {
+  ts: number;
+  type?: string;
+  level?: string;
+  fingerprint?: string;
+  count?: number; // occurrences folded into the entry, 1 when absent
+  firstSeen?: number;
+};
+
+const MAX_MESSAGE = 300;
+const FINGERPRINT_FRAMES = 3;
+const MAX_GROUP_OCCURRENCES = 50;
+// "TypeError: …", "Uncaught (in promise) DOMException: …"
+const ERROR_TYPE = /^(?:Uncaught (?:\(in promise\) )?)?([A-Z][A-Za-z]*(?:Error|Exception))\b/;
+// Chrome: "    at fn (https://x/app.js:10:5)" / "    at https://x/app.js:10:5"
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):\d+:\d+\)?\s*$/;
+// Firefox / Safari: "fn@https://x/app.js:10:5"
+const GECKO_FRAME = /^(.*?)@(.+?):\d+:\d+$/;
+
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .split("\n")[0]
+    .replace(/^Uncaught (\(in promise\) )?/, "")
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, "<url>")
+    .replace(/(["'`]).*?\1/g, "<str>")
+    .replace(/\b0x[0-9a-f]+\b/gi, "<hex>")
+    .replace(/\b[0-9a-f]{8,}(-[0-9a-f]{4,})*\b/gi, "<id>")
+    .replace(/\d+/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_MESSAGE);
+}
+
+/** "app.js" from "https://cdn.example.com/static/app.3f9a2c1b.js?v=2" */
+function scriptName(url: string) {
+  const file = url.split(/[?#]/)[0].split("/").pop() || url;
+  return file.replace(/[.-][0-9a-f]{6,}(?=\.)/i, "");
+}
+
+/** "TypeError" from the message or the stack's first line; "" for plain console.error text */
+export function errorType(error: ErrorLike): string {
+  const first = (error.message || error.stack || "").trim().split("\n")[0];
+  return ERROR_TYPE.exec(first)?.[1] || "";
+}
+
+/** Frames of the page's own code as "fn@file", ignoring extension frames */
+export function topFrames(stack?: string | null, limit = FINGERPRINT_FRAMES): string[] {
+  const frames: string[] = [];
+  for (const line of (stack || "").split("\n")) {
+    const m = V8_FRAME.exec(line) || GECKO_FRAME.exec(line.trim());
+    if (!m) continue;
+    const [, fn, url] = m;
+    if (/^chrome-extension:|^<anonymous>$/.test(url)) continue;
+    frames.push(`${(fn || "<anonymous>").replace(/^async /, "")}@${scriptName(url)}`);
+    if (frames.length >= limit) break;
+  }
+  return frames;
+}
+
+export function topFrame(stack?: string | null): string {
+  return topFrames(stack, 1)[0] || "";
+}
+
+/** FNV-1a, 32 bit, as 8 hex chars */
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+export function fingerprintError(error: ErrorLike): string {
+  const frames = topFrames(error.stack);
+  const where = frames.length ? frames.join(">") : error.filename ? scriptName(error.filename) : "";
+  return hash(`${errorType(error)}|${normalizeErrorMessage(error.message || "")}|${where}`);
+}
+
+/**
+ * Folds item into the entry of the list with the same fingerprint, type and level: the result
+ * keeps the latest message / stack and ts, adds up the counts and keeps the earliest firstSeen.
+ * rest is the list without that entry; the caller decides where folded goes.
+ */
+export function foldRepeat<T extends FoldedError>(list: T[], item: T): { folded: T; rest: T[] } {
+  const fingerprint = item.fingerprint || fingerprintError(item);
+  const index = list.findIndex(
+    (e) => e.type === item.type && e.level === item.level && (e.fingerprint || fingerprintError(e)) === fingerprint
+  );
+  if (index < 0) return { folded: { ...item, fingerprint }, rest: list };
+  const prev = list[index];
+  return {
+    folded: {
+      ...item,
+      fingerprint,
+      count: (prev.count || 1) + (item.count || 1),
+      firstSeen: Math.min(prev.firstSeen ?? prev.ts, item.firstSeen ?? item.ts),
+    },
+    rest: [...list.slice(0, index), ...list.slice(index + 1)],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Grouping
+// ─────────────────────────────────────────────────────────────
+export type ErrorGroup<T> = {
+  fingerprint: string;
+  type: string;
+  sample: T; // latest occurrence
+  occurrences: T[]; // newest first, capped at MAX_GROUP_OCCURRENCES
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  urls: string[]; // pages the error happened on, most recent first
+};
+
+/** Folds occurrences by fingerprint; groups come back with the most recently seen first */
+export function groupErrors<T extends FoldedError & { url?: string | null }>(items: T[]): ErrorGroup<T>[] {
+  const groups = new Map<string, ErrorGroup<T>>();
+  for (const item of [...items].sort((a, b) => b.ts - a.ts)) {
+    const fingerprint = item.fingerprint || fingerprintError(item);
+    let group = groups.get(fingerprint);
+    if (!group) {
+      group = { fingerprint, type: errorType(item), sample: item, occurrences: [], count: 0, firstSeen: item.ts, lastSeen: item.ts, urls: [] };
+      groups.set(fingerprint, group);
+    }
+    group.count += item.count || 1;
+    group.firstSeen = Math.min(group.firstSeen, item.firstSeen ?? item.ts);
+    if (group.occurrences.length < MAX_GROUP_OCCURRENCES) group.occurrences.push(item);
+    if (item.url && !group.urls.includes(item.url)) group.urls.push(item.url);
+  }
+  return Array.from(groups.values());
+}
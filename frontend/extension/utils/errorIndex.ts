@@ -0,0 +1,237 @@
+// extension/utils/errorIndex.ts
+// Long-lived index of console error fingerprints (utils/errorFingerprint.ts), kept across tabs,
+// sessions and days under "errorFingerprintIndex": first / last seen, counts per day, the pages
+// it happened on and the bugs (library ids, sheet rows) filed for it. The background records
+// every captured message and owns every write (ERROR_INDEX_WRITE — DevTools sends its bug links
+// there); the DevTools panel classifies incoming errors as new, known or a regression of a bug
+// marked fixed.
+import { BugEntry, isBackground } from "./bugLibrary";
+import { ErrorGroup, FoldedError, errorType, fingerprintError } from "./errorFingerprint";
+
+export type ErrorBugLink = {
+  bugId: string;
+  linkedAt: number;
+  spreadsheetId?: string | null;
+  sheetRow?: number | null; // 1-based row of the appended bug_report line
+};
+
+export type ErrorIndexEntry = {
+  fingerprint: string;
+  type: string;
+  message: string; // latest occurrence, clipped
+  firstSeen: number;
+  lastSeen: number;
+  total: number;
+  days: Record<string, number>; // "2026-10-19" → occurrences, last DAYS_KEPT days
+  urls: string[]; // most recent first
+  bugs: ErrorBugLink[];
+};
+
+export type ErrorIndex = Record<string, ErrorIndexEntry>;
+
+export type ErrorRecurrence =
+  | { status: "new"; entry?: ErrorIndexEntry }
+  | { status: "known" | "regression"; entry: ErrorIndexEntry; link: ErrorBugLink; bug: BugEntry | null };
+
+export type ErrorOccurrence = FoldedError & { url?: string | null };
+
+export const ERROR_INDEX_KEY = "errorFingerprintIndex";
+export const ERROR_INDEX_WRITE = "ERROR_INDEX_WRITE";
+
+const MAX_ENTRIES = 500;
+const MAX_URLS = 10;
+const DAYS_KEPT = 30;
+const MAX_MESSAGE = 300;
+
+/** Only errors are indexed: console.warn and failed resource loads (network) are left out */
+export function isIndexedError(e: { type?: string; level?: string }) {
+  return e.level !== "warn" && e.type !== "network";
+}
+
+/** Local calendar day, "YYYY-MM-DD" */
+export function dayKey(ts: number) {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+export async function getErrorIndex(): Promise<ErrorIndex> {
+  try {
+    const res = await chrome.storage.local.get([ERROR_INDEX_KEY]);
+    return res?.[ERROR_INDEX_KEY] && typeof res[ERROR_INDEX_KEY] === "object" ? res[ERROR_INDEX_KEY] : {};
+  } catch {
+    return {};
+  }
+}
+
+// Serialize read-modify-write of the index — only the background writes it
+let indexChain: Promise<unknown> = Promise.resolve();
+
+function updateIndex(fn: (index: ErrorIndex) => ErrorIndex): Promise<void> {
+  const next = indexChain.then(async () => {
+    await chrome.storage.local.set({ [ERROR_INDEX_KEY]: fn(await getErrorIndex()) });
+  });
+  indexChain = next.catch(() => undefined);
+  return next;
+}
+
+/** Keeps the most recently seen fingerprints, preferring the ones bugs were filed for */
+function capIndex(index: ErrorIndex): ErrorIndex {
+  const entries = Object.values(index);
+  if (entries.length <= MAX_ENTRIES) return index;
+  const keep = entries
+    .sort((a, b) => Number(b.bugs.length > 0) - Number(a.bugs.length > 0) || b.lastSeen - a.lastSeen)
+    .slice(0, MAX_ENTRIES);
+  return Object.fromEntries(keep.map((e) => [e.fingerprint, e]));
+}
+
+function pruneDays(days: Record<string, number>, now: number) {
+  const oldest = dayKey(now - DAYS_KEPT * 24 * 60 * 60 * 1000);
+  return Object.fromEntries(Object.entries(days).filter(([day]) => day >= oldest));
+}
+
+/** Adds occurrences to the index (the background batches them) */
+export function recordErrorOccurrences(occurrences: ErrorOccurrence[]): Promise<void> {
+  if (occurrences.length === 0) return Promise.resolve();
+  return updateIndex((index) => {
+    const next = { ...index };
+    for (const o of occurrences) {
+      const fingerprint = fingerprintError(o);
+      const prev = next[fingerprint];
+      const day = dayKey(o.ts);
+      const entry: ErrorIndexEntry = prev
+        ? { ...prev, days: { ...prev.days }, urls: [...prev.urls] }
+        : { fingerprint, type: errorType(o), message: "", firstSeen: o.ts, lastSeen: o.ts, total: 0, days: {}, urls: [], bugs: [] };
+      entry.message = String(o.message || "").slice(0, MAX_MESSAGE);
+      entry.firstSeen = Math.min(entry.firstSeen, o.ts);
+      entry.lastSeen = Math.max(entry.lastSeen, o.ts);
+      entry.total++;
+      entry.days[day] = (entry.days[day] || 0) + 1;
+      if (o.url) entry.urls = [o.url, ...entry.urls.filter((u) => u !== o.url)].slice(0, MAX_URLS);
+      entry.days = pruneDays(entry.days, o.ts);
+      next[fingerprint] = entry;
+    }
+    return capIndex(next);
+  });
+}
+
+const indexWrites = {
+  /** seed is used when the background has not recorded the fingerprint yet */
+  link: (seed: ErrorIndexEntry, bugId: string): Promise<void> =>
+    updateIndex((index) => {
+      const entry = index[seed.fingerprint] || seed;
+      if (entry.bugs.some((l) => l.bugId === bugId)) return index;
+      return capIndex({ ...index, [seed.fingerprint]: { ...entry, bugs: [...entry.bugs, { bugId, linkedAt: Date.now() }] } });
+    }),
+
+  sheetRow: (bugId: string, spreadsheetId: string, sheetRow: number | null): Promise<void> =>
+    updateIndex((index) =>
+      Object.fromEntries(
+        Object.entries(index).map(([fp, entry]) => [
+          fp,
+          entry.bugs.some((l) => l.bugId === bugId)
+            ? { ...entry, bugs: entry.bugs.map((l) => (l.bugId === bugId ? { ...l, spreadsheetId, sheetRow } : l)) }
+            : entry,
+        ])
+      )
+    ),
+};
+
+type IndexWrites = typeof indexWrites;
+export type ErrorIndexWriteOp = keyof IndexWrites;
+
+/** Runs the write here in the background, everywhere else asks the background to */
+async function writeIndex<K extends ErrorIndexWriteOp>(op: K, ...args: Parameters<IndexWrites[K]>): Promise<void> {
+  if (isBackground()) return (indexWrites[op] as (...a: any[]) => Promise<void>)(...args);
+  const resp = await chrome.runtime.sendMessage({ action: ERROR_INDEX_WRITE, op, args });
+  if (!resp?.success) throw new Error(resp?.error || "Error index update failed");
+}
+
+/** Background side of ERROR_INDEX_WRITE */
+export function applyIndexWrite(op: ErrorIndexWriteOp, args: any[]): Promise<void> {
+  const write = indexWrites[op] as ((...a: any[]) => Promise<void>) | undefined;
+  if (typeof write !== "function") return Promise.reject(new Error(`Unknown error index write: ${op}`));
+  return write(...args);
+}
+
+/** Remembers that a bug was filed for the group's fingerprint (seeding the entry if the background has not yet) */
+export function linkBugToError(group: ErrorGroup<ErrorOccurrence>, bugId: string): Promise<void> {
+  const seed: ErrorIndexEntry = {
+    fingerprint: group.fingerprint,
+    type: group.type,
+    message: String(group.sample.message || "").slice(0, MAX_MESSAGE),
+    firstSeen: group.firstSeen,
+    lastSeen: group.lastSeen,
+    total: group.count,
+    days: group.occurrences.reduce<Record<string, number>>(
+      (days, o) => ({ ...days, [dayKey(o.ts)]: (days[dayKey(o.ts)] || 0) + (o.count || 1) }),
+      {}
+    ),
+    urls: group.urls.slice(0, MAX_URLS),
+    bugs: [],
+  };
+  return writeIndex("link", seed, bugId);
+}
+
+/** Stores the sheet row a linked bug was appended as */
+export function setLinkedSheetRow(bugId: string, spreadsheetId: string, sheetRow: number | null): Promise<void> {
+  return writeIndex("sheetRow", bugId, spreadsheetId, sheetRow);
+}
+
+/** Row number from a Sheets append response ("bug_report!A42:S42" → 42) */
+export function appendedRow(result: any): number | null {
+  const m = /![A-Z]+(\d+)/.exec(String(result?.updates?.updatedRange || ""));
+  return m ? Number(m[1]) : null;
+}
+
+/**
+ * known: a linked bug is still open. regression: every linked bug was marked fixed and the
+ * error was seen (seenAt) after the fix. new: nothing filed for it yet (or the bugs were deleted).
+ */
+export function classifyError(entry: ErrorIndexEntry | undefined, bugs: BugEntry[], seenAt = entry?.lastSeen || 0): ErrorRecurrence {
+  if (!entry?.bugs.length) return { status: "new", entry };
+  const byId = new Map(bugs.map((b) => [b.id, b]));
+  const linked = entry.bugs.map((link) => ({ link, bug: byId.get(link.bugId) || null }));
+
+  const open = linked.filter((l) => l.bug && l.bug.status !== "fixed");
+  if (open.length) {
+    const { link, bug } = open[open.length - 1];
+    return { status: "known", entry, link, bug };
+  }
+  const fixed = linked.filter((l) => l.bug?.status === "fixed");
+  if (fixed.length) {
+    const latest = fixed.reduce((a, b) => ((a.bug!.fixedAt || 0) >= (b.bug!.fixedAt || 0) ? a : b));
+    return {
+      status: seenAt > (latest.bug!.fixedAt || 0) ? "regression" : "known",
+      entry,
+      link: latest.link,
+      bug: latest.bug,
+    };
+  }
+  // only deleted bugs left: the sheet row may still exist
+  const withRow = linked.filter((l) => l.link.sheetRow);
+  if (withRow.length) return { status: "known", entry, ...withRow[withRow.length - 1] };
+  return { status: "new", entry };
+}
+
+export function describeRecurrence(r: ErrorRecurrence) {
+  if (r.status === "new") return "New";
+  const where = r.link.sheetRow ? `row ${r.link.sheetRow}` : r.bug ? `"${r.bug.title.slice(0, 40)}"` : "a deleted bug";
+  return r.status === "regression" ? `Regression (was marked fixed, ${where})` : `Known (filed as ${where})`;
+}
+
+/** Tooltip: totals and the last week per day */
+export function describeHistory(entry: ErrorIndexEntry | undefined, now = Date.now()) {
+  if (!entry) return "Not seen before";
+  const week = Array.from({ length: 7 }, (_, i) => {
+    const day = dayKey(now - (6 - i) * 24 * 60 * 60 * 1000);
+    return `${day.slice(5)}: ${entry.days[day] || 0}`;
+  });
+  return [
+    `Seen ${entry.total} time(s) since ${new Date(entry.firstSeen).toLocaleString()}`,
+    `Last seen ${new Date(entry.lastSeen).toLocaleString()}`,
+    `Last 7 days — ${week.join(", ")}`,
+    entry.urls.length ? `Pages: ${entry.urls.slice(0, 3).join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
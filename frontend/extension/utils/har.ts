@@ -0,0 +1,148 @@
+// extension/utils/har.ts
+// Helpers for turning DevTools HAR entries (chrome.devtools.network) into a small,
+// shareable HAR attachment: failed/slow detection, trimming and secret redaction. Bodies go
+// through the same key / pattern redaction as the page's captured requests (utils/network.ts).
+import { MaskingPolicy } from "./maskingPolicy";
+import { redactBody } from "./network";
+
+type HarHeader = { name: string; value: string };
+
+export type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion?: string;
+    headers: HarHeader[];
+    queryString?: HarHeader[];
+    postData?: { mimeType?: string; text?: string };
+    [k: string]: any;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion?: string;
+    headers: HarHeader[];
+    content?: { size?: number; mimeType?: string; text?: string; encoding?: string };
+    redirectURL?: string;
+    [k: string]: any;
+  };
+  timings?: Record<string, number>;
+  serverIPAddress?: string;
+  _resourceType?: string;
+  [k: string]: any;
+};
+
+export type HarLog = {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+};
+
+export const SLOW_REQUEST_MS = 1000;
+const MAX_BODY_CHARS = 10_000;
+const REDACTED = "[REDACTED by Bug Sense]";
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "x-auth-token",
+  "x-csrf-token",
+  "x-xsrf-token",
+]);
+const SENSITIVE_PARAM = /token|secret|password|passwd|api[-_]?key|session|auth|signature|sig$/i;
+
+export function isFailedEntry(e: HarEntry) {
+  const status = e.response?.status ?? 0;
+  return status === 0 || status >= 400;
+}
+
+export function isSlowEntry(e: HarEntry, thresholdMs = SLOW_REQUEST_MS) {
+  return (e.time ?? 0) >= thresholdMs;
+}
+
+export function harEntryKey(e: HarEntry) {
+  return `${e.startedDateTime}|${e.request?.method}|${e.request?.url}`;
+}
+
+function redactHeaders(headers: HarHeader[] = []): HarHeader[] {
+  return headers.map((h) => (SENSITIVE_HEADERS.has(h.name.toLowerCase()) ? { name: h.name, value: REDACTED } : h));
+}
+
+function redactUrl(url: string) {
+  try {
+    const u = new URL(url);
+    u.searchParams.forEach((_v, k) => {
+      if (SENSITIVE_PARAM.test(k)) u.searchParams.set(k, "REDACTED");
+    });
+    return u.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** Copy of an entry without cookies/secrets and with bodies redacted and cut down to a readable size */
+export function trimHarEntry(e: HarEntry, responseText: string | null | undefined, policy: MaskingPolicy): HarEntry {
+  const postText = redactBody(e.request.postData?.text, policy, MAX_BODY_CHARS) ?? undefined;
+  return {
+    startedDateTime: e.startedDateTime,
+    time: Math.round(e.time ?? 0),
+    request: {
+      method: e.request.method,
+      url: redactUrl(e.request.url),
+      httpVersion: e.request.httpVersion,
+      headers: redactHeaders(e.request.headers),
+      queryString: (e.request.queryString || []).map((q) => (SENSITIVE_PARAM.test(q.name) ? { name: q.name, value: "REDACTED" } : q)),
+      cookies: [],
+      headersSize: -1,
+      bodySize: -1,
+      ...(e.request.postData ? { postData: { mimeType: e.request.postData.mimeType, text: postText } } : {}),
+    },
+    response: {
+      status: e.response.status,
+      statusText: e.response.statusText,
+      httpVersion: e.response.httpVersion,
+      headers: redactHeaders(e.response.headers),
+      cookies: [],
+      content: {
+        size: e.response.content?.size ?? -1,
+        mimeType: e.response.content?.mimeType ?? "",
+        ...(responseText ? { text: redactBody(responseText, policy, MAX_BODY_CHARS) ?? undefined } : {}),
+      },
+      redirectURL: e.response.redirectURL ?? "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: e.timings ?? { send: 0, wait: e.time ?? 0, receive: 0 },
+    ...(e.serverIPAddress ? { serverIPAddress: e.serverIPAddress } : {}),
+    ...(e._resourceType ? { _resourceType: e._resourceType } : {}),
+  };
+}
+
+export function buildHar(entries: HarEntry[]): HarLog {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "Bug Sense", version: chrome.runtime?.getManifest?.().version || "1.0.0" },
+      entries,
+    },
+  };
+}
+
+export function downloadHar(har: HarLog, filename = `bug-sense-${Date.now()}.har`) {
+  const blob = new Blob([JSON.stringify(har, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
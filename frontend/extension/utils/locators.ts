@@ -0,0 +1,271 @@
+// extension/utils/locators.ts
+// Ranked element locators for recorded actions, best first: data-testid, ARIA role + accessible
+// name, id, a short unique CSS path and an XPath fallback. CSS / XPath are relative to the
+// element's own tree; `shadowHosts` says how to reach that tree from the document, so a locator
+// still resolves inside web components. The recorder only runs in the top frame, so elements
+// inside iframes are not located.
+
+export type LocatorKind = "testid" | "role" | "id" | "css" | "xpath";
+
+export type Locator = {
+  kind: LocatorKind;
+  value: string; // a CSS selector, except role ('button "Save changes"') and xpath
+  unique?: boolean; // checked against the element's tree (not for xpath, which is positional)
+};
+
+export type ElementLocators = {
+  tag: string;
+  role?: string;
+  name?: string; // accessible name, never a field's value
+  ranked: Locator[];
+  shadowHosts?: string[]; // CSS path of each shadow host, outermost first
+};
+
+const TESTID_ATTRS = ["data-testid", "data-test-id", "data-test", "data-cy", "data-qa"];
+const MAX_NAME = 80;
+const MAX_CSS_DEPTH = 8;
+// ids / classes from CSS-in-JS and framework generators change between builds
+const GENERATED = /\d{3,}|[:]|^[a-f0-9]{6,}$|^(ember|react|radix|mui|headlessui|css-|sc-|jsx-)/i;
+/** What a click on a nested <span>/<svg> was really aimed at */
+const ACTIONABLE =
+  "button, a[href], input, select, textarea, summary, label, option, [role], [data-testid], [data-test-id], [data-test], [data-cy], [data-qa], [contenteditable=''], [contenteditable=true], [onclick], [tabindex]";
+// roles whose accessible name comes from their text content
+const NAME_FROM_CONTENT = new Set([
+  "button", "link", "heading", "tab", "menuitem", "menuitemcheckbox", "menuitemradio",
+  "option", "treeitem", "cell", "columnheader", "rowheader", "switch", "checkbox", "radio", "tooltip",
+]);
+
+type Root = Document | ShadowRoot;
+
+function esc(v: string) {
+  return typeof CSS !== "undefined" && CSS.escape ? CSS.escape(v) : v.replace(/[^a-zA-Z0-9_-]/g, "\\$&");
+}
+
+function quoteAttr(v: string) {
+  return `"${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function rootOf(el: Element): Root {
+  const root = el.getRootNode();
+  return root instanceof ShadowRoot ? root : el.ownerDocument;
+}
+
+function count(root: Root, selector: string) {
+  try {
+    return root.querySelectorAll(selector).length;
+  } catch {
+    return 0;
+  }
+}
+
+function clean(text: string | null | undefined) {
+  const t = (text || "").replace(/\s+/g, " ").trim();
+  return t.length > MAX_NAME ? t.slice(0, MAX_NAME) + "…" : t;
+}
+
+/** The element a click on `el` was aimed at (a button rather than the icon inside it) */
+export function actionableTarget(el: Element | null): Element | null {
+  if (!el) return null;
+  return el.closest(ACTIONABLE) || el;
+}
+
+export function implicitRole(el: Element): string | undefined {
+  const explicit = el.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+  const tag = el.tagName.toLowerCase();
+  switch (tag) {
+    case "button":
+    case "summary":
+      return "button";
+    case "a":
+    case "area":
+      return el.hasAttribute("href") ? "link" : undefined;
+    case "select":
+      return (el as HTMLSelectElement).multiple || (el as HTMLSelectElement).size > 1 ? "listbox" : "combobox";
+    case "textarea":
+      return "textbox";
+    case "option":
+      return "option";
+    case "img":
+      return el.getAttribute("alt") === "" ? "presentation" : "img";
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+      return "heading";
+    case "nav":
+      return "navigation";
+    case "main":
+      return "main";
+    case "dialog":
+      return "dialog";
+    case "form":
+      return "form";
+    case "li":
+      return "listitem";
+    case "ul":
+    case "ol":
+      return "list";
+    case "table":
+      return "table";
+    case "tr":
+      return "row";
+    case "td":
+      return "cell";
+    case "th":
+      return "columnheader";
+    case "input": {
+      const type = (el as HTMLInputElement).type;
+      if (["button", "submit", "reset", "image"].includes(type)) return "button";
+      if (type === "checkbox") return "checkbox";
+      if (type === "radio") return "radio";
+      if (type === "range") return "slider";
+      if (type === "number") return "spinbutton";
+      if (type === "search") return el.hasAttribute("list") ? "combobox" : "searchbox";
+      if (["text", "email", "tel", "url", "password"].includes(type)) {
+        return el.hasAttribute("list") ? "combobox" : "textbox";
+      }
+      return undefined;
+    }
+  }
+  if ((el as HTMLElement).isContentEditable) return "textbox";
+  return undefined;
+}
+
+/** Accessible name, simplified: aria-labelledby, aria-label, <label>, alt/title, then text for buttons and links */
+export function accessibleName(el: Element, role = implicitRole(el)): string {
+  const doc = el.ownerDocument;
+  const labelledBy = el.getAttribute("aria-labelledby");
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => (rootOf(el).getElementById(id) || doc.getElementById(id))?.textContent || "")
+      .join(" ");
+    if (clean(text)) return clean(text);
+  }
+  const label = el.getAttribute("aria-label");
+  if (clean(label)) return clean(label);
+
+  if (el instanceof HTMLInputElement || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) {
+    const fromLabel = Array.from(el.labels || []).map((l) => l.textContent).join(" ");
+    if (clean(fromLabel)) return clean(fromLabel);
+    if (el instanceof HTMLInputElement && ["button", "submit", "reset"].includes(el.type)) {
+      return clean(el.value || (el.type === "submit" ? "Submit" : el.type === "reset" ? "Reset" : ""));
+    }
+    if (el instanceof HTMLInputElement && el.type === "image") return clean(el.alt);
+    return clean(el.getAttribute("title") || el.getAttribute("placeholder"));
+  }
+  if (el instanceof HTMLImageElement) return clean(el.alt || el.title);
+
+  if (role && NAME_FROM_CONTENT.has(role)) {
+    const text = clean((el as HTMLElement).innerText ?? el.textContent);
+    if (text) return text;
+    // icon-only buttons: <button><svg><title>Close</title></svg></button>, <img alt>
+    const inner = el.querySelector("img[alt], svg title, [aria-label]");
+    const innerName = inner?.getAttribute("alt") || inner?.getAttribute("aria-label") || inner?.textContent;
+    if (clean(innerName)) return clean(innerName);
+  }
+  return clean(el.getAttribute("title"));
+}
+
+/** Shortest bottom-up tag/class/nth-of-type path that is unique in the element's tree */
+export function uniqueCssPath(el: Element): string {
+  const root = rootOf(el);
+  const parts: string[] = [];
+  let node: Element | null = el;
+  for (let depth = 0; node && depth < MAX_CSS_DEPTH; depth++) {
+    if (node.id && !GENERATED.test(node.id) && count(root, `#${esc(node.id)}`) === 1) {
+      parts.unshift(`#${esc(node.id)}`);
+      return parts.join(" > ");
+    }
+    let part = node.tagName.toLowerCase();
+    const classes = Array.from(node.classList).filter((c) => !GENERATED.test(c)).slice(0, 2);
+    if (classes.length) part += classes.map((c) => `.${esc(c)}`).join("");
+    const parent: Element | null = node.parentElement;
+    if (parent) {
+      const same = Array.from(parent.children).filter((c) => c.tagName === node!.tagName);
+      if (same.length > 1) part += `:nth-of-type(${same.indexOf(node) + 1})`;
+    }
+    parts.unshift(part);
+    if (count(root, parts.join(" > ")) === 1) break;
+    node = parent;
+  }
+  return parts.join(" > ");
+}
+
+/** Positional XPath from the root of the element's tree, e.g. /html/body/div[2]/button[1] */
+export function xPath(el: Element): string {
+  const steps: string[] = [];
+  let node: Element | null = el;
+  while (node) {
+    const parent: Element | null = node.parentElement;
+    const tag = node.localName;
+    const siblings = parent ? Array.from(parent.children).filter((c) => c.localName === tag) : [node];
+    steps.unshift(siblings.length > 1 ? `${tag}[${siblings.indexOf(node) + 1}]` : tag);
+    node = parent;
+  }
+  return (rootOf(el) instanceof ShadowRoot ? "./" : "/") + steps.join("/");
+}
+
+function shadowHostChain(el: Element): string[] {
+  const hosts: string[] = [];
+  let root = el.getRootNode();
+  while (root instanceof ShadowRoot) {
+    hosts.unshift(uniqueCssPath(root.host));
+    root = root.host.getRootNode();
+  }
+  return hosts;
+}
+
+/** Elements of the tree with this role and accessible name, counting up to 2 */
+function countByRole(root: Root, role: string, name: string) {
+  let n = 0;
+  for (const el of Array.from(root.querySelectorAll("*"))) {
+    if (implicitRole(el) !== role || accessibleName(el, role) !== name) continue;
+    if (++n > 1) break;
+  }
+  return n;
+}
+
+/** `filterName` lets the caller scrub or drop the accessible name (privacy policy) */
+export function buildLocators(el: Element, filterName?: (name: string) => string | null): ElementLocators {
+  const root = rootOf(el);
+  const role = implicitRole(el);
+  const rawName = role && role !== "presentation" ? accessibleName(el, role) : "";
+  const name = (rawName && filterName ? filterName(rawName) : rawName) || "";
+  const ranked: Locator[] = [];
+
+  for (const attr of TESTID_ATTRS) {
+    const v = el.getAttribute(attr);
+    if (!v) continue;
+    const sel = `[${attr}=${quoteAttr(v)}]`;
+    ranked.push({ kind: "testid", value: sel, unique: count(root, sel) === 1 });
+    break;
+  }
+  if (role && name) {
+    ranked.push({ kind: "role", value: `${role} ${JSON.stringify(name)}`, unique: countByRole(root, role, rawName) === 1 });
+  }
+  if (el.id && !GENERATED.test(el.id)) {
+    const sel = `#${esc(el.id)}`;
+    ranked.push({ kind: "id", value: sel, unique: count(root, sel) === 1 });
+  }
+  const css = uniqueCssPath(el);
+  ranked.push({ kind: "css", value: css, unique: count(root, css) === 1 });
+  ranked.push({ kind: "xpath", value: xPath(el) });
+
+  const locators: ElementLocators = { tag: el.tagName.toLowerCase(), ranked };
+  if (role) locators.role = role;
+  if (name) locators.name = name;
+  const hosts = shadowHostChain(el);
+  if (hosts.length) locators.shadowHosts = hosts;
+  return locators;
+}
+
+/** "button "Save changes"", falling back to the best selector */
+export function describeLocators(locators: ElementLocators): string {
+  if (locators.role && locators.name) return `${locators.role} ${JSON.stringify(locators.name)}`;
+  const best = locators.ranked[0];
+  return best ? `${locators.tag} ${best.value}` : locators.tag;
+}
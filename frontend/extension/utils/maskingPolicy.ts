@@ -0,0 +1,128 @@
+// extension/utils/maskingPolicy.ts
+// Privacy layer for the replay buffer. Keystrokes are never stored raw: typing is coalesced into
+// "typed N characters into <field>" actions, sensitive fields are suppressed or reduced to a
+// placeholder, and recorded text is scrubbed of e-mails / card numbers before it is persisted
+// or handed to GET_REPLAY_LOGS (and from there to /ai/analyze and bug reports).
+// Configurable through chrome.storage.local "maskingPolicy".
+
+export type MaskingPolicy = {
+  /** "suppress" drops typing in sensitive fields entirely; "placeholder" keeps "typed N characters into [masked field]" */
+  sensitiveFields: "suppress" | "placeholder";
+  /** Keep the (scrubbed) value of non-sensitive fields in typing actions */
+  recordTypedText: boolean;
+  /** Scrub e-mail addresses, card numbers and long digit runs from any recorded text */
+  scrubPatterns: boolean;
+  /** Extra CSS selectors treated as sensitive (matched with closest()) */
+  extraSelectors: string[];
+};
+
+export const MASKING_POLICY_KEY = "maskingPolicy";
+
+export const DEFAULT_MASKING_POLICY: MaskingPolicy = {
+  sensitiveFields: "placeholder",
+  recordTypedText: false,
+  scrubPatterns: true,
+  extraSelectors: [],
+};
+
+const MAX_TEXT = 100;
+// short words only count on their own ("pin", "user_pin", "pinCode" once camelCase is split; not
+// "spin", "shipping" or "className")
+const SENSITIVE_NAME =
+  /pass(word|wd|code|phrase)|one-?time|secret|token|security.?code|(?<![a-z])(pass|otp|pin|cvv|cvc|csc|ssn|iban|card.?(num(ber)?|no))(?![a-z])/i;
+const SENSITIVE_AUTOCOMPLETE = /^(cc-|current-password|new-password|one-time-code)/i;
+const SCRUBBERS: [RegExp, string][] = [
+  // stops at quotes / brackets so JSON bodies (networkListener) keep their structure
+  [/[^\s@"'<>(){}[\],;:]+@[^\s@"'<>(){}[\],;:]+\.[A-Za-z]{2,}/g, "[email]"],
+  [/\b(?:\d[ -]?){13,19}\b/g, "[card]"],
+  [/\b\d{6,}\b/g, "[number]"],
+];
+
+export async function getMaskingPolicy(): Promise<MaskingPolicy> {
+  try {
+    const res = await chrome.storage.local.get([MASKING_POLICY_KEY]);
+    return { ...DEFAULT_MASKING_POLICY, ...(res?.[MASKING_POLICY_KEY] || {}) };
+  } catch {
+    return DEFAULT_MASKING_POLICY;
+  }
+}
+
+export async function saveMaskingPolicy(patch: Partial<MaskingPolicy>) {
+  const next = { ...(await getMaskingPolicy()), ...patch };
+  await chrome.storage.local.set({ [MASKING_POLICY_KEY]: next });
+  return next;
+}
+
+export function scrubText(text: string | null | undefined, policy: MaskingPolicy): string | null {
+  if (text == null) return null;
+  return scrubPatterns(String(text).slice(0, MAX_TEXT), policy);
+}
+
+/** scrubText without the length cap (DOM recordings keep whole field values) */
+export function scrubPatterns(text: string, policy: MaskingPolicy): string {
+  let out = text;
+  if (policy.scrubPatterns) SCRUBBERS.forEach(([re, repl]) => (out = out.replace(re, repl)));
+  return out;
+}
+
+export function isSensitiveElement(el: Element | null, policy: MaskingPolicy): boolean {
+  if (!el) return false;
+  if (el.closest("[data-bugsense-mask]")) return true;
+  for (const sel of policy.extraSelectors) {
+    try {
+      if (el.closest(sel)) return true;
+    } catch {
+      // invalid user selector
+    }
+  }
+  if (el instanceof HTMLInputElement) {
+    if (el.type === "password") return true;
+    if (SENSITIVE_AUTOCOMPLETE.test(el.autocomplete || "")) return true;
+  }
+  const hints = [el.getAttribute("name"), el.id, el.getAttribute("aria-label"), el.getAttribute("placeholder")]
+    .filter(Boolean)
+    .join(" ")
+    .replace(/([a-z\d])([A-Z])|([A-Z])([A-Z][a-z])/g, "$1$3 $2$4");
+  return (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) && SENSITIVE_NAME.test(hints);
+}
+
+/** Human label for a field, e.g. input "Email" — never includes the field's value */
+export function describeField(el: Element | null): string {
+  if (!el) return "page";
+  const tag = el.tagName.toLowerCase();
+  const labelled =
+    el.getAttribute("aria-label") ||
+    (el.id && el.ownerDocument.querySelector(`label[for="${CSS.escape(el.id)}"]`)?.textContent) ||
+    el.closest("label")?.textContent ||
+    el.getAttribute("placeholder") ||
+    el.getAttribute("name") ||
+    el.id;
+  const name = (labelled || "").replace(/\s+/g, " ").trim().slice(0, 40);
+  if ((el as HTMLElement).isContentEditable && tag !== "input" && tag !== "textarea") {
+    return name ? `editable "${name}"` : "editable area";
+  }
+  return name ? `${tag} "${name}"` : tag;
+}
+
+/**
+ * Final pass over stored actions: drops raw printable keystrokes (older buffers recorded
+ * e.key), re-applies the sensitive-field rule to typing and control changes and scrubs free text.
+ */
+export function applyMaskingPolicy<T extends { type: string; details: any }>(actions: T[], policy: MaskingPolicy): T[] {
+  const out: T[] = [];
+  for (const a of actions) {
+    const d = a.details || {};
+    if (a.type === "keypress" && typeof d.key === "string" && d.key.length === 1) continue;
+    if ((a.type === "input" || a.type === "change") && d.masked) {
+      if (policy.sensitiveFields === "suppress") continue;
+      out.push({ ...a, details: { ...d, value: undefined, choice: undefined } });
+      continue;
+    }
+    const details = { ...d };
+    if ("text" in details) details.text = scrubText(details.text, policy);
+    if ("choice" in details) details.choice = scrubText(details.choice, policy);
+    if ("value" in details) details.value = policy.recordTypedText ? scrubText(details.value, policy) : undefined;
+    out.push({ ...a, details });
+  }
+  return out;
+}
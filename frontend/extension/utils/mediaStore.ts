@@ -0,0 +1,208 @@
+// extension/utils/mediaStore.ts
+// IndexedDB-backed store for binary capture media (replay frames, recordings, GIFs, annotated
+// images, DOM recordings, bug library screenshots, uploaded source maps). chrome.storage.local only keeps lightweight MediaRef objects pointing in here.
+//
+// NOTE: IndexedDB is per-origin — only extension pages (background, popup, DevTools, recorder…)
+// share this database. Content scripts run in the page's origin and must go through the
+// background for anything stored here.
+
+export type MediaKind = "screenshot" | "recording" | "gif" | "annotated" | "dom" | "bug" | "sourcemap";
+
+export type MediaRecord = {
+  id: string;
+  kind: MediaKind;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  tabId: number; // -1 when not tied to a tab
+  origin: string;
+  createdAt: number;
+  meta?: Record<string, any>;
+};
+
+/** What gets persisted in chrome.storage.local instead of data:/blob: URLs */
+export type MediaRef = {
+  mediaId: string;
+  kind: MediaKind;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+};
+
+/** Instant Replay frame as stored in recentScreenshots::<tab>::<origin> */
+export type ReplayFrameRef = { mediaId: string; timestamp: number; viewportWidth?: number }; // CSS px, maps click positions onto the frame
+
+const DB_NAME = "bugsense-media";
+const DB_VERSION = 1;
+const STORE = "media";
+
+// Per-kind caps (screenshots are per tab, everything else global). Bug media (screenshots and
+// the recordings copied in on save) belongs to library entries (utils/bugLibrary.ts), which cap
+// themselves and delete their media.
+const MAX_PER_KIND: Record<MediaKind, number> = {
+  screenshot: 30,
+  recording: 10,
+  gif: 20,
+  annotated: 50,
+  dom: 20,
+  bug: Number.POSITIVE_INFINITY,
+  sourcemap: 50, // uploaded by the user (utils/symbolication.ts)
+};
+const QUOTA_HIGH_WATER = 0.8; // start evicting above 80% of the origin quota
+const QUOTA_LOW_WATER = 0.7;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("byKind", "kind");
+        store.createIndex("byTab", "tabId");
+        store.createIndex("byTabKind", ["tabId", "kind"]);
+        store.createIndex("byCreatedAt", "createdAt");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = fn(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+function newId(kind: MediaKind) {
+  return `${kind}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function toRef(record: MediaRecord): MediaRef {
+  return { mediaId: record.id, kind: record.kind, mimeType: record.mimeType, size: record.size, createdAt: record.createdAt };
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Public API
+// ─────────────────────────────────────────────────────────────
+export async function putMedia(input: {
+  kind: MediaKind;
+  blob: Blob;
+  tabId?: number | null;
+  origin?: string;
+  meta?: Record<string, any>;
+}): Promise<MediaRef> {
+  const record: MediaRecord = {
+    id: newId(input.kind),
+    kind: input.kind,
+    blob: input.blob,
+    mimeType: input.blob.type || "application/octet-stream",
+    size: input.blob.size,
+    tabId: typeof input.tabId === "number" ? input.tabId : -1,
+    origin: input.origin || "",
+    createdAt: Date.now(),
+    meta: input.meta,
+  };
+  await run("readwrite", (store) => store.put(record));
+  // eviction must never fail the write that triggered it
+  await enforceLimits(record.kind, record.tabId).catch((err) => console.warn("[BugSense] media eviction failed:", err));
+  return toRef(record);
+}
+
+export function getMedia(id: string): Promise<MediaRecord | undefined> {
+  return run<MediaRecord | undefined>("readonly", (store) => store.get(id));
+}
+
+export async function getMediaBlob(id: string): Promise<Blob | null> {
+  const rec = await getMedia(id).catch(() => undefined);
+  return rec?.blob ?? null;
+}
+
+/** Caller owns the returned blob: URL and should revoke it */
+export async function getMediaObjectUrl(id: string): Promise<string | null> {
+  const blob = await getMediaBlob(id);
+  return blob ? URL.createObjectURL(blob) : null;
+}
+
+export async function deleteMedia(ids: string | string[]) {
+  const list = Array.isArray(ids) ? ids : [ids];
+  if (list.length === 0) return;
+  await run("readwrite", (store) => {
+    list.forEach((id) => store.delete(id));
+  });
+}
+
+export async function listMedia(filter: { kind?: MediaKind; tabId?: number } = {}): Promise<MediaRecord[]> {
+  const all = await run<MediaRecord[]>("readonly", (store) => {
+    if (filter.kind && typeof filter.tabId === "number") return store.index("byTabKind").getAll([filter.tabId, filter.kind]);
+    if (filter.kind) return store.index("byKind").getAll(filter.kind);
+    if (typeof filter.tabId === "number") return store.index("byTab").getAll(filter.tabId);
+    return store.getAll();
+  });
+  return (all || []).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function deleteTabMedia(tabId: number, kind?: MediaKind) {
+  const records = await listMedia({ tabId, kind });
+  await deleteMedia(records.map((r) => r.id));
+}
+
+async function enforceLimits(kind: MediaKind, tabId: number) {
+  // 1) count cap for this kind (per tab for screenshots)
+  const scoped = await listMedia(kind === "screenshot" ? { kind, tabId } : { kind });
+  const overflow = scoped.length - MAX_PER_KIND[kind];
+  if (overflow > 0) await deleteMedia(scoped.slice(0, overflow).map((r) => r.id));
+
+  // 2) origin quota: drop the oldest media (screenshots first, they are the cheapest to lose;
+  //    bug library media is never evicted)
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  if (!estimate?.quota || !estimate.usage) return;
+  if (estimate.usage / estimate.quota < QUOTA_HIGH_WATER) return;
+
+  const target = estimate.quota * QUOTA_LOW_WATER;
+  let usage = estimate.usage;
+  const all = await listMedia();
+  const order: MediaKind[] = ["screenshot", "dom", "gif", "annotated", "recording"];
+  const victims = order.flatMap((k) => all.filter((r) => r.kind === k));
+  const drop: string[] = [];
+  for (const r of victims) {
+    if (usage <= target) break;
+    drop.push(r.id);
+    usage -= r.size;
+  }
+  if (drop.length) {
+    console.warn(`[BugSense] Storage quota high — evicting ${drop.length} media item(s)`);
+    await deleteMedia(drop);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Conversions
+// ─────────────────────────────────────────────────────────────
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  return await (await fetch(dataUrl)).blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,96 @@
+// extension/utils/network.ts
+// Shared shape of requests captured by content/pageNetworkHook.ts, redaction of their bodies and
+// helpers to pick which of them are worth attaching to a bug report.
+import { MaskingPolicy, scrubPatterns } from "./maskingPolicy";
+
+export type NetworkEntry = {
+  id: string;
+  kind: "fetch" | "xhr";
+  method: string;
+  url: string;
+  status: number; // 0 = network error / aborted, or an opaque response
+  statusText: string;
+  startedAt: number;
+  duration: number;
+  requestBody: string | null;
+  responseBody: string | null;
+  error?: string;
+  responseType?: "opaque"; // no-cors fetch: status and body are hidden from the page
+  failed: boolean;
+  pageUrl?: string;
+  ts: number;
+};
+
+export const MAX_NETWORK_BODY = 2000;
+const REDACTED = "[REDACTED]";
+const SENSITIVE_KEY = /pass(word|wd|code)?|secret|token|api[-_]?key|^auth|authorization|session|cookie|card|cvv|cvc|csc|ssn|iban|^pin$|otp|signature/i;
+
+function redactValue(value: any, depth = 0): any {
+  if (depth > 20 || value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((v) => redactValue(v, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, SENSITIVE_KEY.test(k) ? REDACTED : redactValue(v, depth + 1)])
+  );
+}
+
+/**
+ * Request / response body with sensitive keys blanked: JSON is parsed and rewritten, form
+ * bodies ("a=1&b=2") are redacted per parameter and anything else (or JSON cut off by the
+ * hook's read cap) gets a regex pass over "key": value pairs. Pattern scrubbing (e-mails, card
+ * numbers) follows the masking policy, then the result is clipped to `max` characters.
+ */
+export function redactBody(text: string | null | undefined, policy: MaskingPolicy, max = MAX_NETWORK_BODY): string | null {
+  if (text == null) return null;
+  let out = String(text);
+  const trimmed = out.trim();
+  let parsed = false;
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      out = JSON.stringify(redactValue(JSON.parse(trimmed)));
+      parsed = true;
+    } catch {
+      // truncated or not JSON after all
+    }
+  }
+  if (!parsed && /^[^\s=&{}[\]"]+=[^\s]*(&|$)/.test(trimmed)) {
+    out = trimmed
+      .split("&")
+      .map((pair) => {
+        const eq = pair.indexOf("=");
+        if (eq < 0) return pair;
+        let key = pair.slice(0, eq);
+        try {
+          key = decodeURIComponent(key.replace(/\+/g, " "));
+        } catch {
+          // keep the raw key
+        }
+        return SENSITIVE_KEY.test(key) ? `${pair.slice(0, eq)}=${encodeURIComponent(REDACTED)}` : pair;
+      })
+      .join("&");
+    parsed = true;
+  }
+  if (!parsed) {
+    out = out.replace(/("([^"\\]{1,64})"\s*:\s*)("(?:[^"\\]|\\.)*"|[^,}\]\s]+)/g, (m, head, key) =>
+      SENSITIVE_KEY.test(key) ? `${head}"${REDACTED}"` : m
+    );
+  }
+  out = scrubPatterns(out, policy);
+  return out.length > max ? out.slice(0, max) + "…" : out;
+}
+
+/** Failed requests plus the last few successful ones (for context around the failure) */
+export function selectNetworkContext(entries: NetworkEntry[], recentOk = 10): NetworkEntry[] {
+  const sorted = entries.slice().sort((a, b) => a.startedAt - b.startedAt);
+  const ok = sorted.filter((e) => !e.failed).slice(-recentOk);
+  const keep = new Set([...sorted.filter((e) => e.failed), ...ok]);
+  return sorted.filter((e) => keep.has(e));
+}
+
+export function describeNetworkEntry(e: NetworkEntry): string {
+  const status = e.error
+    ? `failed (${e.error})`
+    : e.responseType === "opaque"
+      ? "opaque (no-cors)"
+      : `${e.status}${e.statusText ? " " + e.statusText : ""}`;
+  return `${e.method} ${e.url} → ${status} in ${e.duration}ms`;
+}
@@ -0,0 +1,85 @@
+// extension/utils/pageSdk.ts
+// Shared shapes and limits of the public page API (window.BugSense, content/pageSdk.ts).
+// Apps push breadcrumbs, context, a user (hashed id), errors and state providers; the isolated
+// sdkBridge keeps them — only for origins that opted in under "pageSdkSettings" — and the
+// DevTools panel merges them into the timeline, the bug and the /ai/analyze payload.
+
+export type SdkLevel = "debug" | "info" | "warning" | "error";
+
+export type SdkBreadcrumb = {
+  ts: number;
+  message: string;
+  category?: string; // "graphql", "redux", "ui"...
+  level?: SdkLevel;
+  data?: any;
+};
+
+export type SdkUser = {
+  idHash: string | null; // "sha256:<hex>" — the raw id never leaves the page
+  [trait: string]: any; // role, plan... (scrubbed of e-mails / numbers)
+};
+
+/** What the page holds right now; fetched with GET_SDK_SNAPSHOT when a bug is created */
+export type SdkSnapshot = {
+  context: Record<string, any>;
+  user: SdkUser | null;
+  state: Record<string, any>; // attachState providers, by name
+};
+
+/** Attached to the bug and sent to /ai/analyze */
+export type AppData = SdkSnapshot & { breadcrumbs: SdkBreadcrumb[] };
+
+export type PageSdkSettings = {
+  enabledOrigins: string[]; // opt-in per origin; everything else is dropped by the bridge
+};
+
+export const PAGE_SDK_SETTINGS_KEY = "pageSdkSettings";
+
+export const DEFAULT_PAGE_SDK_SETTINGS: PageSdkSettings = { enabledOrigins: [] };
+
+// Size limits (bytes of JSON) applied by the bridge — the page SDK trims depth / keys as well
+export const SDK_LIMITS = {
+  breadcrumbs: 100, // kept per tab (scoped buffer "recentBreadcrumbs")
+  breadcrumbBytes: 2 * 1024,
+  contextBytes: 16 * 1024,
+  userBytes: 2 * 1024,
+  stateBytes: 64 * 1024, // per provider
+  totalStateBytes: 256 * 1024,
+};
+
+export async function getPageSdkSettings(): Promise<PageSdkSettings> {
+  try {
+    const res = await chrome.storage.local.get([PAGE_SDK_SETTINGS_KEY]);
+    return { ...DEFAULT_PAGE_SDK_SETTINGS, ...(res?.[PAGE_SDK_SETTINGS_KEY] || {}) };
+  } catch {
+    return DEFAULT_PAGE_SDK_SETTINGS;
+  }
+}
+
+export async function setPageSdkEnabled(origin: string, enabled: boolean) {
+  const current = await getPageSdkSettings();
+  const others = current.enabledOrigins.filter((o) => o !== origin);
+  const next = { ...current, enabledOrigins: enabled ? [...others, origin] : others };
+  await chrome.storage.local.set({ [PAGE_SDK_SETTINGS_KEY]: next });
+  return next;
+}
+
+export function isPageSdkEnabled(settings: PageSdkSettings, origin: string) {
+  return Boolean(origin) && settings.enabledOrigins.includes(origin);
+}
+
+/** The value itself when its JSON fits, otherwise a marker with a preview */
+export function clampJson(value: any, maxBytes: number): any {
+  let json: string;
+  try {
+    json = JSON.stringify(value) ?? "null";
+  } catch {
+    return "[Unserializable]";
+  }
+  if (json.length <= maxBytes) return value;
+  return { truncated: true, bytes: json.length, preview: json.slice(0, Math.min(500, maxBytes)) };
+}
+
+export function describeBreadcrumb(b: SdkBreadcrumb) {
+  return `${b.category ? `[${b.category}] ` : ""}${b.message}`;
+}
@@ -0,0 +1,157 @@
+// extension/utils/playwrightEmitter.ts
+// Playwright output for the test exporter (utils/testExport.ts). Locators are picked from the
+// recorded ranking (getByTestId, getByRole, then CSS / XPath); typed text that was never
+// recorded is replaced by "x" placeholders so the script still runs.
+import { ActionEvent } from "./replayBuffer";
+import { ElementLocators } from "./locators";
+import { describeAction } from "./replaySteps";
+import type { TestEmitter, TestScriptContext } from "./testExport";
+
+const str = (v: string) => JSON.stringify(v);
+const TESTID = /^\[data-testid="((?:[^"\\]|\\.)*)"\]$/;
+const MASKED_URL = /\[(email|card|number)\]/;
+
+function locatorExpr(loc: ElementLocators | undefined): string | null {
+  if (!loc || !loc.ranked.length) return null;
+  const scope = "page";
+
+  // XPath doesn't pierce shadow roots; CSS and role locators do
+  const usable = loc.ranked.filter((l) => l.unique !== false && !(l.kind === "xpath" && loc.shadowHosts?.length));
+  const pick = usable[0] || loc.ranked[loc.ranked.length - 1];
+  switch (pick.kind) {
+    case "testid": {
+      const m = TESTID.exec(pick.value);
+      return m ? `${scope}.getByTestId(${str(m[1].replace(/\\(.)/g, "$1"))})` : `${scope}.locator(${str(pick.value)})`;
+    }
+    case "role": {
+      if (!loc.role || !loc.name) break;
+      // names are clipped with "…" when recorded; Playwright matches substrings by default
+      return `${scope}.getByRole(${str(loc.role)}, { name: ${str(loc.name.replace(/…$/, ""))} })`;
+    }
+    case "xpath":
+      return `${scope}.locator(${str(`xpath=${pick.value}`)})`;
+  }
+  return `${scope}.locator(${str(pick.value)})`;
+}
+
+function absoluteUrl(path: string, ctx: TestScriptContext) {
+  try {
+    return new URL(path, ctx.origin || ctx.startUrl).href;
+  } catch {
+    return path;
+  }
+}
+
+function actionLines(a: ActionEvent, ctx: TestScriptContext): string[] {
+  const el = locatorExpr(a.locators);
+  switch (a.type) {
+    case "click": {
+      if (el) return [`await ${el}.click();`];
+      if (a.details.text) return [`await page.getByText(${str(a.details.text)}, { exact: true }).click();`];
+      return [`await page.mouse.click(${a.details.x}, ${a.details.y});`];
+    }
+    case "keypress":
+      return [el ? `await ${el}.press(${str(a.details.key)});` : `await page.keyboard.press(${str(a.details.key)});`];
+    case "input": {
+      const d = a.details;
+      let text: string;
+      let note = "";
+      if (d.value != null && !d.masked) {
+        text = d.value;
+      } else if (d.chars) {
+        text = "x".repeat(d.chars);
+        note = d.masked ? " // masked field — replace with test data" : " // typed text was not recorded";
+      } else {
+        text = "";
+        note = ` // ${d.deleted || 0} character(s) deleted — remaining text was not recorded`;
+      }
+      return [el ? `await ${el}.fill(${str(text)});${note}` : `await page.keyboard.type(${str(text)});${note}`];
+    }
+    case "change": {
+      const d = a.details;
+      if (!el) return [`// TODO: no locator recorded for ${d.field}`];
+      if (d.masked) return [`// TODO: ${d.field} is masked — set it with test data`];
+      if (d.control === "checkbox") return [`await ${el}.${d.checked ? "check" : "uncheck"}();`];
+      if (d.control === "radio") return [`await ${el}.check();`];
+      if (d.control === "file") return [`await ${el}.setInputFiles([]); // TODO: ${d.files || 0} file(s) were attached`];
+      if (d.control === "select") {
+        return d.choice ? [`await ${el}.selectOption({ label: ${str(d.choice)} });`] : [`// TODO: choose an option in ${d.field}`];
+      }
+      return d.choice ? [`await ${el}.fill(${str(d.choice)});`] : [`// TODO: set ${d.field}`];
+    }
+    case "scroll": {
+      const { x, y } = a.details;
+      return el
+        ? [`await ${el}.evaluate((node) => node.scrollTo(${x}, ${y}));`]
+        : [`await page.evaluate(() => window.scrollTo(${x}, ${y}));`];
+    }
+    case "submit":
+      return ["// (submitted by the previous step)"];
+    case "resize":
+      return [`await page.setViewportSize({ width: ${a.details.width}, height: ${a.details.height} });`];
+    case "drag": {
+      const target = locatorExpr(a.details.dropLocators);
+      if (a.details.dropped && el && target) return [`await ${el}.dragTo(${target});`];
+      return ["// TODO: drag and drop could not be replayed from the recording"];
+    }
+    case "touch":
+      return [`// TODO: ${a.details.gesture} gestures have no direct Playwright equivalent`];
+    case "navigation": {
+      const d = a.details;
+      const lines = d.kind === "popstate" ? ["await page.goBack(); // or goForward() — popstate doesn't say which"] : [];
+      if (MASKED_URL.test(d.to)) lines.push(`// URL changed to ${d.to} (partly masked)`);
+      else lines.push(`await expect(page).toHaveURL(${str(absoluteUrl(d.to, ctx))});`);
+      return lines;
+    }
+    case "focus":
+    case "blur":
+      return []; // implied by the next click / fill
+  }
+}
+
+export const playwrightEmitter: TestEmitter = {
+  framework: "playwright",
+  label: "Playwright",
+  fileExtension: ".spec.ts",
+
+  navigate(url) {
+    return [`await page.goto(${str(url)});`];
+  },
+
+  action(a, ctx) {
+    const lines = actionLines(a, ctx);
+    if (!lines.length) return [];
+    return ["", `// ${describeAction(a)}`, ...lines];
+  },
+
+  expectConsoleError(message) {
+    const firstLine = message.split("\n")[0].trim().slice(0, 200);
+    return ["", "// The bug: this console error should appear again", `await expect.poll(() => consoleErrors.join("\\n")).toContain(${str(firstLine)});`];
+  },
+
+  file(body, ctx) {
+    const title = ctx.title.replace(/\s+/g, " ").trim();
+    const collector = ctx.consoleError
+      ? [
+        "const consoleErrors: string[] = [];",
+        'page.on("console", (msg) => {',
+        '  if (msg.type() === "error") consoleErrors.push(msg.text());',
+        "});",
+        'page.on("pageerror", (err) => consoleErrors.push(err.message));',
+        "",
+      ]
+      : [];
+    const indent = (line: string) => (line ? `  ${line}` : "");
+    return [
+      `// ${title}`,
+      `// Generated by Bug Sense from the replay buffer (${ctx.recordedAt}).`,
+      "// Typed text is only included when the masking policy allows it; TODOs mark steps to finish by hand.",
+      'import { test, expect } from "@playwright/test";',
+      "",
+      `test(${str(title)}, async ({ page }) => {`,
+      ...[...collector, ...body].map(indent),
+      "});",
+      "",
+    ].join("\n");
+  },
+};
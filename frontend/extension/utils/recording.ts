@@ -0,0 +1,40 @@
+// extension/utils/recording.ts
+// Shared shape of the tab-recording state. The background owns it and mirrors it into
+// chrome.storage.local ("recordingState") so that a suspended service worker or a reopened
+// popup can pick up where things are. The MediaRecorder itself lives in the offscreen document.
+
+export type RecordingStatus = "idle" | "starting" | "recording" | "paused" | "stopping";
+
+export type RecordingState = {
+  status: RecordingStatus;
+  tabId: number | null;
+  startedAt: number | null;
+  pausedAt: number | null; // set while paused
+  pausedMs: number; // total time spent paused so far
+  error?: string;
+};
+
+export const RECORDING_STATE_KEY = "recordingState";
+export const RECORDED_VIDEO_KEY = "recordedVideo"; // MediaRef of the last finished recording, never a blob: URL
+
+export const IDLE_RECORDING_STATE: RecordingState = {
+  status: "idle",
+  tabId: null,
+  startedAt: null,
+  pausedAt: null,
+  pausedMs: 0,
+};
+
+/** Recorded time in ms, excluding pauses */
+export function recordingElapsed(state: RecordingState, now = Date.now()) {
+  if (!state.startedAt) return 0;
+  const end = state.pausedAt ?? now;
+  return Math.max(0, end - state.startedAt - state.pausedMs);
+}
+
+export function formatDuration(ms: number) {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+}
@@ -0,0 +1,55 @@
+// extension/utils/redactionSettings.ts
+// Settings for the screenshot redaction engine (background/redaction.ts), stored under
+// "redactionSettings". Redaction is on by default; it can be switched off per origin.
+
+export type RedactionMode = "blur" | "black";
+
+export type RedactionSettings = {
+  enabled: boolean; // global default for sites without an override
+  siteOverrides: Record<string, boolean>; // origin -> on/off
+  selectors: string[]; // extra user-configured CSS selectors
+  mode: RedactionMode;
+};
+
+export const REDACTION_SETTINGS_KEY = "redactionSettings";
+
+/** Always masked (when redaction is on); user selectors are added to these */
+export const BUILTIN_REDACTION_SELECTORS = [
+  "input[type=password]",
+  "input[type=email]",
+  "[autocomplete^='cc-']",
+  "[autocomplete='email']",
+  "[data-bugsense-mask]",
+];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  siteOverrides: {},
+  selectors: [],
+  mode: "blur",
+};
+
+export async function getRedactionSettings(): Promise<RedactionSettings> {
+  try {
+    const res = await chrome.storage.local.get([REDACTION_SETTINGS_KEY]);
+    return { ...DEFAULT_REDACTION_SETTINGS, ...(res?.[REDACTION_SETTINGS_KEY] || {}) };
+  } catch {
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+}
+
+export async function saveRedactionSettings(patch: Partial<RedactionSettings>) {
+  const current = await getRedactionSettings();
+  const next = { ...current, ...patch };
+  await chrome.storage.local.set({ [REDACTION_SETTINGS_KEY]: next });
+  return next;
+}
+
+export function isRedactionEnabled(settings: RedactionSettings, origin: string) {
+  const override = origin ? settings.siteOverrides[origin] : undefined;
+  return typeof override === "boolean" ? override : settings.enabled;
+}
+
+export function redactionSelectors(settings: RedactionSettings) {
+  return [...BUILTIN_REDACTION_SELECTORS, ...settings.selectors.map((s) => s.trim()).filter(Boolean)];
+}
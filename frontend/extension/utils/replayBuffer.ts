@@ -1,10 +1,147 @@
 // replayBuffer.ts
-type ActionEvent = {
-  type: "click" | "keypress";
+// Replay action model shared by the recorder (content/replayListener.ts), Instant Replay, the
+// step generator (utils/replaySteps.ts) and /ai/analyze. Every stored action carries a schema
+// version `v`. Buffers written before versioning (click / keypress / coalesced input, no `v`)
+// are upgraded on read by normalizeActions().
+//
+// v2: input/change, scroll, submit, focus/blur, resize, drag, touch, navigation
+// v3: `locators` — ranked selectors for the element the action targeted (utils/locators.ts)
+// v4: `page` — path of the page the action happened on (the buffer outlives full page loads)
+import { ElementLocators } from "./locators";
+
+export const REPLAY_SCHEMA_VERSION = 4;
+
+export type ActionType =
+  | "click"
+  | "keypress"
+  | "input"
+  | "change"
+  | "scroll"
+  | "submit"
+  | "focus"
+  | "blur"
+  | "resize"
+  | "drag"
+  | "touch"
+  | "navigation";
+
+export type ClickDetails = {
+  tag: string;
+  text: string | null;
+  x: number;
+  y: number;
+  target?: string; // describeField() label
+  pointer?: "mouse" | "touch" | "pen";
+};
+export type KeyDetails = { key: string; field: string };
+/** Coalesced typing; never the raw keys (see utils/maskingPolicy.ts) */
+export type InputDetails = {
+  field: string;
+  chars: number;
+  deleted?: number;
+  masked: boolean;
+  value?: string | null;
+  summary: string;
+};
+/** Non-text controls: select, checkbox, radio, range, date, file… */
+export type ChangeDetails = {
+  field: string;
+  control: string; // input type or tag, e.g. "checkbox", "select"
+  masked: boolean;
+  choice?: string | null; // selected option / radio label / value, scrubbed
+  checked?: boolean;
+  files?: number; // file inputs: count only, never names
+};
+export type ScrollDetails = { target: string; x: number; y: number };
+export type SubmitDetails = { form: string; method: string; fields: number };
+export type FocusDetails = { field: string; masked: boolean };
+export type ResizeDetails = { width: number; height: number };
+export type DragDetails = {
+  source: string;
+  target: string | null;
+  dropped: boolean;
+  dropLocators?: ElementLocators; // the action's own locators describe the dragged element
+};
+export type TouchDetails = {
+  gesture: "swipe" | "pinch";
+  target: string;
+  x: number;
+  y: number;
+  direction?: "up" | "down" | "left" | "right";
+};
+export type NavigationDetails = {
+  kind: "pushState" | "replaceState" | "popstate" | "hashchange";
+  from: string;
+  to: string;
+};
+
+type Action<T extends ActionType, D> = {
+  v: number;
+  type: T;
   timestamp: number;
-  details: any;
+  details: D;
+  locators?: ElementLocators; // absent for page-level actions (resize, navigation, page scroll)
+  page?: string; // path + query of the page, relative to the buffer's origin (scrubbed)
 };
 
+export type ActionEvent =
+  | Action<"click", ClickDetails>
+  | Action<"keypress", KeyDetails>
+  | Action<"input", InputDetails>
+  | Action<"change", ChangeDetails>
+  | Action<"scroll", ScrollDetails>
+  | Action<"submit", SubmitDetails>
+  | Action<"focus", FocusDetails>
+  | Action<"blur", FocusDetails>
+  | Action<"resize", ResizeDetails>
+  | Action<"drag", DragDetails>
+  | Action<"touch", TouchDetails>
+  | Action<"navigation", NavigationDetails>;
+
+export type ActionOfType<T extends ActionType> = Extract<ActionEvent, { type: T }>;
+
+const KNOWN_TYPES = new Set<string>([
+  "click",
+  "keypress",
+  "input",
+  "change",
+  "scroll",
+  "submit",
+  "focus",
+  "blur",
+  "resize",
+  "drag",
+  "touch",
+  "navigation",
+]);
+
+/** Builds a current-schema action */
+export function makeAction<T extends ActionType>(
+  type: T,
+  details: ActionOfType<T>["details"],
+  locators?: ElementLocators | null
+) {
+  const action = { v: REPLAY_SCHEMA_VERSION, type, timestamp: Date.now(), details } as ActionOfType<T>;
+  if (locators) action.locators = locators;
+  return action;
+}
+
+/**
+ * Upgrades stored actions to the current schema and drops anything unreadable.
+ * Every older version is a subset of the current one (v1, no `v`: click / keypress / input with
+ * today's details; v2: no locators; v3: no page), so upgrading only stamps `v`.
+ */
+export function normalizeActions(raw: unknown): ActionEvent[] {
+  if (!Array.isArray(raw)) return [];
+  const out: ActionEvent[] = [];
+  for (const a of raw) {
+    if (!a || typeof a !== "object" || !KNOWN_TYPES.has(a.type) || typeof a.timestamp !== "number") continue;
+    if (typeof a.v === "number" && a.v > REPLAY_SCHEMA_VERSION) continue; // written by a newer build
+    out.push({ ...a, v: REPLAY_SCHEMA_VERSION, details: a.details || {} } as ActionEvent);
+  }
+  return out;
+}
+
 const MAX_BUFFER_TIME = 30 * 1000; // 30 seconds
 let events: ActionEvent[] = [];
 
@@ -22,4 +159,3 @@ export function getRecentActions(): ActionEvent[] {
 export function clearActions() {
   events = [];
 }
-
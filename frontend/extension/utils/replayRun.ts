@@ -0,0 +1,41 @@
+// extension/utils/replayRun.ts
+// Result of "Replay steps": the recorded actions re-run in the tab by content/stepRunner.ts
+// (driven by background/stepReplay.ts), checked against the bug's console error fingerprint.
+
+export type ReplayRunStatus = "reproduced" | "not_reproduced" | "step_failed" | "interrupted";
+
+export type ObservedError = { message: string; fingerprint: string };
+
+export type ReplayRunResult = {
+  status: ReplayRunStatus;
+  startedAt: number;
+  finishedAt: number;
+  totalSteps: number;
+  stepsRun: number;
+  expectedFingerprint: string | null; // null: any console error counts as a reproduction
+  failedStep?: { index: number; description: string; reason: string }; // index is 1-based
+  matchedError?: ObservedError;
+  observedErrors: ObservedError[];
+  skipped: string[]; // steps a page script can't perform (resize, touch gestures, file pickers)
+  warnings: string[];
+};
+
+/** Set on the isolated world's window while a replay runs, so replayListener ignores the synthetic events */
+export const REPLAY_RUNNING_FLAG = "__bugSenseReplaying";
+
+export function summarizeReplayRun(run: ReplayRunResult): string {
+  switch (run.status) {
+    case "reproduced":
+      return `Reproduced — ${run.matchedError?.message.split("\n")[0].slice(0, 120) || "console error appeared"}`;
+    case "not_reproduced":
+      return run.expectedFingerprint
+        ? "Not reproduced — all steps ran, the error did not appear"
+        : "Not reproduced — all steps ran without a console error";
+    case "step_failed":
+      return run.failedStep
+        ? `Step ${run.failedStep.index} failed: ${run.failedStep.reason} (${run.failedStep.description})`
+        : "A step failed";
+    case "interrupted":
+      return `Interrupted — ${run.warnings[run.warnings.length - 1] || "the page went away"}`;
+  }
+}
@@ -0,0 +1,104 @@
+// extension/utils/replaySteps.ts
+// Step generator: turns replay actions (utils/replayBuffer.ts) into numbered reproduction
+// steps, e.g. "3. Select "France" in select "Country"". The DevTools panel sends them to
+// /ai/analyze as replaySteps and falls back to them when the AI backend is unavailable.
+import { ActionEvent, normalizeActions } from "./replayBuffer";
+import { ElementLocators } from "./locators";
+
+const MAX_LABEL = 60;
+const DEFAULT_MAX_STEPS = 10;
+
+function quote(text: string | null | undefined) {
+  const t = (text || "").replace(/\s+/g, " ").trim();
+  if (!t) return "";
+  return `"${t.length > MAX_LABEL ? t.slice(0, MAX_LABEL) + "…" : t}"`;
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/** 'button "Save changes"' when the recorder found a role and accessible name */
+function subject(locators: ElementLocators | undefined, fallback: string) {
+  return locators?.role && locators.name ? `${locators.role} ${quote(locators.name)}` : fallback;
+}
+
+/** One imperative sentence per action */
+export function describeAction(a: ActionEvent): string {
+  switch (a.type) {
+    case "click": {
+      const d = a.details;
+      const tag = (d.tag || "element").toLowerCase();
+      const label = quote(d.text);
+      const what = subject(a.locators, label ? `${tag} ${label}` : d.target || tag);
+      return `${d.pointer === "touch" ? "Tap" : "Click"} ${what}`;
+    }
+    case "keypress":
+      return `Press ${a.details.key} in ${subject(a.locators, a.details.field)}`;
+    case "input": {
+      const d = { ...a.details, field: subject(a.locators, a.details.field) };
+      const masked = d.masked ? " (masked)" : "";
+      if (d.value) return `Type ${quote(d.value)} into ${d.field}`;
+      if (d.chars) return `Type ${plural(d.chars, "character")} into ${d.field}${masked}`;
+      return `Delete ${plural(d.deleted || 0, "character")} in ${d.field}${masked}`;
+    }
+    case "change": {
+      const d = { ...a.details, field: subject(a.locators, a.details.field) };
+      if (d.masked) return `Change ${d.field} (masked)`;
+      if (d.control === "checkbox") return `${d.checked ? "Check" : "Uncheck"} ${d.field}`;
+      if (d.control === "radio") return `Choose ${d.field}${d.choice ? ` (${quote(d.choice)})` : ""}`;
+      if (d.control === "file") return `Attach ${plural(d.files || 0, "file")} to ${d.field}`;
+      if (d.control === "select") return `Select ${quote(d.choice) || "an option"} in ${d.field}`;
+      return `Set ${d.field} to ${quote(d.choice) || "a new value"}`;
+    }
+    case "scroll": {
+      const d = a.details;
+      const where = d.x ? `${d.x}, ${d.y}px` : `${d.y}px`;
+      return d.target === "page" ? `Scroll the page to ${where}` : `Scroll ${subject(a.locators, d.target)} to ${where}`;
+    }
+    case "submit":
+      return `Submit ${subject(a.locators, a.details.form)}`;
+    case "focus":
+      return `Focus ${subject(a.locators, a.details.field)}`;
+    case "blur":
+      return `Leave ${subject(a.locators, a.details.field)}`;
+    case "resize":
+      return `Resize the window to ${a.details.width}×${a.details.height}`;
+    case "drag": {
+      const d = a.details;
+      const source = subject(a.locators, d.source);
+      const target = subject(d.dropLocators, d.target || "the page");
+      return d.dropped ? `Drag ${source} onto ${target}` : `Start dragging ${source} (not dropped)`;
+    }
+    case "touch": {
+      const d = { ...a.details, target: subject(a.locators, a.details.target) };
+      if (d.gesture === "pinch") return `Pinch on ${d.target}`;
+      return d.direction ? `Swipe ${d.direction} on ${d.target}` : `Swipe on ${d.target}`;
+    }
+    case "navigation": {
+      const d = a.details;
+      return d.kind === "popstate" ? `Go back/forward to ${d.to}` : `Navigate to ${d.to}`;
+    }
+  }
+}
+
+/**
+ * Numbered steps for the last `max` meaningful actions. Focus changes are dropped (the
+ * following action names the field anyway) and repeated scroll / resize collapse into one.
+ */
+export function replayToSteps(raw: unknown, max = DEFAULT_MAX_STEPS): string[] {
+  const kept: ActionEvent[] = [];
+  for (const a of normalizeActions(raw)) {
+    if (a.type === "focus" || a.type === "blur") continue;
+    const prev = kept[kept.length - 1];
+    const repeated =
+      (a.type === "resize" && prev?.type === "resize") ||
+      (a.type === "scroll" && prev?.type === "scroll" && prev.details.target === a.details.target);
+    if (repeated) {
+      kept[kept.length - 1] = a;
+      continue;
+    }
+    kept.push(a);
+  }
+  return kept.slice(-max).map((a, i) => `${i + 1}. ${describeAction(a)}`);
+}
@@ -0,0 +1,103 @@
+// extension/utils/replayTimeline.ts
+// Timing and overlays for the Instant Replay video export (replay-export page). Frames keep
+// their real capture gaps; stretches where nothing happened (no action, no console error)
+// longer than the idle threshold are sped up. Recording time ↔ video time is a piecewise-linear
+// map, so overlays (click ripples, typing captions, error banners) land where they happened.
+import { ActionEvent } from "./replayBuffer";
+import { describeAction } from "./replaySteps";
+
+export type ReplayExportFormat = "webm" | "gif";
+
+export type ReplayExportOptions = {
+  idleThresholdMs: number; // gaps up to this long play in real time
+  idleSpeedup: number; // the rest of a longer idle gap plays this many times faster
+  overlays: boolean;
+  format: ReplayExportFormat;
+};
+
+export const DEFAULT_REPLAY_EXPORT_OPTIONS: ReplayExportOptions = {
+  idleThresholdMs: 1500,
+  idleSpeedup: 8,
+  overlays: true,
+  format: "webm",
+};
+
+/** What the popup hands to the export page through chrome.storage.local "replayExportQueue" */
+export type ReplayExportJob = {
+  frames: { mediaId?: string; screenshot?: string; timestamp: number; viewportWidth?: number }[];
+  actions: ActionEvent[];
+  consoleErrors: { ts: number; message: string; level?: string }[];
+};
+
+export const RIPPLE_MS = 700;
+export const CAPTION_MS = 2500;
+export const BANNER_MS = 3500;
+const TAIL_MS = 1500; // how long the last frame stays up
+
+type Segment = { from: number; to: number; videoFrom: number; videoTo: number };
+
+export type ReplayTimeline = {
+  start: number; // recording timestamp of video time 0
+  duration: number; // video ms
+  segments: Segment[];
+};
+
+/** Video length of a gap between two moments something happened */
+function compressedLength(gap: number, opts: ReplayExportOptions) {
+  if (gap <= opts.idleThresholdMs) return gap;
+  return opts.idleThresholdMs + (gap - opts.idleThresholdMs) / Math.max(1, opts.idleSpeedup);
+}
+
+/** `marks` are the timestamps of actions / errors: a gap containing one is not idle */
+export function buildTimeline(frameTimes: number[], marks: number[], opts: ReplayExportOptions): ReplayTimeline {
+  const times = [...frameTimes].sort((a, b) => a - b);
+  const start = times[0] ?? 0;
+  const end = (times[times.length - 1] ?? 0) + TAIL_MS;
+  const points = Array.from(new Set([...times, ...marks.filter((t) => t > start && t < end), end])).sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  let video = 0;
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = compressedLength(to - from, opts);
+    segments.push({ from, to, videoFrom: video, videoTo: video + length });
+    video += length;
+  }
+  return { start, duration: video, segments };
+}
+
+/** Recording timestamp shown at a video time */
+export function recordingTimeAt(timeline: ReplayTimeline, videoMs: number): number {
+  const seg = timeline.segments.find((s) => videoMs <= s.videoTo) ?? timeline.segments[timeline.segments.length - 1];
+  if (!seg) return timeline.start;
+  const span = seg.videoTo - seg.videoFrom;
+  const ratio = span > 0 ? Math.min(1, Math.max(0, (videoMs - seg.videoFrom) / span)) : 1;
+  return seg.from + ratio * (seg.to - seg.from);
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Overlays
+// ─────────────────────────────────────────────────────────────
+export type Ripple = { x: number; y: number; progress: number }; // progress 0 → 1
+export type ReplayOverlays = { ripples: Ripple[]; caption: string | null; banner: string | null };
+
+const CAPTIONED = new Set(["input", "keypress", "change", "submit", "navigation"]);
+
+export function overlaysAt(t: number, job: Pick<ReplayExportJob, "actions" | "consoleErrors">): ReplayOverlays {
+  const ripples: Ripple[] = [];
+  let caption: string | null = null;
+  for (const a of job.actions) {
+    const age = t - a.timestamp;
+    if (age < 0) continue;
+    if (a.type === "click" && age <= RIPPLE_MS) {
+      ripples.push({ x: a.details.x, y: a.details.y, progress: age / RIPPLE_MS });
+    }
+    if (CAPTIONED.has(a.type) && age <= CAPTION_MS) caption = describeAction(a); // latest wins
+  }
+  const error = job.consoleErrors
+    .filter((e) => e.level !== "warn" && t >= e.ts && t - e.ts <= BANNER_MS)
+    .pop();
+  const banner = error ? `Console error: ${String(error.message).split("\n")[0].slice(0, 140)}` : null;
+  return { ripples, caption, banner };
+}
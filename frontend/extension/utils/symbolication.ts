@@ -0,0 +1,414 @@
+// extension/utils/symbolication.ts
+// Turns minified stack traces ("main.3f9a.js:1:48213") into original file / line / function
+// names. Frames are parsed from V8 and Gecko stack strings, each script's source map is taken
+// from the uploaded .map files (media kind "sourcemap") or fetched — without cookies, from the
+// script's own origin — through its sourceMappingURL comment / SourceMap header (or a
+// "<script>.map" guess), and a few lines of original source are kept around every resolved
+// frame. Runs in the DevTools panel.
+import { deleteMedia, getMediaBlob, listMedia, putMedia } from "./mediaStore";
+
+export type StackFrame = {
+  fn: string | null;
+  url: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  raw: string;
+};
+
+export type OriginalPosition = {
+  source: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  name: string | null;
+};
+
+export type SourceContext = {
+  startLine: number; // line number of lines[0]
+  lines: string[];
+};
+
+export type ResolvedFrame = StackFrame & {
+  original?: OriginalPosition | null;
+  context?: SourceContext | null;
+  mapFrom?: "upload" | "url";
+};
+
+/** Stored on the bug (BugReport.symbolicatedStack) and sent to /ai/analyze as text */
+export type SymbolicatedStack = {
+  frames: ResolvedFrame[];
+  resolved: number; // frames that mapped to original source
+  text: string; // the stack re-printed with original positions
+  symbolicatedAt: number;
+};
+
+export type UploadedSourceMap = {
+  id: string;
+  file: string; // script name the map belongs to ("main.3f9a.js")
+  size: number;
+  createdAt: number;
+};
+
+const MAX_FRAMES = 20;
+const CONTEXT_LINES = 2; // above and below the frame's line
+const MAX_CONTEXT_CHARS = 200;
+const MAX_CACHED_MAPS = 20;
+
+// Chrome: "    at fn (https://x/app.js:10:5)" / "    at https://x/app.js:10:5"
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+// Firefox / Safari: "fn@https://x/app.js:10:5"
+const GECKO_FRAME = /^(.*?)@(.+?):(\d+):(\d+)$/;
+const SOURCE_MAPPING_URL = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/;
+
+// ─────────────────────────────────────────────────────────────
+//  Stack parsing
+// ─────────────────────────────────────────────────────────────
+export function parseStack(stack?: string | null): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of (stack || "").split("\n")) {
+    const m = V8_FRAME.exec(line) || GECKO_FRAME.exec(line.trim());
+    if (!m) continue;
+    const [, fn, url, lineNo, col] = m;
+    frames.push({
+      fn: fn ? fn.replace(/^async /, "") || null : null,
+      url,
+      line: Number(lineNo),
+      column: Number(col),
+      raw: line.trim(),
+    });
+    if (frames.length >= MAX_FRAMES) break;
+  }
+  return frames;
+}
+
+/** "main.3f9a.js" from "https://cdn.example.com/static/main.3f9a.js?v=2" */
+export function scriptFileName(url: string) {
+  return url.split(/[?#]/)[0].split("/").pop() || url;
+}
+
+function isResolvableUrl(url: string) {
+  return /^https?:\/\//.test(url);
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Source map decoding (v3, including index maps with "sections")
+// ─────────────────────────────────────────────────────────────
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?] — all 0-based
+type Segment = number[];
+
+type ParsedMap = {
+  sources: string[];
+  sourcesContent: (string | null)[];
+  names: string[];
+  lines: Segment[][]; // by generated line
+};
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map(Array.from(BASE64, (c, i) => [c, i] as [string, number]));
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let line: Segment[] = [];
+  // source, original line / column and name carry over between segments and lines
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let name = 0;
+  let generatedColumn = 0;
+  let values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  const endSegment = () => {
+    if (values.length === 0) return;
+    generatedColumn += values[0];
+    const seg: Segment = [generatedColumn];
+    if (values.length >= 4) {
+      source += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+      seg.push(source, originalLine, originalColumn);
+      if (values.length >= 5) {
+        name += values[4];
+        seg.push(name);
+      }
+    }
+    line.push(seg);
+    values = [];
+  };
+
+  for (let i = 0; i < mappings.length; i++) {
+    const c = mappings[i];
+    if (c === ";" || c === ",") {
+      endSegment();
+      if (c === ";") {
+        lines.push(line.sort((a, b) => a[0] - b[0]));
+        line = [];
+        generatedColumn = 0;
+      }
+      continue;
+    }
+    const digit = BASE64_VALUES.get(c);
+    if (digit === undefined) throw new Error(`Invalid mapping character "${c}"`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  endSegment();
+  lines.push(line.sort((a, b) => a[0] - b[0]));
+  return lines;
+}
+
+function resolveSource(source: string, sourceRoot: string | undefined, mapUrl: string | null) {
+  const path = sourceRoot ? `${sourceRoot.replace(/\/?$/, "/")}${source}` : source;
+  if (!mapUrl || /^[a-z][a-z0-9+.-]*:/i.test(path)) return path;
+  try {
+    return new URL(path, mapUrl).href;
+  } catch {
+    return path;
+  }
+}
+
+export function parseSourceMap(json: any, mapUrl: string | null = null): ParsedMap {
+  if (!json || json.version !== 3) throw new Error("Not a version 3 source map");
+
+  if (Array.isArray(json.sections)) {
+    const merged: ParsedMap = { sources: [], sourcesContent: [], names: [], lines: [] };
+    for (const section of json.sections) {
+      if (!section?.map) continue; // "url" sections would need another fetch — not supported
+      const sub = parseSourceMap(section.map, mapUrl);
+      const { line: lineOffset = 0, column: columnOffset = 0 } = section.offset || {};
+      const sourceOffset = merged.sources.length;
+      const nameOffset = merged.names.length;
+      sub.lines.forEach((segments, i) => {
+        const target = lineOffset + i;
+        while (merged.lines.length <= target) merged.lines.push([]);
+        const shifted = segments.map((seg) => {
+          const out = [...seg];
+          if (i === 0) out[0] += columnOffset;
+          if (out.length >= 4) out[1] += sourceOffset;
+          if (out.length >= 5) out[4] += nameOffset;
+          return out;
+        });
+        merged.lines[target] = [...merged.lines[target], ...shifted].sort((a, b) => a[0] - b[0]);
+      });
+      merged.sources.push(...sub.sources);
+      merged.sourcesContent.push(...sub.sourcesContent);
+      merged.names.push(...sub.names);
+    }
+    return merged;
+  }
+
+  if (typeof json.mappings !== "string") throw new Error("Source map has no mappings");
+  const sources: string[] = (json.sources || []).map((s: string) => resolveSource(String(s ?? ""), json.sourceRoot, mapUrl));
+  return {
+    sources,
+    sourcesContent: sources.map((_, i) => (typeof json.sourcesContent?.[i] === "string" ? json.sourcesContent[i] : null)),
+    names: Array.isArray(json.names) ? json.names : [],
+    lines: decodeMappings(json.mappings),
+  };
+}
+
+export function originalPositionFor(map: ParsedMap, line: number, column: number): OriginalPosition | null {
+  const segments = map.lines[line - 1];
+  if (!segments?.length) return null;
+  const col = column - 1;
+  // last segment starting at or before the column
+  let lo = 0;
+  let hi = segments.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (segments[mid][0] <= col) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  const seg = segments[found];
+  if (!seg || seg.length < 4) return null;
+  return {
+    source: map.sources[seg[1]] ?? "",
+    line: seg[2] + 1,
+    column: seg[3] + 1,
+    name: seg.length >= 5 ? map.names[seg[4]] ?? null : null,
+  };
+}
+
+function sourceContext(map: ParsedMap, pos: OriginalPosition): SourceContext | null {
+  const content = map.sourcesContent[map.sources.indexOf(pos.source)];
+  if (!content) return null;
+  const all = content.split(/\r?\n/);
+  const start = Math.max(1, pos.line - CONTEXT_LINES);
+  const end = Math.min(all.length, pos.line + CONTEXT_LINES);
+  return {
+    startLine: start,
+    lines: all.slice(start - 1, end).map((l) => (l.length > MAX_CONTEXT_CHARS ? l.slice(0, MAX_CONTEXT_CHARS) + "…" : l)),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Uploaded maps (IndexedDB, media kind "sourcemap")
+// ─────────────────────────────────────────────────────────────
+export async function listSourceMaps(): Promise<UploadedSourceMap[]> {
+  const records = await listMedia({ kind: "sourcemap" });
+  return records.map((r) => ({ id: r.id, file: r.meta?.file || "", size: r.size, createdAt: r.createdAt }));
+}
+
+/** Stores .map files; a map replaces an earlier upload for the same script */
+export async function uploadSourceMaps(files: File[]) {
+  const existing = await listSourceMaps();
+  const added: UploadedSourceMap[] = [];
+  for (const f of files) {
+    const text = await f.text();
+    const json = JSON.parse(text);
+    parseSourceMap(json); // reject anything that would not decode later
+    const file = json.file ? scriptFileName(String(json.file)) : f.name.replace(/\.map$/, "");
+    await deleteMedia(existing.filter((m) => m.file === file).map((m) => m.id));
+    const ref = await putMedia({ kind: "sourcemap", blob: new Blob([text], { type: "application/json" }), meta: { file } });
+    added.push({ id: ref.mediaId, file, size: ref.size, createdAt: ref.createdAt });
+  }
+  mapCache.clear();
+  return added;
+}
+
+export async function deleteSourceMap(id: string) {
+  await deleteMedia(id);
+  mapCache.clear();
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Map lookup
+// ─────────────────────────────────────────────────────────────
+type LoadedMap = { map: ParsedMap; from: "upload" | "url" } | null;
+
+const mapCache = new Map<string, Promise<LoadedMap>>();
+
+async function loadUploadedMap(scriptUrl: string): Promise<ParsedMap | null> {
+  const file = scriptFileName(scriptUrl);
+  const match = (await listSourceMaps()).reverse().find((m) => m.file === file);
+  if (!match) return null;
+  const blob = await getMediaBlob(match.id);
+  return blob ? parseSourceMap(JSON.parse(await blob.text()), null) : null;
+}
+
+/** Content of a script DevTools already loaded for the inspected page — no new request */
+function inspectedResourceContent(url: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    try {
+      chrome.devtools.inspectedWindow.getResources((resources) => {
+        const resource = resources.find((r) => r.url.split("#")[0] === url);
+        if (!resource) return resolve(null);
+        resource.getContent((content, encoding) => {
+          if (typeof content !== "string") return resolve(null);
+          try {
+            resolve(encoding === "base64" ? atob(content) : content);
+          } catch {
+            resolve(null);
+          }
+        });
+      });
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/** Inline data: maps are decoded; others are fetched without cookies, from the script's origin only */
+async function fetchMapJson(mapUrl: string, scriptUrl: string) {
+  if (!mapUrl.startsWith("data:") && new URL(mapUrl).origin !== new URL(scriptUrl).origin) {
+    throw new Error(`${mapUrl} is not on the script's origin`);
+  }
+  const resp = await fetch(mapUrl, { credentials: "omit" });
+  if (!resp.ok) throw new Error(`${resp.status} fetching ${mapUrl}`);
+  // some servers prefix maps with an XSSI guard line
+  return JSON.parse((await resp.text()).replace(/^\)\]\}'[^\n]*\n/, ""));
+}
+
+/** SourceMap / X-SourceMap header and the tail of the script (for its sourceMappingURL comment) */
+async function scriptMapHints(scriptUrl: string): Promise<{ header: string | null; tail: string }> {
+  try {
+    const resp = await fetch(scriptUrl, { credentials: "omit" });
+    if (resp.ok) {
+      const header = resp.headers.get("SourceMap") || resp.headers.get("X-SourceMap");
+      return { header, tail: (await resp.text()).trimEnd().slice(-2000) };
+    }
+  } catch {
+    // not reachable without the page's cookies — DevTools still has the copy the page loaded
+  }
+  return { header: null, tail: ((await inspectedResourceContent(scriptUrl)) || "").trimEnd().slice(-2000) };
+}
+
+async function fetchLinkedMap(scriptUrl: string): Promise<ParsedMap | null> {
+  const { header, tail } = await scriptMapHints(scriptUrl);
+  const ref = header || SOURCE_MAPPING_URL.exec(tail)?.[1];
+  const mapUrl = ref ? new URL(ref, scriptUrl).href : `${scriptUrl.split(/[?#]/)[0]}.map`;
+  try {
+    return parseSourceMap(await fetchMapJson(mapUrl, scriptUrl), mapUrl.startsWith("data:") ? scriptUrl : mapUrl);
+  } catch (err) {
+    // the ".map" guess is allowed to miss quietly
+    if (ref) console.warn("[BugSense] Source map not usable — upload it instead:", mapUrl.slice(0, 200), err);
+    return null;
+  }
+}
+
+function loadMap(scriptUrl: string): Promise<LoadedMap> {
+  const key = scriptUrl.split("#")[0];
+  let pending = mapCache.get(key);
+  if (!pending) {
+    pending = (async (): Promise<LoadedMap> => {
+      const uploaded = await loadUploadedMap(key).catch(() => null);
+      if (uploaded) return { map: uploaded, from: "upload" };
+      const linked = await fetchLinkedMap(key).catch(() => null);
+      return linked ? { map: linked, from: "url" } : null;
+    })();
+    mapCache.set(key, pending);
+    if (mapCache.size > MAX_CACHED_MAPS) mapCache.delete(mapCache.keys().next().value as string);
+  }
+  return pending;
+}
+
+// ─────────────────────────────────────────────────────────────
+//  Public API
+// ─────────────────────────────────────────────────────────────
+/** Short path for display: "src/cart/Cart.tsx" from "webpack://shop/./src/cart/Cart.tsx" */
+export function displaySource(source: string) {
+  return source.replace(/^webpack:\/\/[^/]*\//, "").replace(/^\.\//, "").replace(/^https?:\/\/[^/]+\//, "");
+}
+
+export function formatFrame(frame: ResolvedFrame) {
+  if (!frame.original) return `    at ${frame.fn ? `${frame.fn} (` : ""}${frame.url}:${frame.line}:${frame.column}${frame.fn ? ")" : ""}`;
+  const { source, line, column, name } = frame.original;
+  const fn = name || frame.fn;
+  const where = `${displaySource(source)}:${line}:${column}`;
+  return `    at ${fn ? `${fn} (${where})` : where}`;
+}
+
+export async function symbolicateStack(stack?: string | null): Promise<SymbolicatedStack | null> {
+  const parsed = parseStack(stack);
+  if (parsed.length === 0) return null;
+
+  const frames: ResolvedFrame[] = await Promise.all(
+    parsed.map(async (frame): Promise<ResolvedFrame> => {
+      if (!isResolvableUrl(frame.url)) return frame;
+      const loaded = await loadMap(frame.url);
+      if (!loaded) return frame;
+      const original = originalPositionFor(loaded.map, frame.line, frame.column);
+      if (!original) return frame;
+      return { ...frame, original, context: sourceContext(loaded.map, original), mapFrom: loaded.from };
+    })
+  );
+
+  const message = (stack || "").split("\n").find((l) => l.trim() && !V8_FRAME.test(l) && !GECKO_FRAME.test(l.trim())) || "";
+  return {
+    frames,
+    resolved: frames.filter((f) => f.original).length,
+    text: [message.trim(), ...frames.map(formatFrame)].filter(Boolean).join("\n"),
+    symbolicatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,113 @@
+// extension/utils/tabScope.ts
+// Capture buffers (console errors, replay actions, screenshots, network requests, app breadcrumbs) are stored
+// per tab and origin so that a bug filed from one tab never picks up data from another.
+// Storage key format: "<base>::<tabId>::<origin>", e.g. "recentActions::412::https://app.example.com"
+
+export type TabScope = { tabId: number; origin: string };
+
+export const SCOPED_BUFFER_KEYS = [
+  "recentConsoleErrors",
+  "recentActions",
+  "recentScreenshots",
+  "recentNetworkRequests",
+  "recentBreadcrumbs",
+] as const;
+
+export function originOf(url?: string | null): string {
+  try {
+    return url ? new URL(url).origin : "";
+  } catch {
+    return "";
+  }
+}
+
+export function scopedKey(base: string, scope: TabScope) {
+  return `${base}::${scope.tabId}::${scope.origin}`;
+}
+
+export function readScoped<T = any>(base: string, scope: TabScope | null): Promise<T[]> {
+  return new Promise((resolve) => {
+    if (!scope) return resolve([]);
+    const key = scopedKey(base, scope);
+    try {
+      chrome.storage.local.get([key], (res) => {
+        resolve(Array.isArray(res?.[key]) ? res[key] : []);
+      });
+    } catch {
+      resolve([]);
+    }
+  });
+}
+
+let contentScopePromise: Promise<TabScope | null> | null = null;
+
+/**
+ * Content scripts don't know their own tab id — ask the background (sender.tab.id).
+ * Resolved once per page load and cached.
+ */
+export function resolveContentScope(): Promise<TabScope | null> {
+  if (contentScopePromise) return contentScopePromise;
+  contentScopePromise = new Promise((resolve) => {
+    try {
+      if (!chrome.runtime?.id) return resolve(null);
+      chrome.runtime.sendMessage({ action: "GET_TAB_SCOPE" }, (resp) => {
+        if (chrome.runtime.lastError || !resp?.success || typeof resp.tabId !== "number") {
+          resolve(null);
+          return;
+        }
+        resolve({ tabId: resp.tabId, origin: resp.origin || location.origin });
+      });
+    } catch {
+      resolve(null);
+    }
+  });
+  return contentScopePromise;
+}
+
+/** Scope of the tab inspected by the current DevTools window */
+export function resolveInspectedScope(): Promise<TabScope | null> {
+  return new Promise((resolve) => {
+    try {
+      const tabId = chrome.devtools.inspectedWindow.tabId;
+      chrome.devtools.inspectedWindow.eval("location.origin", (origin: any, exceptionInfo: any) => {
+        resolve({ tabId, origin: !exceptionInfo && typeof origin === "string" ? origin : "" });
+      });
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/** Scope of the active tab in the current window (popup) */
+export async function resolveActiveTabScope(): Promise<TabScope | null> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) return null;
+    return { tabId: tab.id, origin: originOf(tab.url) };
+  } catch {
+    return null;
+  }
+}
+
+/** Drop every buffer that belongs to a closed tab */
+export function removeTabScopes(tabId: number) {
+  chrome.storage.local.get(null, (all) => {
+    const marker = `::${tabId}::`;
+    const stale = Object.keys(all || {}).filter(
+      (k) => k.includes(marker) && SCOPED_BUFFER_KEYS.some((base) => k.startsWith(base + "::"))
+    );
+    if (stale.length) chrome.storage.local.remove(stale);
+  });
+}
+
+/** Empty one buffer for every origin the tab has visited (DevTools "Clear") */
+export function clearTabBuffer(base: (typeof SCOPED_BUFFER_KEYS)[number], tabId: number): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(null, (all) => {
+      const prefix = `${base}::${tabId}::`;
+      const keys = Object.keys(all || {}).filter((k) => k.startsWith(prefix));
+      if (!keys.length) return resolve();
+      chrome.storage.local.set(Object.fromEntries(keys.map((k) => [k, []])), () => resolve());
+    });
+  });
+}
@@ -0,0 +1,113 @@
+// extension/utils/testExport.ts
+// Turns the replay buffer into a runnable reproduction test. The output format is pluggable:
+// an emitter maps each replay action to lines of test code, generateTestScript() handles the
+// parts every framework shares (start URL, ordering, the console error to assert on).
+// Playwright is the only emitter so far (utils/playwrightEmitter.ts); Puppeteer and Cypress
+// emitters register in TEST_EMITTERS the same way.
+import { ActionEvent, ActionOfType, normalizeActions } from "./replayBuffer";
+import { playwrightEmitter } from "./playwrightEmitter";
+
+export type TestFramework = "playwright" | "puppeteer" | "cypress";
+
+export type TestScriptContext = {
+  title: string;
+  startUrl: string; // absolute URL the test opens first
+  origin: string; // base for the relative URLs in navigation actions
+  consoleError?: string | null; // message the test expects to see again
+  recordedAt: string;
+};
+
+export interface TestEmitter {
+  framework: TestFramework;
+  label: string;
+  fileExtension: string; // e.g. ".spec.ts"
+  /** Lines that open the page under test */
+  navigate(url: string, ctx: TestScriptContext): string[];
+  /** Lines for one action; [] when the action has no runnable equivalent */
+  action(action: ActionEvent, ctx: TestScriptContext): string[];
+  /** Lines asserting the captured console error happened */
+  expectConsoleError(message: string, ctx: TestScriptContext): string[];
+  /** Wraps the emitted body lines into the complete file */
+  file(body: string[], ctx: TestScriptContext): string;
+}
+
+export type GeneratedTest = {
+  framework: TestFramework;
+  filename: string;
+  code: string;
+  actionCount: number;
+};
+
+export const TEST_EMITTERS: Partial<Record<TestFramework, TestEmitter>> = {
+  playwright: playwrightEmitter,
+};
+
+/**
+ * The page the recording started on: the page of the first action (the buffer survives full
+ * page loads on the same origin), or where the first SPA route change left from. Actions
+ * recorded before v4 carry no page; then only a route change says it was not pageUrl.
+ */
+export function resolveStartUrl(actions: ActionEvent[], pageUrl: string): string {
+  const first = actions[0];
+  const start =
+    first?.type === "navigation"
+      ? first.details.from
+      : first?.page ?? actions.find((a): a is ActionOfType<"navigation"> => a.type === "navigation")?.details.from;
+  if (!start) return pageUrl;
+  try {
+    return new URL(start, pageUrl).href;
+  } catch {
+    return pageUrl;
+  }
+}
+
+function slug(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "bug"
+  );
+}
+
+export function generateTestScript(
+  rawActions: unknown,
+  ctx: Omit<TestScriptContext, "startUrl" | "origin"> & { pageUrl: string },
+  framework: TestFramework = "playwright"
+): GeneratedTest {
+  const emitter = TEST_EMITTERS[framework];
+  if (!emitter) throw new Error(`No test emitter for ${framework}`);
+
+  const actions = normalizeActions(rawActions);
+  let origin = "";
+  try {
+    origin = new URL(ctx.pageUrl).origin;
+  } catch {
+    // about:blank & co — navigation steps stay relative
+  }
+  const full: TestScriptContext = { ...ctx, startUrl: resolveStartUrl(actions, ctx.pageUrl), origin };
+
+  const body = [...emitter.navigate(full.startUrl, full)];
+  for (const a of actions) body.push(...emitter.action(a, full));
+  if (full.consoleError) body.push(...emitter.expectConsoleError(full.consoleError, full));
+
+  return {
+    framework,
+    filename: `bug-sense-${slug(ctx.title)}${emitter.fileExtension}`,
+    code: emitter.file(body, full),
+    actionCount: actions.length,
+  };
+}
+
+export function downloadTestScript(test: GeneratedTest) {
+  const blob = new Blob([test.code], { type: "text/plain" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = test.filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -46,9 +46,20 @@ export default defineConfig({
         replayListener: resolve(__dirname, "extension/content/replayListener.ts"),
         duplicateBugDetector: resolve(__dirname, "extension/content/duplicateBugDetector.ts"),
         consoleListener: resolve(__dirname, "extension/content/consoleListener.ts"),
+        pageConsoleHook: resolve(__dirname, "extension/content/pageConsoleHook.ts"),
+        pageNetworkHook: resolve(__dirname, "extension/content/pageNetworkHook.ts"),
+        pageHistoryHook: resolve(__dirname, "extension/content/pageHistoryHook.ts"),
+        pageSdk: resolve(__dirname, "extension/content/pageSdk.ts"),
+        sdkBridge: resolve(__dirname, "extension/content/sdkBridge.ts"),
+        networkListener: resolve(__dirname, "extension/content/networkListener.ts"),
         recorder: resolve(__dirname, "extension/recorder/recorder.html"),
         replayExport: resolve(__dirname, "extension/replay-export/replay-export.html"),
+        offscreen: resolve(__dirname, "extension/offscreen/offscreen.html"),
         selectionOverlay: resolve(__dirname, "extension/content/selectionOverlay.ts"),
+        stepRunner: resolve(__dirname, "extension/content/stepRunner.ts"),
+        domRecorder: resolve(__dirname, "extension/content/domRecorder.ts"),
+        player: resolve(__dirname, "extension/player/player.html"),
+        viewer: resolve(__dirname, "extension/player/viewer.html"),
         // NOTE: Do NOT add devtools HTML here — devtools build is separate
       },
       output: {
@@ -56,6 +67,13 @@ export default defineConfig({
           if (chunk.name === "background") return "extension/background/[name].js";
           if (chunk.name === "replayListener") return "extension/content/[name].js";
           if (chunk.name === "selectionOverlay") return "extension/content/[name].js";
+          if (chunk.name === "stepRunner") return "extension/content/[name].js";
+          if (chunk.name === "domRecorder") return "extension/content/[name].js";
+          if (chunk.name === "pageConsoleHook") return "extension/content/[name].js";
+          if (chunk.name === "pageNetworkHook") return "extension/content/[name].js";
+          if (chunk.name === "pageHistoryHook") return "extension/content/[name].js";
+          if (chunk.name === "pageSdk") return "extension/content/[name].js";
+          if (chunk.name === "sdkBridge") return "extension/content/[name].js";
           return "assets/[name]-[hash].js";
         },
       },